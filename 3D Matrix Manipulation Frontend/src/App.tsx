@@ -4,16 +4,26 @@ import { ThreeJSViewport } from './components/ThreeJSViewport';
 import { TransformationControls } from './components/TransformationControls';
 import { ObjectHierarchy } from './components/ObjectHierarchy';
 import { MatrixPanel } from './components/MatrixPanel';
+import { CameraInspector } from './components/CameraInspector';
+import { PipelinePanel } from './components/PipelinePanel';
+import { ExpressionConsole } from './components/ExpressionConsole';
 import { ViewportControls } from './components/ViewportControls';
+import { SceneManager } from './components/SceneManager';
+import { GltfTransfer } from './components/GltfTransfer';
+import { CollaborationControls } from './components/CollaborationControls';
+import { HistoryControls } from './components/HistoryControls';
+import { TimelinePanel } from './components/TimelinePanel';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from './components/ui/resizable';
 import { ScrollArea } from './components/ui/scroll-area';
 import { Separator } from './components/ui/separator';
 import { Badge } from './components/ui/badge';
 import { Calculator } from 'lucide-react';
 import { Toaster } from './components/ui/sonner';
+import { PANE_VIEWS } from './lib/camera';
 
 function AppContent() {
   const { state } = useAppContext();
+  const activePane = state.viewportSettings.panes[state.viewportSettings.activePane];
 
   useEffect(() => {
     // Apply initial theme
@@ -34,9 +44,18 @@ function AppContent() {
           <Badge variant="secondary">Interactive</Badge>
         </div>
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <HistoryControls />
+          <Separator orientation="vertical" className="h-4" />
+          <SceneManager />
+          <GltfTransfer />
+          <Separator orientation="vertical" className="h-4" />
+          <CollaborationControls />
+          <Separator orientation="vertical" className="h-4" />
           <span>{state.objects.length} objects</span>
           <Separator orientation="vertical" className="h-4" />
-          <span>{state.viewportSettings.projection}</span>
+          <span>
+            {PANE_VIEWS[activePane.view].label} · {activePane.projection}
+          </span>
           <Separator orientation="vertical" className="h-4" />
           <span>{state.theme} theme</span>
         </div>
@@ -60,13 +79,27 @@ function AppContent() {
 
           <ResizableHandle withHandle />
 
-          {/* Center Viewport */}
+          {/* Center Viewport and Timeline */}
           <ResizablePanel defaultSize={50} minSize={40}>
-            <div className="h-full p-4">
-              <div className="h-full border border-border rounded-lg overflow-hidden bg-muted">
-                <ThreeJSViewport />
-              </div>
-            </div>
+            <ResizablePanelGroup direction="vertical" className="h-full">
+              <ResizablePanel defaultSize={75} minSize={40}>
+                <div className="h-full p-4 pb-2">
+                  <div className="h-full border border-border rounded-lg overflow-hidden bg-muted">
+                    <ThreeJSViewport />
+                  </div>
+                </div>
+              </ResizablePanel>
+
+              <ResizableHandle withHandle />
+
+              <ResizablePanel defaultSize={25} minSize={15}>
+                <div className="h-full px-4 pb-4 pt-2">
+                  <div className="h-full border border-border rounded-lg bg-card">
+                    <TimelinePanel />
+                  </div>
+                </div>
+              </ResizablePanel>
+            </ResizablePanelGroup>
           </ResizablePanel>
 
           <ResizableHandle withHandle />
@@ -77,6 +110,9 @@ function AppContent() {
               <ScrollArea className="h-full">
                 <div className="space-y-4">
                   <MatrixPanel />
+                  <CameraInspector />
+                  <PipelinePanel />
+                  <ExpressionConsole />
                   
                   {/* Help Section */}
                   <div className="mt-8 p-4 border border-border rounded-lg bg-muted/50">
@@ -86,6 +122,7 @@ function AppContent() {
                       <p>2. Click on objects in the 3D viewport to select them</p>
                       <p>3. Use transformation controls to modify position, rotation, and scale</p>
                       <p>4. View and manipulate transformation matrices in the right panel</p>
+                      <p>5. Key transforms in the timeline below the viewport and press play</p>
                     </div>
                   </div>
                 </div>
@@ -3,8 +3,11 @@ import * as THREE from 'three';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { Rotate3D, FunctionSquare, SquareStack } from 'lucide-react';
+import { Switch } from './ui/switch';
+import { Rotate3D, FunctionSquare, SquareStack, MoveUpRight } from 'lucide-react';
 import { toast } from 'sonner';
+import { useAppContext } from '../contexts/AppContext';
+import { pureRotation, realEigenpairs } from '../lib/eigen';
 
 type EulerOrder = 'XYZ' | 'YZX' | 'ZXY' | 'XZY' | 'YXZ' | 'ZYX';
 
@@ -22,6 +25,7 @@ export function AdvancedMatrixFeatures({
   const [eulerOrder, setEulerOrder] = useState<EulerOrder>('XYZ');
   const [eulerAngles, setEulerAngles] = useState({ x: 0, y: 0, z: 0 });
   const [quaternion, setQuaternion] = useState({ x: 0, y: 0, z: 0, w: 1 });
+  const { state, dispatch } = useAppContext();
   
   // Matrix properties
   const matrixDeterminant = currentMatrix.determinant();
@@ -30,6 +34,11 @@ export function AdvancedMatrixFeatures({
   const isMatrixIdentity = isIdentity(currentMatrix);
   const isOrthogonal = checkIfOrthogonal(currentMatrix);
 
+  // Geometry of the linear part
+  const linearPart = new THREE.Matrix3().setFromMatrix4(currentMatrix);
+  const eigenpairs = realEigenpairs(linearPart);
+  const rotation = pureRotation(linearPart);
+
   // Update quaternion when matrix changes
   useEffect(() => {
     if (selectedObject) {
@@ -175,6 +184,52 @@ export function AdvancedMatrixFeatures({
         </Button>
       </div>
       
+      {/* Eigenvectors Section */}
+      <div className="border rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <MoveUpRight className="w-4 h-4" />
+            <h3 className="font-medium">Eigenvectors</h3>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="eigen-overlay" className="text-xs">Show in viewport</Label>
+            <Switch
+              id="eigen-overlay"
+              checked={state.viewportSettings.showEigenvectors}
+              onCheckedChange={(checked: boolean) => dispatch({
+                type: 'UPDATE_VIEWPORT_SETTINGS',
+                payload: { showEigenvectors: checked }
+              })}
+            />
+          </div>
+        </div>
+
+        {eigenpairs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No real eigenvectors</p>
+        ) : (
+          <div className="space-y-1 text-sm">
+            {eigenpairs.map((pair, i) => (
+              <div key={i} className="flex justify-between font-mono">
+                <span>λ{i + 1} = {pair.value.toFixed(4)}</span>
+                <span className="text-muted-foreground">
+                  ({pair.vector.toArray().map(v => v.toFixed(3)).join(', ')})
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {rotation && (
+          <p className="mt-2 text-sm font-mono">
+            Rotation: {THREE.MathUtils.radToDeg(rotation.angle).toFixed(2)}° about (
+            {rotation.axis.toArray().map(v => v.toFixed(3)).join(', ')})
+          </p>
+        )}
+        <p className="mt-2 text-xs text-muted-foreground">
+          Directions the linear part only stretches, by λ. Complex pairs (rotation planes) have no real vector.
+        </p>
+      </div>
+
       {/* Matrix Properties Section */}
       <div className="border rounded-lg p-4">
         <div className="flex items-center gap-2 mb-3">
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+import { CompactMatrix } from './CompactMatrix';
+import { useAppContext } from '../contexts/AppContext';
+import { modelViewProjection, PANE_VIEWS } from '../lib/camera';
+
+interface CameraReadout {
+  position: THREE.Vector3;
+  view: THREE.Matrix4;
+  projection: THREE.Matrix4;
+  model: THREE.Matrix4 | null;
+}
+
+const sameReadout = (a: CameraReadout, b: CameraReadout) =>
+  a.position.equals(b.position) &&
+  a.view.equals(b.view) &&
+  a.projection.equals(b.projection) &&
+  (a.model && b.model ? a.model.equals(b.model) : a.model === b.model);
+
+// The active pane's camera matrices and settings. OrbitControls and the gizmo
+// move things without a dispatch, so the matrices are read every frame and
+// the panel re-renders only when one of them changed.
+export function CameraInspector() {
+  const { state, dispatch } = useAppContext();
+  const [readout, setReadout] = useState<CameraReadout | null>(null);
+
+  const { camera } = state;
+  const selectedMesh = state.objects.find(obj => obj.id === state.selectedObjectId)?.mesh;
+  const settings = state.viewportSettings;
+  const pane = settings.panes[settings.activePane];
+
+  useEffect(() => {
+    if (!camera) return;
+    let frame = 0;
+    const read = () => {
+      frame = requestAnimationFrame(read);
+      const next: CameraReadout = {
+        position: camera.position.clone(),
+        view: camera.matrixWorldInverse.clone(),
+        projection: camera.projectionMatrix.clone(),
+        model: selectedMesh ? selectedMesh.matrixWorld.clone() : null,
+      };
+      setReadout(prev => (prev && sameReadout(prev, next) ? prev : next));
+    };
+    read();
+    return () => cancelAnimationFrame(frame);
+  }, [camera, selectedMesh]);
+
+  const updateSettings = (payload: Partial<typeof settings>) => {
+    dispatch({ type: 'UPDATE_VIEWPORT_SETTINGS', payload });
+  };
+
+  // Moves the camera itself; OrbitControls keeps looking at its target
+  const setPosition = (axis: 'x' | 'y' | 'z', value: string) => {
+    const numValue = parseFloat(value);
+    if (!camera || isNaN(numValue)) return;
+    camera.position[axis] = numValue;
+    camera.updateMatrixWorld();
+  };
+
+  // The far plane must stay beyond the near one, and the near plane in front of the camera
+  const setNear = (value: string) => {
+    const near = parseFloat(value);
+    if (!isNaN(near) && near > 0 && near < settings.far) updateSettings({ near });
+  };
+
+  const setFar = (value: string) => {
+    const far = parseFloat(value);
+    if (!isNaN(far) && far > settings.near) updateSettings({ far });
+  };
+
+  const perspective = pane.projection === 'perspective';
+  const mvp = camera && readout?.model
+    ? modelViewProjection(camera, readout.model)
+    : null;
+  const zoom = camera?.zoom ?? 1;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between">
+          Camera
+          <Badge variant="outline">{PANE_VIEWS[pane.view].label} · {pane.projection}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Projection */}
+        {perspective ? (
+          <div className="space-y-2">
+            <Label>Field of view: {settings.fov.toFixed(0)}°</Label>
+            <Slider
+              value={[settings.fov]}
+              onValueChange={(value: number[]) => updateSettings({ fov: value[0] })}
+              min={10}
+              max={120}
+              step={1}
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label>Frustum height: {settings.frustumSize.toFixed(1)}</Label>
+            <Slider
+              value={[settings.frustumSize]}
+              onValueChange={(value: number[]) => updateSettings({ frustumSize: value[0] })}
+              min={1}
+              max={50}
+              step={0.5}
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="camera-near" className="text-xs">Near</Label>
+            <Input
+              id="camera-near"
+              type="number"
+              defaultValue={settings.near}
+              key={`near-${settings.near}`}
+              onBlur={(e) => setNear(e.target.value)}
+              min={0}
+              step={0.1}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="camera-far" className="text-xs">Far</Label>
+            <Input
+              id="camera-far"
+              type="number"
+              defaultValue={settings.far}
+              key={`far-${settings.far}`}
+              onBlur={(e) => setFar(e.target.value)}
+              step={10}
+            />
+          </div>
+        </div>
+
+        {/* Position */}
+        <div className="space-y-2">
+          <Label>Position</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {(['x', 'y', 'z'] as const).map(axis => (
+              <div key={axis} className="flex items-center gap-1">
+                <Label className="w-3 text-xs">{axis.toUpperCase()}</Label>
+                <Input
+                  type="number"
+                  value={readout ? readout.position[axis].toFixed(2) : ''}
+                  onChange={(e) => setPosition(axis, e.target.value)}
+                  disabled={!camera}
+                  step={0.1}
+                />
+              </div>
+            ))}
+          </div>
+          {!perspective && zoom !== 1 && (
+            <p className="text-xs text-muted-foreground">Zoom {zoom.toFixed(2)}× (scroll) scales the projection</p>
+          )}
+        </div>
+
+        {/* Matrices */}
+        {readout && (
+          <div className="space-y-3 pt-2 border-t border-border/50">
+            <div className="grid grid-cols-2 gap-3">
+              <CompactMatrix title="View V (matrixWorldInverse)" matrix={readout.view} />
+              <CompactMatrix title="Projection P" matrix={readout.projection} />
+            </div>
+            {mvp ? (
+              <CompactMatrix title="MVP = P · V · M (selected object)" matrix={mvp} />
+            ) : (
+              <p className="text-xs text-muted-foreground text-center">Select an object to see its MVP matrix</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
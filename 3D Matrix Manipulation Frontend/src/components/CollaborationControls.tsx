@@ -0,0 +1,296 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { LogOut, Users } from 'lucide-react';
+import { useAppContext } from '../contexts/AppContext';
+import { SceneObject } from '../types';
+import { CollabOperation, ObjectPlacement, SavedObject } from '../lib/api';
+import { CollabSession, placementOf, samePlacement } from '../lib/collab';
+import { fromSavedObject, toSavedObject } from '../lib/scenes';
+import { toast } from 'sonner';
+
+// How often local edits are looked for; a slider drag streams at this rate
+const SYNC_INTERVAL_MS = 50;
+
+const NAME_STORAGE_KEY = 'collab-name';
+
+// What the session last agreed on for an object
+interface SharedState {
+  placement: ObjectPlacement;
+  visible: boolean;
+}
+
+const sharedStateOf = (saved: SavedObject): SharedState => ({
+  placement: {
+    parentId: saved.parentId ?? null,
+    position: saved.position,
+    rotation: saved.rotation,
+    scale: saved.scale,
+    ...(saved.matrix ? { matrix: saved.matrix } : {}),
+  },
+  visible: saved.visible,
+});
+
+// Live editing of the open scene with everyone else who joins it. Local
+// edits, whatever made them (sliders, gizmo, undo), are found by comparing
+// the scene against what was last shared, so no editing code needs to know
+// about the session.
+export function CollaborationControls() {
+  const { state, dispatch } = useAppContext();
+  const [session, setSession] = useState<CollabSession | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [joinOpen, setJoinOpen] = useState(false);
+  const [name, setName] = useState(() => localStorage.getItem(NAME_STORAGE_KEY) ?? '');
+  const [ownColor, setOwnColor] = useState<string | null>(null);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const sharedRef = useRef(new Map<string, SharedState>());
+  // Remote edits dispatched but not rendered yet; the scene is not compared
+  // until they are, or the old values would be sent back as local edits
+  const unrenderedRef = useRef(0);
+
+  useEffect(() => {
+    unrenderedRef.current = 0;
+  }, [state.objects]);
+
+  // Queued through the reducer in arrival order, so a later operation may
+  // refer to an object an earlier one added before it has rendered
+  const applyRemote = (op: CollabOperation) => {
+    const shared = sharedRef.current;
+    const { viewportSettings } = stateRef.current;
+    let object: SceneObject | undefined;
+
+    switch (op.kind) {
+      case 'add':
+        shared.set(op.object.id, sharedStateOf(op.object));
+        object = fromSavedObject(op.object, viewportSettings.wireframe);
+        break;
+
+      case 'remove': {
+        const removed = shared.get(op.id);
+        shared.delete(op.id);
+        shared.forEach(entry => {
+          if (entry.placement.parentId === op.id) entry.placement.parentId = removed?.placement.parentId ?? null;
+        });
+        // The mesh is freed by AppProvider once no history entry can bring it back
+        break;
+      }
+
+      case 'transform': {
+        const { kind, id, ...placement } = op;
+        const entry = shared.get(id);
+        if (entry) entry.placement = placement;
+        break;
+      }
+
+      case 'visibility': {
+        const entry = shared.get(op.id);
+        if (entry) entry.visible = op.visible;
+        break;
+      }
+    }
+
+    unrenderedRef.current++;
+    dispatch({ type: 'APPLY_REMOTE_OPERATION', payload: { op, object } });
+  };
+
+  // Resets an object to the server's version after an edit was refused
+  const restore = (id: string, object: SavedObject | null) => {
+    const exists = stateRef.current.objects.some(obj => obj.id === id);
+    if (!object) {
+      if (exists) applyRemote({ kind: 'remove', id });
+      return;
+    }
+    if (!exists) {
+      applyRemote({ kind: 'add', object });
+      return;
+    }
+    const { placement, visible } = sharedStateOf(object);
+    applyRemote({ kind: 'transform', id, ...placement });
+    applyRemote({ kind: 'visibility', id, visible });
+  };
+
+  const join = () => {
+    const trimmed = name.trim();
+    const scene = state.currentScene;
+    if (!scene || !trimmed) return;
+    localStorage.setItem(NAME_STORAGE_KEY, trimmed);
+    setJoinOpen(false);
+
+    const next = new CollabSession(scene.id, trimmed, {
+      onWelcome: (welcome) => {
+        // The session's scene, saved or as edited so far, replaces the local one
+        const shared = sharedRef.current;
+        const { viewportSettings, timeline } = stateRef.current;
+        shared.clear();
+        welcome.objects.forEach(saved => shared.set(saved.id, sharedStateOf(saved)));
+        const ids = new Set(welcome.objects.map(saved => saved.id));
+        dispatch({
+          type: 'LOAD_SCENE',
+          payload: {
+            objects: welcome.objects.map(saved => fromSavedObject(saved, viewportSettings.wireframe)),
+            tracks: timeline.tracks.filter(track => ids.has(track.objectId)),
+            scene
+          }
+        });
+        unrenderedRef.current++;
+        if (welcome.seeded) {
+          toast.success(`Started a live session on "${scene.name}"`);
+        } else {
+          const others = welcome.peers.length;
+          toast.success(`Joined ${others} other${others !== 1 ? 's' : ''} editing "${scene.name}"`);
+        }
+        setOwnColor(welcome.color);
+        setConnected(true);
+        next.setSelection(stateRef.current.selectedObjectIds);
+      },
+      onOperation: applyRemote,
+      onPeers: (peers) => dispatch({ type: 'SET_COLLABORATORS', payload: peers }),
+      onReject: (message, id, object) => {
+        toast.error(`Edit was not shared: ${message}`);
+        restore(id, object);
+      },
+      onError: (message) => toast.error(`Live session: ${message}`),
+      onClose: (reason) => {
+        toast.error(`Left the live session: ${reason}`);
+        setSession(null);
+      },
+    });
+    setSession(next);
+  };
+
+  // Closing the session, whether by Leave, a lost connection or unmounting,
+  // forgets the other people in it
+  useEffect(() => {
+    if (!session) return;
+    return () => {
+      session.close();
+      sharedRef.current.clear();
+      setConnected(false);
+      setOwnColor(null);
+      dispatch({ type: 'SET_COLLABORATORS', payload: [] });
+    };
+  }, [session, dispatch]);
+
+  // Opening, importing or saving as another scene ends the session
+  useEffect(() => {
+    setSession(null);
+  }, [state.currentScene?.id]);
+
+  useEffect(() => {
+    if (connected) session?.setSelection(state.selectedObjectIds);
+  }, [connected, session, state.selectedObjectIds]);
+
+  // Sends whatever changed locally since it was last shared
+  useEffect(() => {
+    if (!session || !connected) return;
+    const timer = setInterval(() => {
+      if (unrenderedRef.current > 0) return;
+      const shared = sharedRef.current;
+      const { objects } = stateRef.current;
+      const present = new Set<string>();
+
+      objects.forEach(obj => {
+        present.add(obj.id);
+        const entry = shared.get(obj.id);
+        if (!entry) {
+          // A child waits a tick for its new parent, which the server must know first
+          if (obj.parentId && !shared.has(obj.parentId)) return;
+          const saved = toSavedObject(obj);
+          shared.set(obj.id, sharedStateOf(saved));
+          session.submit({ kind: 'add', object: saved });
+          return;
+        }
+        const placement = placementOf(obj);
+        if (!samePlacement(entry.placement, placement)) {
+          entry.placement = placement;
+          session.submit({ kind: 'transform', id: obj.id, ...placement });
+        }
+        if (entry.visible !== obj.visible) {
+          entry.visible = obj.visible;
+          session.submit({ kind: 'visibility', id: obj.id, visible: obj.visible });
+        }
+      });
+
+      [...shared.keys()].filter(id => !present.has(id)).forEach(id => {
+        shared.delete(id);
+        session.submit({ kind: 'remove', id });
+      });
+    }, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [session, connected]);
+
+  if (session) {
+    return (
+      <div className="flex items-center gap-2">
+        <div className="flex items-center -space-x-1">
+          {ownColor && (
+            <span
+              className="w-3 h-3 rounded-full border-2 border-card"
+              style={{ backgroundColor: ownColor }}
+              title={`${name.trim()} (you)`}
+            />
+          )}
+          {state.collaborators.map(peer => (
+            <span
+              key={peer.clientId}
+              className="w-3 h-3 rounded-full border-2 border-card"
+              style={{ backgroundColor: peer.color }}
+              title={peer.selection.length > 0 ? `${peer.name} · ${peer.selection.length} selected` : peer.name}
+            />
+          ))}
+        </div>
+        <span>{connected ? `${state.collaborators.length + 1} editing` : 'Connecting…'}</span>
+        <Button variant="outline" size="sm" onClick={() => setSession(null)} className="gap-2">
+          <LogOut className="w-4 h-4" />
+          Leave
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Popover open={joinOpen} onOpenChange={setJoinOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!state.currentScene}
+          title={state.currentScene ? undefined : 'Save the scene to edit it live with others'}
+          className="gap-2"
+        >
+          <Users className="w-4 h-4" />
+          Live
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64">
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            join();
+          }}
+        >
+          <Label htmlFor="collab-name">Your name</Label>
+          <Input
+            id="collab-name"
+            value={name}
+            maxLength={40}
+            onChange={(e) => setName(e.target.value)}
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">
+            Everyone who joins "{state.currentScene?.name}" sees edits as they happen.
+            The session starts from the saved scene and saves its edits when the last person leaves.
+          </p>
+          <Button type="submit" size="sm" className="w-full" disabled={!name.trim()}>
+            Join live session
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,19 @@
+import * as THREE from 'three';
+
+export function CompactMatrix({ title, matrix }: { title: string; matrix: THREE.Matrix4 }) {
+  const e = matrix.elements;
+  return (
+    <div className="space-y-1">
+      <p className="text-[10px] text-muted-foreground text-center">{title}</p>
+      <div className="grid grid-cols-4 gap-px bg-muted p-1 rounded font-mono text-[10px]">
+        {[0, 1, 2, 3].map(row =>
+          [0, 1, 2, 3].map(col => (
+            <div key={`${row}-${col}`} className="text-center bg-background rounded-sm">
+              {e[col * 4 + row].toFixed(2)}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
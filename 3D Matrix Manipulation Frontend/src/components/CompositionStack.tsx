@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import * as THREE from 'three';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { GripVertical, Trash2, Plus, Layers } from 'lucide-react';
+import { CompactMatrix } from './CompactMatrix';
+import { useAppContext } from '../contexts/AppContext';
+import {
+  compositionKinds,
+  composeStack,
+  createEntry,
+  describeEntry,
+  entryMatrix,
+  partialProducts
+} from '../lib/composition';
+import { CompositionEntry, CompositionKind, SceneObject } from '../types';
+import { toast } from 'sonner';
+
+interface CompositionStackProps {
+  selectedObject: SceneObject;
+  currentMatrix: THREE.Matrix4;
+  onMatrixUpdate: (matrix: THREE.Matrix4) => void;
+}
+
+export function CompositionStack({ selectedObject, currentMatrix, onMatrixUpdate }: CompositionStackProps) {
+  const { state, dispatch } = useAppContext();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const entries = state.compositionStacks[selectedObject.id] ?? [];
+  const products = partialProducts(entries);
+  const product = composeStack(entries);
+
+  const setEntries = (next: CompositionEntry[]) => {
+    dispatch({ type: 'SET_COMPOSITION_STACK', payload: { objectId: selectedObject.id, entries: next } });
+  };
+
+  const updateEntry = (id: string, patch: Partial<CompositionEntry>) => {
+    setEntries(entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  const updateParam = (entry: CompositionEntry, index: number, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    const params = [...entry.params];
+    params[index] = parsed;
+    updateEntry(entry.id, { params });
+  };
+
+  const addEntry = (kind: CompositionKind) => {
+    setEntries([...entries, createEntry(kind)]);
+  };
+
+  // Replaces the stack with T · R · S of the object's current local matrix
+  const decomposeCurrent = () => {
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    currentMatrix.decompose(position, quaternion, scale);
+
+    const angle = 2 * Math.acos(THREE.MathUtils.clamp(quaternion.w, -1, 1));
+    const sin = Math.sqrt(1 - quaternion.w * quaternion.w);
+    const axis = sin < 1e-6
+      ? new THREE.Vector3(0, 1, 0)
+      : new THREE.Vector3(quaternion.x / sin, quaternion.y / sin, quaternion.z / sin);
+
+    setEntries([
+      createEntry('translate', [position.x, position.y, position.z]),
+      createEntry('rotate', [axis.x, axis.y, axis.z, THREE.MathUtils.radToDeg(angle)]),
+      createEntry('scale', [scale.x, scale.y, scale.z])
+    ]);
+  };
+
+  const moveEntry = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...entries];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setEntries(next);
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const applyToObject = () => {
+    onMatrixUpdate(product);
+    toast.success('Composition applied');
+  };
+
+  const formula = entries.filter(entry => entry.enabled).map(describeEntry).join(' · ') || 'I';
+
+  const renderParams = (entry: CompositionEntry) => {
+    if (entry.kind === 'custom') {
+      // Shown as rows of the matrix; stored column-major
+      return (
+        <div className="grid grid-cols-4 gap-1">
+          {[0, 1, 2, 3].map(row =>
+            [0, 1, 2, 3].map(col => (
+              <Input
+                key={`${row}-${col}`}
+                type="number"
+                step="0.1"
+                value={entry.params[col * 4 + row]}
+                onChange={(e) => updateParam(entry, col * 4 + row, e.target.value)}
+                className="h-7 px-1 text-xs"
+              />
+            ))
+          )}
+        </div>
+      );
+    }
+
+    const labels = compositionKinds.find(k => k.kind === entry.kind)!.params;
+    return (
+      <div className={`grid gap-1 ${labels.length === 4 ? 'grid-cols-4' : 'grid-cols-3'}`}>
+        {labels.map((label, i) => (
+          <div key={label} className="space-y-0.5">
+            <Label className="text-[10px] text-muted-foreground">{label}</Label>
+            <Input
+              type="number"
+              step={entry.kind === 'rotate' && i === 3 ? '5' : '0.1'}
+              value={entry.params[i]}
+              onChange={(e) => updateParam(entry, i, e.target.value)}
+              className="h-7 px-1 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Composition Stack</Label>
+        <Button variant="ghost" size="sm" onClick={decomposeCurrent} className="text-xs gap-1">
+          <Layers className="w-3.5 h-3.5" />
+          From current
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {compositionKinds.map(({ kind, label }) => (
+          <Button key={kind} variant="outline" size="sm" onClick={() => addEntry(kind)} className="text-xs gap-1">
+            <Plus className="w-3 h-3" />
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        The product reads top to bottom, M = M₁ · M₂ · …, so the bottom entry acts on the
+        object first. Drag entries to reorder them and watch the running product change.
+      </p>
+
+      {entries.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground py-4">
+          Add transforms above, or start from the current matrix
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry, index) => (
+            <div
+              key={entry.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData('text/plain', entry.id);
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              onDragEnd={endDrag}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null) moveEntry(dragIndex, index);
+                endDrag();
+              }}
+              className={`p-2 rounded-md border space-y-2 ${
+                dropIndex === index && dragIndex !== index
+                  ? 'border-primary border-dashed bg-primary/10'
+                  : 'border-border'
+              } ${entry.enabled ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-center gap-2">
+                <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab" />
+                <span className="text-xs text-muted-foreground">{index + 1}.</span>
+                <span className="flex-1 truncate font-mono text-xs">{describeEntry(entry)}</span>
+                <Switch
+                  checked={entry.enabled}
+                  onCheckedChange={(enabled: boolean) => updateEntry(entry.id, { enabled })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEntries(entries.filter(e => e.id !== entry.id))}
+                  className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+
+              {renderParams(entry)}
+
+              <div className="grid grid-cols-2 gap-2">
+                <CompactMatrix title={`M${index + 1}`} matrix={entryMatrix(entry)} />
+                <CompactMatrix title={`M1 · … · M${index + 1}`} matrix={products[index]} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-border/50">
+        <p className="font-mono text-xs break-all">M = {formula}</p>
+        <CompactMatrix title="Product" matrix={product} />
+        <Button onClick={applyToObject} disabled={entries.length === 0} className="w-full">
+          Apply to {selectedObject.name}
+        </Button>
+      </div>
+    </div>
+  );
+}
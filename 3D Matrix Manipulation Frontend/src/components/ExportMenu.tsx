@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Copy, FileCode } from 'lucide-react';
+import { useAppContext } from '../contexts/AppContext';
+import { ExportFormat, exportFormats, exportMatrices, MAX_PRECISION, NamedMatrix } from '../lib/exporters';
+import { identifierFor } from '../lib/expressions';
+import { localMatrix, worldMatrix } from '../lib/sceneGraph';
+import { toast } from 'sonner';
+
+type ExportScope = 'local' | 'world' | 'sceneLocal' | 'sceneWorld';
+
+const scopes: { scope: ExportScope; label: string; needsSelection: boolean }[] = [
+  { scope: 'local', label: 'Selected object, local', needsSelection: true },
+  { scope: 'world', label: 'Selected object, world', needsSelection: true },
+  { scope: 'sceneLocal', label: 'Whole scene, local', needsSelection: false },
+  { scope: 'sceneWorld', label: 'Whole scene, world', needsSelection: false },
+];
+
+// Renders the current matrix, or every object's, as a snippet for another
+// library or language, with a live preview and copy to clipboard
+export function ExportMenu() {
+  const { state } = useAppContext();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('three');
+  const [scope, setScope] = useState<ExportScope>('local');
+  const [precision, setPrecision] = useState(4);
+
+  const selectedObject = state.objects.find(obj => obj.id === state.selectedObjectId);
+  const effectiveScope = !selectedObject && (scope === 'local' || scope === 'world') ? 'sceneLocal' : scope;
+
+  const named = (objects: typeof state.objects, world: boolean): NamedMatrix[] => {
+    const used = new Set<string>();
+    return objects.map(obj => {
+      let name = identifierFor(obj.name);
+      for (let n = 2; used.has(name); n++) name = `${identifierFor(obj.name)}_${n}`;
+      used.add(name);
+      return { name, matrix: world ? worldMatrix(state.objects, obj) : localMatrix(obj) };
+    });
+  };
+
+  const matrices: NamedMatrix[] =
+    effectiveScope === 'local' || effectiveScope === 'world'
+      ? named([selectedObject!], effectiveScope === 'world')
+      : named(state.objects, effectiveScope === 'sceneWorld');
+  const snippet = matrices.length > 0 ? exportMatrices(format, matrices, precision) : '';
+
+  const copySnippet = () => {
+    navigator.clipboard.writeText(snippet).then(() => {
+      toast.success('Snippet copied to clipboard');
+    }).catch(() => {
+      toast.error('Failed to copy snippet');
+    });
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} className="gap-2">
+        <FileCode className="w-4 h-4" />
+        Export
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Export Matrix</DialogTitle>
+            <DialogDescription>
+              Each format lists the elements in the order its constructor expects; the matrix
+              acts on column vectors.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Format</Label>
+              <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+                <SelectTrigger size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {exportFormats.map(({ format, label }) => (
+                    <SelectItem key={format} value={format}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Matrices</Label>
+              <Select value={effectiveScope} onValueChange={(value: ExportScope) => setScope(value)}>
+                <SelectTrigger size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scopes.map(({ scope, label, needsSelection }) => (
+                    <SelectItem key={scope} value={scope} disabled={needsSelection && !selectedObject}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="export-precision" className="text-xs">Decimal places</Label>
+              <Input
+                id="export-precision"
+                type="number"
+                min={0}
+                max={MAX_PRECISION}
+                value={precision}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value)) setPrecision(Math.min(Math.max(value, 0), MAX_PRECISION));
+                }}
+                className="h-8"
+              />
+            </div>
+          </div>
+
+          {snippet ? (
+            <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 font-mono text-xs">{snippet}</pre>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">The scene has no objects to export</p>
+          )}
+
+          <DialogFooter>
+            <Button onClick={copySnippet} disabled={!snippet} className="gap-2">
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
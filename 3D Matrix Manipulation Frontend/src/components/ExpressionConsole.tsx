@@ -0,0 +1,226 @@
+import { useState, KeyboardEvent } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { ChevronDown, ChevronUp, CornerDownLeft, SquareFunction, Trash2 } from 'lucide-react';
+import { CompactMatrix } from './CompactMatrix';
+import { useAppContext } from '../contexts/AppContext';
+import { api, ApiError, ExpressionValue, SourceSpan } from '../lib/api';
+import { expressionVariables, formatValue, fromRowMajor, toRowMajor } from '../lib/expressions';
+
+interface ConsoleEntry {
+  id: number;
+  expression: string;
+  result?: ExpressionValue;
+  error?: { message: string; position?: SourceSpan };
+}
+
+const EXAMPLES = [
+  'T(1,0,0) * Ry(45deg) * S(2)',
+  'inverse(M_parent) * W',
+  'P * V * W * vec(0,0,0)',
+  'det(M)',
+];
+
+// Expression source with the failing span underlined
+function HighlightedSource({ source, span }: { source: string; span: SourceSpan }) {
+  const end = Math.max(span.end, span.start + 1);
+  return (
+    <span className="whitespace-pre-wrap">
+      {source.slice(0, span.start)}
+      <span className="bg-destructive/20 text-destructive underline decoration-wavy">
+        {span.start < source.length ? source.slice(span.start, end) : ' '}
+      </span>
+      {source.slice(end)}
+    </span>
+  );
+}
+
+// A REPL over /api/matrix/evaluate with the scene's matrices bound by name.
+// Matrix results can be applied to the selected object as its local matrix.
+export function ExpressionConsole() {
+  const { state, dispatch } = useAppContext();
+  const [input, setInput] = useState('');
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const [recall, setRecall] = useState<number | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
+  const [showNames, setShowNames] = useState(false);
+
+  const selectedObject = state.objects.find(obj => obj.id === state.selectedObjectId);
+  const variables = expressionVariables(state);
+
+  const evaluate = async () => {
+    const expression = input.trim();
+    if (!expression || evaluating) return;
+
+    // Bound at submit time so the camera and objects are read as they are now
+    const bound = Object.fromEntries(expressionVariables(state).map(v => [v.name, toRowMajor(v.matrix)]));
+    const entry: ConsoleEntry = { id: Date.now(), expression };
+    setEvaluating(true);
+    try {
+      entry.result = (await api.matrix.evaluate(expression, bound)).result;
+      setInput('');
+    } catch (err) {
+      const position = err instanceof ApiError ? (err.body.position as SourceSpan | undefined) : undefined;
+      entry.error = { message: (err as Error).message, position };
+    } finally {
+      setEvaluating(false);
+    }
+    setEntries(prev => [...prev, entry]);
+    setRecall(null);
+  };
+
+  // ↑ / ↓ walk back through earlier expressions
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      evaluate();
+      return;
+    }
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    if (entries.length === 0) return;
+    e.preventDefault();
+
+    const last = entries.length - 1;
+    const next = e.key === 'ArrowUp'
+      ? Math.max((recall ?? entries.length) - 1, 0)
+      : recall === null || recall >= last ? null : recall + 1;
+    setRecall(next);
+    setInput(next === null ? '' : entries[next].expression);
+  };
+
+  const applyResult = (result: ExpressionValue, expression: string) => {
+    if (!selectedObject || result.kind !== 'matrix') return;
+    dispatch({
+      type: 'UPDATE_OBJECT_MATRIX',
+      payload: { id: selectedObject.id, matrix: fromRowMajor(result.value) },
+      history: { label: `Apply ${expression}` }
+    });
+  };
+
+  const insertName = (name: string) => {
+    setInput(prev => (prev && !/[\s(*+\-/,]$/.test(prev) ? `${prev} * ${name}` : `${prev}${name}`));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <SquareFunction className="w-4 h-4" />
+            Expression Console
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setEntries([])} disabled={entries.length === 0}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.length === 0 ? (
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>Try for example:</p>
+            {EXAMPLES.map(example => (
+              <button
+                key={example}
+                className="block font-mono hover:text-foreground"
+                onClick={() => setInput(example)}
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {entries.map(entry => (
+              <div key={entry.id} className="space-y-1 text-xs">
+                <p className="font-mono text-muted-foreground">
+                  {'> '}
+                  {entry.error?.position
+                    ? <HighlightedSource source={entry.expression} span={entry.error.position} />
+                    : <button className="hover:text-foreground" onClick={() => setInput(entry.expression)}>{entry.expression}</button>}
+                </p>
+
+                {entry.error && <p className="text-destructive">{entry.error.message}</p>}
+
+                {entry.result?.kind === 'matrix' && (
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <CompactMatrix title="Result" matrix={fromRowMajor(entry.result.value)} />
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => applyResult(entry.result!, entry.expression)}
+                      disabled={!selectedObject}
+                    >
+                      Apply
+                    </Button>
+                  </div>
+                )}
+
+                {entry.result && entry.result.kind !== 'matrix' && (
+                  <p className="font-mono">
+                    {entry.result.kind === 'vector' ? `(${formatValue(entry.result)})` : formatValue(entry.result, 6)}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="T(1,0,0) * Ry(45deg) * M"
+            className="font-mono text-xs"
+            spellCheck={false}
+          />
+          <Button size="sm" onClick={evaluate} disabled={!input.trim() || evaluating}>
+            <CornerDownLeft className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-between px-2"
+            onClick={() => setShowNames(!showNames)}
+          >
+            <span className="text-xs">Names and functions</span>
+            {showNames ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </Button>
+
+          {showNames && (
+            <div className="space-y-2 text-xs">
+              <div className="flex flex-wrap gap-1">
+                {variables.map(variable => (
+                  <Badge
+                    key={variable.name}
+                    variant="secondary"
+                    className="font-mono cursor-pointer"
+                    title={variable.description}
+                    onClick={() => insertName(variable.name)}
+                  >
+                    {variable.name}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-muted-foreground font-mono leading-relaxed">
+                T(x,y,z) Rx/Ry/Rz(a) R(x,y,z,a) S(s) S(x,y,z) H(xy,xz,yx,yz,zx,zy)
+                perspective(fovy,aspect,n,f) ortho(l,r,b,t,n,f) vec(x,y,z[,w]) I()
+                transpose(M) M' inverse(M) M^-1 det(M) trace(M) [a,b,c;d,e,f;g,h,i]
+              </p>
+              <p className="text-muted-foreground">
+                Angles are radians unless written 45deg or 45°. Matrices apply to column vectors.
+              </p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Boxes, Loader2 } from 'lucide-react';
+import { useAppContext } from '../contexts/AppContext';
+import { disposeMesh } from '../lib/geometry';
+import { downloadFile } from '../lib/download';
+import { exportGltf, importGltf } from '../lib/gltf';
+import { toast } from 'sonner';
+
+// glTF 2.0 export of the whole scene and import, which replaces it like Open
+export function GltfTransfer() {
+  const { state, dispatch } = useAppContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+
+  const baseName = (state.currentScene?.name ?? 'scene').replace(/[^\w-]+/g, '_');
+
+  const handleExport = async (binary: boolean) => {
+    setBusy(true);
+    try {
+      const { data, approximated } = await exportGltf(state.objects, binary);
+      if (binary) {
+        downloadFile(data as ArrayBuffer, `${baseName}.glb`, 'model/gltf-binary');
+      } else {
+        downloadFile(JSON.stringify(data, null, 2), `${baseName}.gltf`, 'model/gltf+json');
+      }
+      toast.success(`Exported ${state.objects.length} object${state.objects.length !== 1 ? 's' : ''}`);
+      if (approximated.length > 0) {
+        toast.warning(
+          `${approximated.join(', ')}: sheared or projective matrices are written as their closest TRS; ` +
+          're-importing here restores them exactly'
+        );
+      }
+    } catch (err) {
+      toast.error(`Failed to export glTF: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setBusy(true);
+    try {
+      const { objects, skipped } = importGltf(await file.arrayBuffer(), state.viewportSettings.wireframe);
+      state.objects.forEach(obj => disposeMesh(obj.mesh));
+      dispatch({ type: 'LOAD_SCENE', payload: { objects, tracks: [], scene: null } });
+      toast.success(`Imported ${objects.length} object${objects.length !== 1 ? 's' : ''} from ${file.name}`);
+      if (skipped > 0) {
+        toast.warning(`${skipped} mesh${skipped !== 1 ? 'es' : ''} could not be read and ${skipped !== 1 ? 'were' : 'was'} skipped`);
+      }
+    } catch (err) {
+      toast.error(`Failed to import ${file.name}: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={busy} className="gap-2">
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Boxes className="w-4 h-4" />}
+            glTF
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Export scene</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => handleExport(false)} disabled={state.objects.length === 0}>
+            .gltf (JSON)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => handleExport(true)} disabled={state.objects.length === 0}>
+            .glb (binary)
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            Import .gltf / .glb…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".gltf,.glb,model/gltf+json,model/gltf-binary"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,180 @@
+import { useRef, useState } from 'react';
+import * as THREE from 'three';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Slider } from './ui/slider';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { useAppContext } from '../contexts/AppContext';
+import { aboutPivot, selectionPivot } from '../lib/sceneGraph';
+import { ViewportSettings } from '../types';
+
+type Axis = 'x' | 'y' | 'z';
+
+const pivotModes: { mode: ViewportSettings['pivotMode']; label: string }[] = [
+  { mode: 'centroid', label: 'Centroid' },
+  { mode: 'active', label: 'Active' },
+  { mode: 'origin', label: 'Origin' },
+];
+
+const neutral = {
+  move: { x: 0, y: 0, z: 0 },
+  rotate: { x: 0, y: 0, z: 0 },
+  scale: 1
+};
+
+// Sliders here are relative: each drag starts from zero (or 1 for scale), every
+// change dispatches the increment since the previous value, and releasing the
+// slider resets it. That keeps one drag = one undo step while the objects keep
+// their offsets to each other.
+export function GroupTransformControls() {
+  const { state, dispatch } = useAppContext();
+  const [gesture, setGesture] = useState(neutral);
+  // Last value already applied to the scene; slider events can arrive faster than re-renders
+  const applied = useRef(neutral);
+  const { pivotMode } = state.viewportSettings;
+
+  const pivot = () =>
+    selectionPivot(state.objects, state.selectedObjectIds, state.selectedObjectId, pivotMode);
+
+  const applyDelta = (delta: THREE.Matrix4, group: string) => {
+    dispatch({
+      type: 'TRANSFORM_SELECTION',
+      payload: { matrix: delta },
+      history: { group }
+    });
+  };
+
+  const handleMove = (axis: Axis, value: number) => {
+    const offset = new THREE.Vector3();
+    offset[axis] = value - applied.current.move[axis];
+    applyDelta(new THREE.Matrix4().makeTranslation(offset.x, offset.y, offset.z), `group.move.${axis}`);
+    update({ ...applied.current, move: { ...applied.current.move, [axis]: value } });
+  };
+
+  const handleRotate = (axis: Axis, degrees: number) => {
+    const axisVector = new THREE.Vector3();
+    axisVector[axis] = 1;
+    const angle = THREE.MathUtils.degToRad(degrees - applied.current.rotate[axis]);
+    const rotation = new THREE.Matrix4().makeRotationAxis(axisVector, angle);
+    applyDelta(aboutPivot(rotation, pivot()), `group.rotate.${axis}`);
+    update({ ...applied.current, rotate: { ...applied.current.rotate, [axis]: degrees } });
+  };
+
+  const handleScale = (factor: number) => {
+    const relative = factor / applied.current.scale;
+    const scale = new THREE.Matrix4().makeScale(relative, relative, relative);
+    applyDelta(aboutPivot(scale, pivot()), 'group.scale');
+    update({ ...applied.current, scale: factor });
+  };
+
+  const update = (next: typeof neutral) => {
+    applied.current = next;
+    setGesture(next);
+  };
+
+  const endGesture = () => {
+    update(neutral);
+    dispatch({ type: 'COMMIT_HISTORY' });
+  };
+
+  const setPivotMode = (mode: ViewportSettings['pivotMode']) => {
+    dispatch({ type: 'UPDATE_VIEWPORT_SETTINGS', payload: { pivotMode: mode } });
+  };
+
+  const p = pivot();
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between">
+          Group Transform
+          <Badge variant="secondary">{state.selectedObjectIds.length} selected</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Pivot */}
+        <div className="space-y-2">
+          <Label>Pivot</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {pivotModes.map(({ mode, label }) => (
+              <Button
+                key={mode}
+                variant={pivotMode === mode ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setPivotMode(mode)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground font-mono">
+            ({p.x.toFixed(2)}, {p.y.toFixed(2)}, {p.z.toFixed(2)})
+          </p>
+        </div>
+
+        {/* Move */}
+        <div className="space-y-3">
+          <Label>Move by</Label>
+          <div className="space-y-2">
+            {(['x', 'y', 'z'] as const).map((axis) => (
+              <div key={axis} className="flex items-center space-x-3">
+                <Label className="w-4 text-center">{axis.toUpperCase()}</Label>
+                <Slider
+                  value={[gesture.move[axis]]}
+                  onValueChange={(value: number[]) => handleMove(axis, value[0])}
+                  onValueCommit={endGesture}
+                  min={-10}
+                  max={10}
+                  step={0.1}
+                  className="flex-1"
+                />
+                <span className="w-12 text-right text-xs font-mono">{gesture.move[axis].toFixed(1)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Rotate */}
+        <div className="space-y-3">
+          <Label>Rotate about pivot (degrees)</Label>
+          <div className="space-y-2">
+            {(['x', 'y', 'z'] as const).map((axis) => (
+              <div key={axis} className="flex items-center space-x-3">
+                <Label className="w-4 text-center">{axis.toUpperCase()}</Label>
+                <Slider
+                  value={[gesture.rotate[axis]]}
+                  onValueChange={(value: number[]) => handleRotate(axis, value[0])}
+                  onValueCommit={endGesture}
+                  min={-180}
+                  max={180}
+                  step={1}
+                  className="flex-1"
+                />
+                <span className="w-12 text-right text-xs font-mono">{gesture.rotate[axis].toFixed(0)}°</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Scale */}
+        <div className="space-y-3">
+          <Label>Scale about pivot</Label>
+          <div className="flex items-center space-x-3">
+            <Label className="w-4 text-center">U</Label>
+            <Slider
+              value={[gesture.scale]}
+              onValueChange={(value: number[]) => handleScale(value[0])}
+              onValueCommit={endGesture}
+              min={0.1}
+              max={3}
+              step={0.05}
+              className="flex-1"
+            />
+            <span className="w-12 text-right text-xs font-mono">×{gesture.scale.toFixed(2)}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
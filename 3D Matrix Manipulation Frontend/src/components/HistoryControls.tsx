@@ -0,0 +1,105 @@
+import { useEffect } from 'react';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Undo2, Redo2, History } from 'lucide-react';
+import { useAppContext } from '../contexts/AppContext';
+import { isTextInput } from '../lib/keyboard';
+
+export function HistoryControls() {
+  const { state, dispatch } = useAppContext();
+  const { past, future } = state.history;
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo.
+  // Text fields keep their native undo.
+  useEffect(() => {
+    function onKeyDown(event: KeyboardEvent) {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        dispatch({ type: event.shiftKey ? 'REDO' : 'UNDO' });
+      } else if (key === 'y') {
+        event.preventDefault();
+        dispatch({ type: 'REDO' });
+      }
+    }
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [dispatch]);
+
+  const jumpTo = (index: number) => {
+    dispatch({ type: 'JUMP_HISTORY', payload: index });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => dispatch({ type: 'UNDO' })}
+        disabled={past.length === 0}
+        title={past.length ? `Undo ${past[past.length - 1].label} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+        className="h-8 w-8 p-0"
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => dispatch({ type: 'REDO' })}
+        disabled={future.length === 0}
+        title={future.length ? `Redo ${future[future.length - 1].label} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+        className="h-8 w-8 p-0"
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="History">
+            <History className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-2">
+          <p className="px-2 pb-2 text-sm font-medium">History</p>
+          <ScrollArea className="h-64">
+            <div className="space-y-1 pr-3">
+              {/* Index i means "i entries applied"; future entries are listed after the current one */}
+              <button
+                onClick={() => jumpTo(0)}
+                className={`w-full text-left text-sm px-2 py-1 rounded ${
+                  past.length === 0 ? 'bg-primary/10 text-primary' : 'hover:bg-muted'
+                }`}
+              >
+                Initial state
+              </button>
+              {past.map((entry, i) => (
+                <button
+                  key={`past-${i}-${entry.timestamp}`}
+                  onClick={() => jumpTo(i + 1)}
+                  className={`w-full text-left text-sm px-2 py-1 rounded ${
+                    i === past.length - 1 ? 'bg-primary/10 text-primary' : 'hover:bg-muted'
+                  }`}
+                >
+                  {entry.label}
+                </button>
+              ))}
+              {[...future].reverse().map((entry, i) => (
+                <button
+                  key={`future-${i}-${entry.timestamp}`}
+                  onClick={() => jumpTo(past.length + i + 1)}
+                  className="w-full text-left text-sm px-2 py-1 rounded text-muted-foreground/60 hover:bg-muted"
+                >
+                  {entry.label}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -8,13 +8,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import {
   RotateCcw,
   Eye,
-  Copy,
   RefreshCw,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  GraduationCap
 } from 'lucide-react';
 import { AdvancedMatrixFeatures } from './AdvancedMatrixFeatures';
+import { CompositionStack } from './CompositionStack';
+import { TransformDialogs } from './TransformDialogs';
+import { CompactMatrix } from './CompactMatrix';
+import { ExportMenu } from './ExportMenu';
+import { MatrixPasteImport } from './MatrixPasteImport';
 import { useAppContext } from '../contexts/AppContext';
+import { parentWorldMatrix } from '../lib/sceneGraph';
 import { toast } from 'sonner';
 
 export function MatrixPanel() {
@@ -50,96 +56,48 @@ export function MatrixPanel() {
 
   const formattedMatrix = formatMatrix(currentMatrix);
 
-  const copyMatrixToClipboard = () => {
-    const text = currentMatrix.elements.map(n => n.toFixed(6)).join('\n');
-    navigator.clipboard.writeText(text).then(() => {
-      toast.success('Matrix copied to clipboard');
-    }).catch(() => {
-      toast.error('Failed to copy matrix');
+  // world = parentWorld · local
+  const parentMatrix = selectedObject
+    ? parentWorldMatrix(state.objects, selectedObject)
+    : new THREE.Matrix4();
+  const worldMatrix = parentMatrix.clone().multiply(currentMatrix);
+  const parentObject = state.objects.find(obj => obj.id === selectedObject?.parentId);
+
+  // Every matrix operation goes through UPDATE_OBJECT_MATRIX, which keeps
+  // shear and projection instead of squeezing the result into TRS
+  const setObjectMatrix = (matrix: THREE.Matrix4, label: string) => {
+    if (!selectedObject) return;
+    dispatch({
+      type: 'UPDATE_OBJECT_MATRIX',
+      payload: { id: selectedObject.id, matrix },
+      history: { label }
     });
   };
 
   const applyIdentityMatrix = () => {
     if (!selectedObject) return;
-    
-    const identityMatrix = new THREE.Matrix4().identity();
-    selectedObject.mesh.matrix.copy(identityMatrix);
-    selectedObject.mesh.matrixAutoUpdate = false;
-    selectedObject.mesh.updateMatrixWorld(true);
-    
-    // Update transform state
-    dispatch({
-      type: 'UPDATE_TRANSFORM',
-      payload: {
-        position: { x: 0, y: 0, z: 0 },
-        rotation: { x: 0, y: 0, z: 0 },
-        scale: { x: 1, y: 1, z: 1 }
-      }
-    });
-    
+    setObjectMatrix(new THREE.Matrix4().identity(), 'Apply identity matrix');
     toast.success('Identity matrix applied');
   };
 
   const invertMatrix = () => {
     if (!selectedObject) return;
-
-    const inverseMatrix = new THREE.Matrix4().copy(selectedObject.mesh.matrix).invert();
-    selectedObject.mesh.matrix.copy(inverseMatrix);
-    selectedObject.mesh.matrixAutoUpdate = false;
-    selectedObject.mesh.updateMatrixWorld(true);
-    
-    // Update transform state
-    const position = new THREE.Vector3();
-    const quaternion = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
-    inverseMatrix.decompose(position, quaternion, scale);
-    const euler = new THREE.Euler().setFromQuaternion(quaternion);
-    
-    dispatch({
-      type: 'UPDATE_TRANSFORM',
-      payload: {
-        position: { x: position.x, y: position.y, z: position.z },
-        rotation: { x: euler.x, y: euler.y, z: euler.z },
-        scale: { x: scale.x, y: scale.y, z: scale.z }
-      }
-    });
-    
+    if (selectedObject.matrix.determinant() === 0) {
+      toast.error('Matrix is singular and cannot be inverted');
+      return;
+    }
+    setObjectMatrix(selectedObject.matrix.clone().invert(), 'Invert matrix');
     toast.success('Matrix inverted');
   };
 
   const applyLookAtMatrix = () => {
     if (!selectedObject) return;
     
-    const position = new THREE.Vector3(
-      selectedObject.mesh.position.x,
-      selectedObject.mesh.position.y,
-      selectedObject.mesh.position.z
-    );
-    
+    const position = selectedObject.position.clone();
     const target = new THREE.Vector3(0, 0, 0);
     const up = new THREE.Vector3(0, 1, 0);
     
-    const lookAtMatrix = new THREE.Matrix4().lookAt(position, target, up);
-    selectedObject.mesh.matrix.copy(lookAtMatrix);
-    selectedObject.mesh.matrixAutoUpdate = false;
-    selectedObject.mesh.updateMatrixWorld(true);
-    
-    // Update transform state
-    const newPosition = new THREE.Vector3();
-    const quaternion = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
-    lookAtMatrix.decompose(newPosition, quaternion, scale);
-    const euler = new THREE.Euler().setFromQuaternion(quaternion);
-    
-    dispatch({
-      type: 'UPDATE_TRANSFORM',
-      payload: {
-        position: { x: newPosition.x, y: newPosition.y, z: newPosition.z },
-        rotation: { x: euler.x, y: euler.y, z: euler.z },
-        scale: { x: scale.x, y: scale.y, z: scale.z }
-      }
-    });
-    
+    setObjectMatrix(new THREE.Matrix4().lookAt(position, target, up), 'Look at origin');
     toast.success('Look-at matrix applied');
   };
 
@@ -156,72 +114,28 @@ export function MatrixPanel() {
   const applyRotationY45 = () => {
     if (!selectedObject) return;
     const rotationMatrix = new THREE.Matrix4().makeRotationY(Math.PI / 4);
-    selectedObject.mesh.matrix.multiply(rotationMatrix);
-    selectedObject.mesh.matrixAutoUpdate = false;
-    selectedObject.mesh.updateMatrixWorld(true);
-    const position = new THREE.Vector3();
-    const quat = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
-    selectedObject.mesh.matrix.decompose(position, quat, scale);
-    const euler = new THREE.Euler().setFromQuaternion(quat);
-    dispatch({
-      type: 'UPDATE_TRANSFORM',
-      payload: {
-        position: { x: position.x, y: position.y, z: position.z },
-        rotation: { x: euler.x, y: euler.y, z: euler.z },
-        scale: { x: scale.x, y: scale.y, z: scale.z }
-      }
-    });
-    selectedObject.mesh.matrixAutoUpdate = true;
+    setObjectMatrix(selectedObject.matrix.clone().multiply(rotationMatrix), 'Rotate Y 45°');
     toast.success('45° Y rotation applied');
   };
 
   const applyScale2x = () => {
     if (!selectedObject) return;
     const scaleMatrix = new THREE.Matrix4().makeScale(2, 2, 2);
-    selectedObject.mesh.matrix.multiply(scaleMatrix);
-    selectedObject.mesh.matrixAutoUpdate = false;
-    selectedObject.mesh.updateMatrixWorld(true);
-    const position = new THREE.Vector3();
-    const quat = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
-    selectedObject.mesh.matrix.decompose(position, quat, scale);
-    const euler = new THREE.Euler().setFromQuaternion(quat);
-    dispatch({
-      type: 'UPDATE_TRANSFORM',
-      payload: {
-        position: { x: position.x, y: position.y, z: position.z },
-        rotation: { x: euler.x, y: euler.y, z: euler.z },
-        scale: { x: scale.x, y: scale.y, z: scale.z }
-      }
-    });
-    selectedObject.mesh.matrixAutoUpdate = true;
+    setObjectMatrix(selectedObject.matrix.clone().multiply(scaleMatrix), 'Scale 2×');
     toast.success('2x scale applied');
   };
 
+  // Replays a matrix factor by factor in the viewport, starting from identity
+  const explainMatrix = (matrix: THREE.Matrix4) => {
+    if (!selectedObject) return;
+    dispatch({ type: 'START_EXPLAIN', payload: { objectId: selectedObject.id, matrix: matrix.clone() } });
+  };
+
   // Handle matrix updates from child components
   const handleMatrixUpdate = (newMatrix: THREE.Matrix4) => {
     if (!selectedObject) return;
-    
-    selectedObject.mesh.matrix.copy(newMatrix);
-    selectedObject.mesh.matrixAutoUpdate = false;
-    selectedObject.mesh.updateMatrixWorld(true);
-    
-    // Update transform state
-    const position = new THREE.Vector3();
-    const quaternion = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
-    newMatrix.decompose(position, quaternion, scale);
-    const euler = new THREE.Euler().setFromQuaternion(quaternion);
-    
-    dispatch({
-      type: 'UPDATE_TRANSFORM',
-      payload: {
-        position: { x: position.x, y: position.y, z: position.z },
-        rotation: { x: euler.x, y: euler.y, z: euler.z },
-        scale: { x: scale.x, y: scale.y, z: scale.z }
-      }
-    });
+    setObjectMatrix(newMatrix, 'Matrix edit');
+    if (state.viewportSettings.explainMode) explainMatrix(newMatrix);
   };
 
   // Check if matrix is identity
@@ -268,26 +182,9 @@ export function MatrixPanel() {
       customMatrix[3], customMatrix[7], customMatrix[11], customMatrix[15]
     );
     
-    selectedObject.mesh.matrix.copy(matrix);
-    selectedObject.mesh.matrixAutoUpdate = false;
-    selectedObject.mesh.updateMatrixWorld(true);
-    
-    // Update transform state
-    const position = new THREE.Vector3();
-    const quaternion = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
-    matrix.decompose(position, quaternion, scale);
-    const euler = new THREE.Euler().setFromQuaternion(quaternion);
-    
-    dispatch({
-      type: 'UPDATE_TRANSFORM',
-      payload: {
-        position: { x: position.x, y: position.y, z: position.z },
-        rotation: { x: euler.x, y: euler.y, z: euler.z },
-        scale: { x: scale.x, y: scale.y, z: scale.z }
-      }
-    });
-    
+    setObjectMatrix(matrix, 'Apply custom matrix');
+
+    if (state.viewportSettings.explainMode) explainMatrix(matrix);
     toast.success('Custom matrix applied');
   };
 
@@ -302,22 +199,15 @@ export function MatrixPanel() {
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <span>Matrix Panel</span>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={copyMatrixToClipboard}
-            className="gap-2"
-          >
-            <Copy className="w-4 h-4" />
-            Copy Matrix
-          </Button>
+          <ExportMenu />
         </CardTitle>
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="current" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="current">Current</TabsTrigger>
             <TabsTrigger value="operations">Operations</TabsTrigger>
+            <TabsTrigger value="stack">Stack</TabsTrigger>
             <TabsTrigger value="custom">Custom</TabsTrigger>
           </TabsList>
           
@@ -369,6 +259,19 @@ export function MatrixPanel() {
                   )}
                 </div>
               </div>
+
+              {selectedObject && (
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">
+                    Scene graph {parentObject ? `(parent: ${parentObject.name})` : '(root object)'}
+                  </Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <CompactMatrix title="Local" matrix={currentMatrix} />
+                    <CompactMatrix title="Parent world" matrix={parentMatrix} />
+                    <CompactMatrix title="World = P · L" matrix={worldMatrix} />
+                  </div>
+                </div>
+              )}
               
               <div className="grid grid-cols-2 gap-2">
                 <Button
@@ -418,6 +321,16 @@ export function MatrixPanel() {
                 >
                   Scale 2x
                 </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={() => explainMatrix(currentMatrix)}
+                  disabled={!selectedObject}
+                  className="flex items-center gap-2"
+                >
+                  <GraduationCap className="w-4 h-4" />
+                  Explain
+                </Button>
               </div>
               
               {showAdvanced && selectedObject && (
@@ -506,6 +419,10 @@ export function MatrixPanel() {
                   Scale 2x
                 </Button>
               </div>
+
+              {selectedObject && (
+                <TransformDialogs selectedObject={selectedObject} onMatrixUpdate={handleMatrixUpdate} />
+              )}
               
               {showAdvanced && selectedObject && (
                 <div className="mt-4">
@@ -519,6 +436,20 @@ export function MatrixPanel() {
             </div>
           </TabsContent>
           
+          <TabsContent value="stack" className="space-y-4">
+            {selectedObject ? (
+              <CompositionStack
+                selectedObject={selectedObject}
+                currentMatrix={currentMatrix}
+                onMatrixUpdate={handleMatrixUpdate}
+              />
+            ) : (
+              <p className="text-muted-foreground text-center py-4">
+                Select an object to compose its matrix
+              </p>
+            )}
+          </TabsContent>
+
           <TabsContent value="custom" className="space-y-4">
             <div className="space-y-3">
               <div className="flex items-center justify-between">
@@ -563,6 +494,13 @@ export function MatrixPanel() {
               <div className="text-xs text-muted-foreground">
                 <p>Enter matrix values in column-major order (m00, m10, m20, m30, m01, ...)</p>
               </div>
+
+              <MatrixPasteImport
+                onLoad={(elements) => {
+                  setCustomMatrix(elements);
+                  toast.success('Pasted matrix loaded; press Apply to use it');
+                }}
+              />
             </div>
           </TabsContent>
         </Tabs>
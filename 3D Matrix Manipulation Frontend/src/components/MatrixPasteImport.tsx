@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { ClipboardPaste } from 'lucide-react';
+import { CompactMatrix } from './CompactMatrix';
+import { MatrixOrder, MatrixParseError, ParsedMatrix, parseMatrixText, toMatrix4 } from '../lib/importers';
+
+interface MatrixPasteImportProps {
+  // Column-major elements, as THREE.Matrix4.elements
+  onLoad: (elements: number[]) => void;
+}
+
+// Paste box for the Custom tab: recognises the layout as you type, asks for
+// the element order when the text leaves it open, and previews the result
+export function MatrixPasteImport({ onLoad }: MatrixPasteImportProps) {
+  const [text, setText] = useState('');
+  // Overrides the detected order; required when nothing was detected
+  const [chosenOrder, setChosenOrder] = useState<MatrixOrder | null>(null);
+
+  let parsed: ParsedMatrix | null = null;
+  let error: string | null = null;
+  if (text.trim()) {
+    try {
+      parsed = parseMatrixText(text);
+    } catch (err) {
+      if (!(err instanceof MatrixParseError)) throw err;
+      error = err.message;
+    }
+  }
+
+  const order = chosenOrder ?? parsed?.order ?? null;
+  const preview = parsed && order ? toMatrix4(parsed, order) : null;
+
+  const load = () => {
+    if (!preview) return;
+    onLoad(Array.from(preview.elements));
+    setText('');
+    setChosenOrder(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <ClipboardPaste className="w-4 h-4" />
+        Paste Matrix
+      </Label>
+      <Textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setChosenOrder(null);
+        }}
+        placeholder={'np.array([[1, 0, 0, 2], ...]), \\begin{bmatrix}…, mat4(...), CSV rows, JSON'}
+        className="font-mono text-xs min-h-24"
+        spellCheck={false}
+      />
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {parsed && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant="secondary">{parsed.format}</Badge>
+            <Badge variant="outline">{parsed.size}×{parsed.size}{parsed.size === 3 ? ' → 4×4' : ''}</Badge>
+            <span className="text-muted-foreground">
+              {parsed.order ? `${parsed.order}-major` : 'Order not evident:'}
+            </span>
+            {(['row', 'column'] as const).map(option => (
+              <Button
+                key={option}
+                variant={order === option ? 'default' : 'outline'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setChosenOrder(option)}
+              >
+                {option === 'row' ? 'Rows' : 'Columns'}
+              </Button>
+            ))}
+          </div>
+
+          {preview ? (
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <CompactMatrix title="Preview" matrix={preview} />
+              </div>
+              <Button size="sm" onClick={load}>Load</Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Choose whether the values run along rows or down columns.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
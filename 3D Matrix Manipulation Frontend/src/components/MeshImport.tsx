@@ -0,0 +1,27 @@
+import { useAppContext } from '../contexts/AppContext';
+import { isMeshFile, MeshImportError, meshObjectFromFile, triangleCount } from '../lib/meshes';
+import { toast } from 'sonner';
+
+// Adds each OBJ/STL file as a 'mesh' object, selecting the last one. Shared
+// by the file picker in ObjectHierarchy and drops onto the viewport.
+export function useMeshImport() {
+  const { state, dispatch } = useAppContext();
+
+  return async (files: File[]) => {
+    const meshFiles = files.filter(isMeshFile);
+    if (meshFiles.length < files.length) {
+      toast.error('Only .obj and .stl files can be imported here');
+    }
+
+    for (const file of meshFiles) {
+      try {
+        const obj = await meshObjectFromFile(file, state.viewportSettings.wireframe);
+        dispatch({ type: 'ADD_OBJECT', payload: obj });
+        dispatch({ type: 'SELECT_OBJECT', payload: obj.id });
+        toast.success(`Imported ${obj.name} (${triangleCount(obj.mesh.geometry).toLocaleString()} triangles)`);
+      } catch (err) {
+        toast.error(err instanceof MeshImportError ? err.message : `Failed to import ${file.name}: ${(err as Error).message}`);
+      }
+    }
+  };
+}
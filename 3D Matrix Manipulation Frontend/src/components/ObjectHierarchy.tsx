@@ -1,21 +1,28 @@
-import React from 'react';
-import * as THREE from 'three';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
-import { 
-  Plus, 
-  Trash2, 
-  Box, 
-  Circle, 
-  Cylinder, 
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import {
+  Plus,
+  Trash2,
+  Box,
+  Circle,
+  Cylinder,
   Square,
   Eye,
-  EyeOff
+  EyeOff,
+  FileBox,
+  Upload
 } from 'lucide-react';
 import { useAppContext } from '../contexts/AppContext';
 import { SceneObject } from '../types';
+import { createMesh, randomObjectColor } from '../lib/geometry';
+import { MESH_FILE_ACCEPT } from '../lib/meshes';
+import { childrenOf, isAncestor, treeOrder } from '../lib/sceneGraph';
+import { useMeshImport } from './MeshImport';
 
 const objectTypes = [
   { type: 'cube' as const, label: 'Cube', icon: Box },
@@ -24,55 +31,39 @@ const objectTypes = [
   { type: 'plane' as const, label: 'Plane', icon: Square },
 ];
 
-const colors = [
-  '#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', 
-  '#feca57', '#ff9ff3', '#54a0ff', '#5f27cd'
-];
-
-function createGeometry(type: SceneObject['type']): THREE.BufferGeometry {
-  switch (type) {
-    case 'cube':
-      return new THREE.BoxGeometry(1, 1, 1);
-    case 'sphere':
-      return new THREE.SphereGeometry(0.5, 32, 32);
-    case 'cylinder':
-      return new THREE.CylinderGeometry(0.5, 0.5, 1, 32);
-    case 'plane':
-      return new THREE.PlaneGeometry(1, 1);
-    default:
-      return new THREE.BoxGeometry(1, 1, 1);
-  }
-}
+const ROOT_DROP_ID = '__root__';
 
 export function ObjectHierarchy() {
   const { state, dispatch } = useAppContext();
+  const [keepWorldTransform, setKeepWorldTransform] = useState(true);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Where a shift-click range starts: the last object clicked without Shift
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const meshInputRef = useRef<HTMLInputElement>(null);
+  const importMeshes = useMeshImport();
 
   const addObject = (type: SceneObject['type']) => {
     const id = `${type}_${Date.now()}`;
-    const color = colors[Math.floor(Math.random() * colors.length)];
-    
-    const geometry = createGeometry(type);
-    const material = new THREE.MeshLambertMaterial({ 
-      color: color,
-      wireframe: state.viewportSettings.wireframe
-    });
-    const mesh = new THREE.Mesh(geometry, material);
-    
+    const color = randomObjectColor();
+
+    const mesh = createMesh(type, color, state.viewportSettings.wireframe);
+
     // Random initial position to avoid overlapping
     const randomOffset = () => (Math.random() - 0.5) * 4;
     mesh.position.set(randomOffset(), randomOffset(), randomOffset());
-    mesh.castShadow = true;
-    mesh.receiveShadow = true;
 
     const sceneObject: SceneObject = {
       id,
       name: `${type.charAt(0).toUpperCase() + type.slice(1)} ${state.objects.length + 1}`,
       type,
+      parentId: null,
       mesh,
       position: mesh.position.clone(),
       rotation: mesh.rotation.clone(),
       scale: mesh.scale.clone(),
       matrix: mesh.matrix.clone(),
+      rawMatrix: null,
       color,
       visible: true
     };
@@ -81,32 +72,178 @@ export function ObjectHierarchy() {
     dispatch({ type: 'SELECT_OBJECT', payload: id });
   };
 
+  // Undoable, so the mesh is kept; AppProvider disposes it once no history entry has it
   const removeObject = (id: string) => {
-    const obj = state.objects.find(o => o.id === id);
-    if (obj) {
-      obj.mesh.geometry.dispose();
-      if (Array.isArray(obj.mesh.material)) {
-        obj.mesh.material.forEach(mat => mat.dispose());
-      } else {
-        obj.mesh.material.dispose();
-      }
-    }
     dispatch({ type: 'REMOVE_OBJECT', payload: id });
   };
 
-  const selectObject = (id: string) => {
-    dispatch({ type: 'SELECT_OBJECT', payload: id });
+  // Shift-click selects the rows from the anchor to this one (adding them with
+  // Ctrl/Cmd held too); Ctrl/Cmd-click adds to or removes from the selection
+  const selectObject = (id: string, event: React.MouseEvent) => {
+    const anchor = anchorId ?? state.selectedObjectId;
+    const order = treeOrder(state.objects).map(obj => obj.id);
+    if (event.shiftKey && anchor && order.includes(anchor)) {
+      const from = order.indexOf(anchor);
+      const to = order.indexOf(id);
+      const range = from <= to ? order.slice(from, to + 1) : order.slice(to, from + 1).reverse();
+      dispatch({
+        type: 'SELECT_OBJECTS',
+        payload: { ids: range, mode: event.ctrlKey || event.metaKey ? 'add' : 'replace' }
+      });
+      return;
+    }
+
+    setAnchorId(id);
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      dispatch({ type: 'SELECT_OBJECTS', payload: { ids: [id], mode: 'toggle' } });
+    } else {
+      dispatch({ type: 'SELECT_OBJECT', payload: id });
+    }
   };
 
   const toggleObjectVisibility = (id: string) => {
     dispatch({ type: 'TOGGLE_OBJECT_VISIBILITY', payload: id });
   };
 
+  const findParentId = (id: string) => state.objects.find(o => o.id === id)?.parentId ?? null;
+
+  // An object cannot be dropped onto its current parent, itself or its own descendants
+  const canDropOn = (targetId: string) =>
+    dragId !== null && findParentId(dragId) !== targetId && !isAncestor(state.objects, dragId, targetId);
+
+  const setParent = (id: string, parentId: string | null) => {
+    dispatch({
+      type: 'SET_PARENT',
+      payload: { id, parentId, keepWorldTransform }
+    });
+  };
+
+  const endDrag = () => {
+    setDragId(null);
+    setDropTargetId(null);
+  };
+
   const getObjectIcon = (type: SceneObject['type']) => {
-    const IconComponent = objectTypes.find(t => t.type === type)?.icon || Box;
+    // Imported meshes come from the file picker, so they have no add button
+    const IconComponent = type === 'mesh' ? FileBox : objectTypes.find(t => t.type === type)?.icon || Box;
     return <IconComponent className="w-4 h-4" />;
   };
 
+  const renderObject = (obj: SceneObject, depth: number): React.ReactNode => {
+    const children = childrenOf(state.objects, obj.id);
+
+    return (
+      <div key={obj.id} className="space-y-2" style={{ marginLeft: depth > 0 ? 16 : 0 }}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData('text/plain', obj.id);
+            e.dataTransfer.effectAllowed = 'move';
+            setDragId(obj.id);
+          }}
+          onDragEnd={endDrag}
+          onDragOver={(e) => {
+            if (!canDropOn(obj.id)) return;
+            e.preventDefault();
+            setDropTargetId(obj.id);
+          }}
+          onDragLeave={() => setDropTargetId(prev => (prev === obj.id ? null : prev))}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragId && canDropOn(obj.id)) setParent(dragId, obj.id);
+            endDrag();
+          }}
+          className={`p-3 rounded-md border transition-colors cursor-pointer ${
+            dropTargetId === obj.id
+              ? 'border-primary border-dashed bg-primary/20'
+              : state.selectedObjectId === obj.id
+              ? 'border-primary bg-primary/10'
+              : state.selectedObjectIds.includes(obj.id)
+              ? 'border-primary/50 bg-primary/5'
+              : 'border-border hover:bg-muted'
+          }`}
+          onClick={(e) => selectObject(obj.id, e)}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div
+                className="w-4 h-4 rounded-full border-2 border-white shadow-sm"
+                style={{ backgroundColor: obj.color }}
+              />
+              {getObjectIcon(obj.type)}
+              <div>
+                <p className="font-medium">{obj.name}</p>
+                <div className="flex gap-1 mt-1">
+                  <Badge variant="secondary" className="text-xs">
+                    {obj.type}
+                  </Badge>
+                  {children.length > 0 && (
+                    <Badge variant="outline" className="text-xs">
+                      {children.length} {children.length === 1 ? 'child' : 'children'}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleObjectVisibility(obj.id);
+                }}
+                className="h-8 w-8 p-0"
+              >
+                {obj.visible ? (
+                  <Eye className="w-4 h-4" />
+                ) : (
+                  <EyeOff className="w-4 h-4" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeObject(obj.id);
+                }}
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {state.selectedObjectId === obj.id && (
+            <div className="mt-2 pt-2 border-t border-border/50">
+              <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+                <div>
+                  <span className="font-medium">{obj.parentId ? 'Local pos:' : 'Pos:'}</span>
+                  <br />
+                  {obj.position.x.toFixed(1)}, {obj.position.y.toFixed(1)}, {obj.position.z.toFixed(1)}
+                </div>
+                <div>
+                  <span className="font-medium">Rot:</span>
+                  <br />
+                  {((obj.rotation.x * 180) / Math.PI).toFixed(0)}°, {((obj.rotation.y * 180) / Math.PI).toFixed(0)}°, {((obj.rotation.z * 180) / Math.PI).toFixed(0)}°
+                </div>
+                <div>
+                  <span className="font-medium">Scale:</span>
+                  <br />
+                  {obj.scale.x.toFixed(1)}, {obj.scale.y.toFixed(1)}, {obj.scale.z.toFixed(1)}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {children.map(child => renderObject(child, depth + 1))}
+      </div>
+    );
+  };
+
   return (
     <Card>
       <CardHeader className="pb-3">
@@ -127,9 +264,41 @@ export function ObjectHierarchy() {
               {label}
             </Button>
           ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => meshInputRef.current?.click()}
+            className="col-span-2 flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import OBJ / STL
+          </Button>
+          <input
+            ref={meshInputRef}
+            type="file"
+            accept={MESH_FILE_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              importMeshes(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {/* Parenting */}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="keep-world-toggle" className="text-sm">
+            Keep world transform when reparenting
+          </Label>
+          <Switch
+            id="keep-world-toggle"
+            checked={keepWorldTransform}
+            onCheckedChange={setKeepWorldTransform}
+          />
         </div>
 
-        {/* Object List */}
+        {/* Object Tree — drag an object onto another to make it a child */}
         <ScrollArea className="h-64">
           <div className="space-y-2">
             {state.objects.length === 0 ? (
@@ -139,86 +308,29 @@ export function ObjectHierarchy() {
                 <p className="text-sm">Add objects using the buttons above</p>
               </div>
             ) : (
-              state.objects.map((obj) => (
-                <div
-                  key={obj.id}
-                  className={`p-3 rounded-md border transition-colors cursor-pointer ${
-                    state.selectedObjectId === obj.id
-                      ? 'border-primary bg-primary/10'
-                      : 'border-border hover:bg-muted'
-                  }`}
-                  onClick={() => selectObject(obj.id)}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div 
-                        className="w-4 h-4 rounded-full border-2 border-white shadow-sm"
-                        style={{ backgroundColor: obj.color }}
-                      />
-                      {getObjectIcon(obj.type)}
-                      <div>
-                        <p className="font-medium">{obj.name}</p>
-                        <div className="flex gap-1 mt-1">
-                          <Badge variant="secondary" className="text-xs">
-                            {obj.type}
-                          </Badge>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="flex items-center gap-1">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          toggleObjectVisibility(obj.id);
-                        }}
-                        className="h-8 w-8 p-0"
-                      >
-                        {obj.visible ? (
-                          <Eye className="w-4 h-4" />
-                        ) : (
-                          <EyeOff className="w-4 h-4" />
-                        )}
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          removeObject(obj.id);
-                        }}
-                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
+              <>
+                {childrenOf(state.objects, null).map(obj => renderObject(obj, 0))}
+
+                {dragId && findParentId(dragId) && (
+                  <div
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropTargetId(ROOT_DROP_ID);
+                    }}
+                    onDragLeave={() => setDropTargetId(null)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      setParent(dragId, null);
+                      endDrag();
+                    }}
+                    className={`p-3 rounded-md border border-dashed text-center text-sm text-muted-foreground ${
+                      dropTargetId === ROOT_DROP_ID ? 'border-primary bg-primary/10' : 'border-border'
+                    }`}
+                  >
+                    Drop here to move to the scene root
                   </div>
-                  
-                  {state.selectedObjectId === obj.id && (
-                    <div className="mt-2 pt-2 border-t border-border/50">
-                      <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
-                        <div>
-                          <span className="font-medium">Pos:</span>
-                          <br />
-                          {obj.position.x.toFixed(1)}, {obj.position.y.toFixed(1)}, {obj.position.z.toFixed(1)}
-                        </div>
-                        <div>
-                          <span className="font-medium">Rot:</span>
-                          <br />
-                          {((obj.rotation.x * 180) / Math.PI).toFixed(0)}°, {((obj.rotation.y * 180) / Math.PI).toFixed(0)}°, {((obj.rotation.z * 180) / Math.PI).toFixed(0)}°
-                        </div>
-                        <div>
-                          <span className="font-medium">Scale:</span>
-                          <br />
-                          {obj.scale.x.toFixed(1)}, {obj.scale.y.toFixed(1)}, {obj.scale.z.toFixed(1)}
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ))
+                )}
+              </>
             )}
           </div>
         </ScrollArea>
@@ -228,10 +340,11 @@ export function ObjectHierarchy() {
           <div className="pt-2 border-t border-border/50">
             <p className="text-sm text-muted-foreground">
               {state.objects.length} object{state.objects.length !== 1 ? 's' : ''} in scene
+              {state.selectedObjectIds.length > 1 && ` · ${state.selectedObjectIds.length} selected`}
             </p>
           </div>
         )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { ArrowDown, MousePointerClick, TriangleAlert, X } from 'lucide-react';
+import { CompactMatrix } from './CompactMatrix';
+import { useAppContext } from '../contexts/AppContext';
+import { isClipped, pipelineStages, PipelineStage } from '../lib/pipeline';
+
+const formatPoint = (stage: PipelineStage) => {
+  const { x, y, z, w } = stage.point;
+  // w is 1 outside clip space, so only clip coordinates show it
+  const values = stage.key === 'clip' ? [x, y, z, w] : [x, y, z];
+  return `(${values.map(v => v.toFixed(stage.key === 'window' ? 1 : 3)).join(', ')})`;
+};
+
+// Changes below display precision do not re-render the panel
+const stagesKey = (stages: PipelineStage[]) =>
+  stages.map(stage => stage.point.toArray().map(v => v.toFixed(4)).join(',')).join('|');
+
+// Follows the picked vertex from object space to a window pixel. The camera
+// and mesh move without dispatches, so the stages are recomputed every frame.
+export function PipelinePanel() {
+  const { state, dispatch } = useAppContext();
+  const [stages, setStages] = useState<PipelineStage[] | null>(null);
+
+  const { camera, pipelineVertex, viewportSize, viewportSettings } = state;
+  const picked = pipelineVertex ? state.objects.find(obj => obj.id === pipelineVertex.objectId) : undefined;
+  const mesh = picked?.mesh;
+
+  useEffect(() => {
+    if (!camera || !mesh || !pipelineVertex) {
+      setStages(null);
+      return;
+    }
+    let frame = 0;
+    let shownKey = '';
+    const read = () => {
+      frame = requestAnimationFrame(read);
+      const next = pipelineStages(mesh, pipelineVertex.index, camera, viewportSize);
+      const key = next ? stagesKey(next) : '';
+      if (key === shownKey) return;
+      shownKey = key;
+      setStages(next);
+    };
+    read();
+    return () => cancelAnimationFrame(frame);
+  }, [camera, mesh, pipelineVertex, viewportSize]);
+
+  const updateSettings = (payload: Partial<typeof viewportSettings>) => {
+    dispatch({ type: 'UPDATE_VIEWPORT_SETTINGS', payload });
+  };
+
+  const clip = stages?.find(stage => stage.key === 'clip');
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between">
+          MVP Pipeline
+          {picked && <Badge variant="outline">{picked.name} · vertex {pipelineVertex!.index}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <MousePointerClick className="w-4 h-4" />
+              <Label htmlFor="pipeline-mode">Pick vertices</Label>
+            </div>
+            <Switch
+              id="pipeline-mode"
+              checked={viewportSettings.pipelineMode}
+              onCheckedChange={(checked: boolean) => updateSettings({ pipelineMode: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="pipeline-view">Show frustum and NDC cube</Label>
+            <Switch
+              id="pipeline-view"
+              checked={viewportSettings.showPipelineView}
+              onCheckedChange={(checked: boolean) => updateSettings({ showPipelineView: checked })}
+            />
+          </div>
+        </div>
+
+        {!stages ? (
+          <p className="text-sm text-muted-foreground text-center py-2">
+            {viewportSettings.pipelineMode
+              ? 'Click a vertex of the selected object in the viewport'
+              : 'Turn on vertex picking, then click a vertex of the selected object'}
+          </p>
+        ) : (
+          <div className="space-y-2 pt-2 border-t border-border/50">
+            {stages.map(stage => (
+              <div key={stage.key} className="space-y-2">
+                {stage.matrixLabel && (
+                  <div className="flex items-start gap-2 pl-1 text-xs text-muted-foreground">
+                    <ArrowDown className="w-3 h-3 mt-0.5 shrink-0" />
+                    <div className="flex-1 space-y-1">
+                      {stage.matrix ? (
+                        <CompactMatrix title={stage.matrixLabel} matrix={stage.matrix} />
+                      ) : (
+                        <p>{stage.matrixLabel}: (x, y, z) / w</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+                <div className="flex items-center justify-between rounded-md border border-border px-2 py-1">
+                  <span className="text-sm font-medium">{stage.label}</span>
+                  <span className="font-mono text-xs">{formatPoint(stage)}</span>
+                </div>
+              </div>
+            ))}
+
+            {clip && isClipped(clip.point) && (
+              <div className="flex items-start gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-xs">
+                <TriangleAlert className="w-4 h-4 shrink-0 text-amber-500" />
+                <p>
+                  Outside the view volume (-w ≤ x, y, z ≤ w fails), so this vertex is clipped
+                  {clip.point.w <= 0 && '; it is behind the camera, where the divide by w flips it'}
+                </p>
+              </div>
+            )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full gap-2"
+              onClick={() => dispatch({ type: 'SET_PIPELINE_VERTEX', payload: null })}
+            >
+              <X className="w-4 h-4" />
+              Clear vertex
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
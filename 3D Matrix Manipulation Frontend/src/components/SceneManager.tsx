@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { ScrollArea } from './ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { FolderOpen, Save, SaveAll, Trash2, Loader2 } from 'lucide-react';
+import { useAppContext } from '../contexts/AppContext';
+import { api, Scene } from '../lib/api';
+import { disposeMesh } from '../lib/geometry';
+import { fromSavedObject, toSavedObject } from '../lib/scenes';
+import { toast } from 'sonner';
+
+export function SceneManager() {
+  const { state, dispatch } = useAppContext();
+  const [nameDialogOpen, setNameDialogOpen] = useState(false);
+  const [sceneName, setSceneName] = useState('');
+  const [browserOpen, setBrowserOpen] = useState(false);
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<Scene | null>(null);
+
+  const rememberScene = (scene: Scene) => {
+    dispatch({
+      type: 'SET_CURRENT_SCENE',
+      payload: { id: scene.id, name: scene.name, updatedAt: scene.updatedAt }
+    });
+  };
+
+  const saveAsNew = async (name: string) => {
+    setSaving(true);
+    try {
+      const scene = await api.scenes.save({
+        name,
+        objects: state.objects.map(toSavedObject),
+        tracks: state.timeline.tracks
+      });
+      rememberScene(scene);
+      setNameDialogOpen(false);
+      toast.success(`Saved "${scene.name}"`);
+    } catch (err) {
+      toast.error(`Failed to save scene: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!state.currentScene) {
+      openNameDialog();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const scene = await api.scenes.update(state.currentScene.id, {
+        name: state.currentScene.name,
+        objects: state.objects.map(toSavedObject),
+        tracks: state.timeline.tracks
+      });
+      rememberScene(scene);
+      toast.success(`Saved "${scene.name}"`);
+    } catch (err) {
+      toast.error(`Failed to save scene: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openNameDialog = () => {
+    setSceneName(state.currentScene ? `${state.currentScene.name} copy` : 'Untitled scene');
+    setNameDialogOpen(true);
+  };
+
+  const refreshScenes = async () => {
+    setLoading(true);
+    try {
+      setScenes(await api.scenes.list());
+    } catch (err) {
+      toast.error(`Failed to load scenes: ${(err as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openBrowser = () => {
+    setBrowserOpen(true);
+    refreshScenes();
+  };
+
+  const openScene = async (id: string) => {
+    try {
+      const scene = await api.scenes.get(id);
+      state.objects.forEach(obj => disposeMesh(obj.mesh));
+      dispatch({
+        type: 'LOAD_SCENE',
+        payload: {
+          objects: scene.objects.map(saved => fromSavedObject(saved, state.viewportSettings.wireframe)),
+          tracks: scene.tracks ?? [],
+          scene: { id: scene.id, name: scene.name, updatedAt: scene.updatedAt }
+        }
+      });
+      setBrowserOpen(false);
+      toast.success(`Opened "${scene.name}"`);
+    } catch (err) {
+      toast.error(`Failed to open scene: ${(err as Error).message}`);
+    }
+  };
+
+  const deleteScene = async (scene: Scene) => {
+    try {
+      await api.scenes.delete(scene.id);
+      setScenes(prev => prev.filter(s => s.id !== scene.id));
+      if (state.currentScene?.id === scene.id) {
+        dispatch({ type: 'SET_CURRENT_SCENE', payload: null });
+      }
+      toast.success(`Deleted "${scene.name}"`);
+    } catch (err) {
+      toast.error(`Failed to delete scene: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground max-w-48 truncate">
+          {state.currentScene?.name ?? 'Unsaved scene'}
+        </span>
+        <Button variant="outline" size="sm" onClick={handleSave} disabled={saving} className="gap-2">
+          <Save className="w-4 h-4" />
+          Save
+        </Button>
+        <Button variant="outline" size="sm" onClick={openNameDialog} disabled={saving} className="gap-2">
+          <SaveAll className="w-4 h-4" />
+          Save As
+        </Button>
+        <Button variant="outline" size="sm" onClick={openBrowser} className="gap-2">
+          <FolderOpen className="w-4 h-4" />
+          Open
+        </Button>
+      </div>
+
+      {/* Save As */}
+      <Dialog open={nameDialogOpen} onOpenChange={setNameDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Scene As</DialogTitle>
+            <DialogDescription>
+              Stores all {state.objects.length} object{state.objects.length !== 1 ? 's' : ''} as a new scene.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (sceneName.trim()) saveAsNew(sceneName.trim());
+            }}
+          >
+            <Label htmlFor="scene-name">Name</Label>
+            <Input
+              id="scene-name"
+              value={sceneName}
+              onChange={(e) => setSceneName(e.target.value)}
+              autoFocus
+            />
+            <DialogFooter className="pt-2">
+              <Button type="submit" disabled={saving || !sceneName.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Scene browser */}
+      <Dialog open={browserOpen} onOpenChange={setBrowserOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Open Scene</DialogTitle>
+            <DialogDescription>Opening a scene replaces the objects in the viewport.</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="h-72">
+            {loading ? (
+              <div className="flex justify-center py-8 text-muted-foreground">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            ) : scenes.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No saved scenes</p>
+            ) : (
+              <div className="space-y-2 pr-3">
+                {scenes.map((scene) => (
+                  <div
+                    key={scene.id}
+                    className={`p-3 rounded-md border flex items-center justify-between cursor-pointer transition-colors ${
+                      state.currentScene?.id === scene.id
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:bg-muted'
+                    }`}
+                    onClick={() => openScene(scene.id)}
+                  >
+                    <div>
+                      <p className="font-medium">{scene.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {scene.objects.length} object{scene.objects.length !== 1 ? 's' : ''} · updated{' '}
+                        {new Date(scene.updatedAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e: React.MouseEvent) => {
+                        e.stopPropagation();
+                        setPendingDelete(scene);
+                      }}
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open: boolean) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The scene is removed from the server. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) deleteScene(pendingDelete);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
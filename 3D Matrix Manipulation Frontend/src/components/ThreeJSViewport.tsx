@@ -1,20 +1,111 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
 import { useAppContext } from '../contexts/AppContext';
+import { isTextInput } from '../lib/keyboard';
+import { selectionPivot } from '../lib/sceneGraph';
+import { applyTracks } from '../lib/animation';
+import {
+  applyProjection,
+  createCamera,
+  PANE_VIEWS,
+  switchProjection,
+  togglePaneProjection,
+  ViewportCamera,
+  visiblePanes
+} from '../lib/camera';
+import { nearestFaceVertex, vertexPosition } from '../lib/pipeline';
+import { createPipelineInsets, InsetRect, PipelineInsets, pipelineInsetRects } from '../lib/pipelineView';
+import { explainMatrixAt, explainStages, SECONDS_PER_STAGE, signedVolume } from '../lib/explain';
+import { pureRotation, realEigenpairs } from '../lib/eigen';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { Play, Pause, RotateCcw, Upload, X } from 'lucide-react';
+import { useMeshImport } from './MeshImport';
+
+const transformKeys = {
+  translate: 'position',
+  rotate: 'rotation',
+  scale: 'scale'
+} as const;
+
+const basisColors = [0xff4d4d, 0x4dd96b, 0x4d7dff];
+const positiveVolumeColor = 0x4ecdc4;
+const negativeVolumeColor = 0xff9f43;
+const eigenColors = [0xffd93d, 0xc77dff, 0x4cc9f0];
+const rotationAxisColor = 0xff6bd6;
+const pipelineVertexColor = 0xff9f43;
+// Half-length of the invariant lines and radius of the rotation angle arc
+const AXIS_EXTENT = 4;
+const ARC_RADIUS = 0.8;
+const ARC_SEGMENTS = 32;
+
+const cssColor = (hex: number) => `#${hex.toString(16).padStart(6, '0')}`;
+
+interface SelectionBox {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+// A view onto the shared scene. Its controls and gizmo listen on the pane's
+// element, which lies over the pane's part of the canvas, so their pointer
+// coordinates are relative to the pane.
+interface PaneRuntime {
+  element: HTMLDivElement;
+  camera: ViewportCamera;
+  controls: OrbitControls;
+  gizmo: TransformControls;
+  // Size the camera's projection was last fitted to, in CSS pixels
+  width: number;
+  height: number;
+}
+
+// Where a pane's element lies on the canvas
+function paneArea(element: HTMLElement, mount: HTMLElement): InsetRect {
+  const pane = element.getBoundingClientRect();
+  const canvas = mount.getBoundingClientRect();
+  return { left: pane.left - canvas.left, top: pane.top - canvas.top, width: pane.width, height: pane.height };
+}
+
+const gridClasses = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  4: 'grid-cols-2 grid-rows-2'
+} as const;
 
 export function ThreeJSViewport() {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene>();
   const rendererRef = useRef<THREE.WebGLRenderer>();
-  const cameraRef = useRef<THREE.PerspectiveCamera | THREE.OrthographicCamera>();
-  const controlsRef = useRef<OrbitControls>();
+  // Top, front, side and perspective, in the order of viewportSettings.panes
+  const panesRef = useRef<PaneRuntime[]>([]);
+  const paneElementsRef = useRef<(HTMLDivElement | null)[]>([]);
   const gridRef = useRef<THREE.GridHelper>();
   const axesRef = useRef<THREE.AxesHelper>();
   const frameRef = useRef<number>();
+  // With several objects selected the gizmo drives this proxy at the pivot
+  // instead of a mesh, and its motion is applied to the whole selection
+  const pivotProxyRef = useRef(new THREE.Object3D());
+  const outlinesRef = useRef<THREE.BoxHelper[]>([]);
+  const peerOutlinesRef = useRef<THREE.BoxHelper[]>([]);
+  // One label per eigen arrow plus one for the rotation angle, positioned by the animation loop
+  const eigenLabelsRef = useRef<(HTMLDivElement | null)[]>([]);
 
   const { state, dispatch } = useAppContext();
 
+  // Event handlers are bound once per renderer, so they read the latest state through a ref
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const [boxSelectArmed, setBoxSelectArmed] = useState(false);
+  const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
+  // An OBJ/STL file is being dragged over the viewport
+  const [fileDragOver, setFileDragOver] = useState(false);
+  const importMeshes = useMeshImport();
+
   useEffect(() => {
     if (!mountRef.current) return;
 
@@ -23,35 +114,88 @@ export function ThreeJSViewport() {
     scene.background = new THREE.Color(state.theme === 'dark' ? 0x1a1a1a : 0xf5f5f5);
     sceneRef.current = scene;
 
-    // Camera setup
-    const aspect = mountRef.current.clientWidth / mountRef.current.clientHeight;
-    let camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
-    
-    if (state.viewportSettings.projection === 'perspective') {
-      camera = new THREE.PerspectiveCamera(75, aspect, 0.1, 1000);
-    } else {
-      const frustumSize = 10;
-      camera = new THREE.OrthographicCamera(
-        frustumSize * aspect / -2, frustumSize * aspect / 2,
-        frustumSize / 2, frustumSize / -2,
-        0.1, 1000
-      );
-    }
-    camera.position.set(5, 5, 5);
-    cameraRef.current = camera;
-
-    // Renderer setup
+    // Renderer setup: one canvas behind all the panes, each drawn into its area
     const renderer = new THREE.WebGLRenderer({ antialias: true });
     renderer.setSize(mountRef.current.clientWidth, mountRef.current.clientHeight);
     renderer.shadowMap.enabled = true;
     renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     rendererRef.current = renderer;
 
-    // Controls
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;
-    controls.dampingFactor = 0.05;
-    controlsRef.current = controls;
+    const pivotProxy = pivotProxyRef.current;
+    scene.add(pivotProxy);
+    // Proxy matrix at the previous objectChange; each event applies only the increment
+    let previousProxyMatrix = new THREE.Matrix4();
+
+    // A gizmo drag ends with a click on the pane; don't treat it as a selection
+    let gizmoWasDragged = false;
+
+    // Each pane gets its own camera, orbit controls and transform gizmo. The
+    // gizmos all follow the selection; only the pane's own one is drawn in it.
+    const panes = state.viewportSettings.panes.map((pane, index): PaneRuntime => {
+      const element = paneElementsRef.current[index]!;
+      const preset = PANE_VIEWS[pane.view];
+      // Hidden panes have no size yet; the animation loop fits them once shown
+      const camera = createCamera(pane.projection, state.viewportSettings, 1);
+      camera.up.set(...preset.up);
+      camera.position.set(...preset.position);
+      camera.lookAt(0, 0, 0);
+
+      // Set up after camera.up, which OrbitControls reads once
+      const controls = new OrbitControls(camera, element);
+      controls.enableDamping = true;
+      controls.dampingFactor = 0.05;
+      if (!preset.orbit) {
+        controls.enableRotate = false;
+        controls.mouseButtons.LEFT = THREE.MOUSE.PAN;
+      }
+
+      // Transform gizmo — edits the attached mesh directly and reports every
+      // change through UPDATE_TRANSFORM so sliders and matrices stay in sync
+      const gizmo = new TransformControls(camera, element);
+      gizmo.setMode(state.viewportSettings.transformMode);
+      gizmo.setSpace(state.viewportSettings.transformSpace);
+      scene.add(gizmo.getHelper());
+
+      gizmo.addEventListener('dragging-changed', (event) => {
+        controls.enabled = !event.value;
+        if (event.value) {
+          gizmoWasDragged = true;
+          pivotProxy.updateMatrix();
+          previousProxyMatrix = pivotProxy.matrix.clone();
+        } else {
+          // Leave the proxy at the new pivot, unrotated and unscaled, for the next drag
+          pivotProxy.quaternion.identity();
+          pivotProxy.scale.set(1, 1, 1);
+          dispatch({ type: 'COMMIT_HISTORY' });
+        }
+      });
+
+      gizmo.addEventListener('objectChange', () => {
+        const mesh = gizmo.object;
+        if (!mesh) return;
+        if (mesh === pivotProxy) {
+          pivotProxy.updateMatrix();
+          const delta = pivotProxy.matrix.clone().multiply(previousProxyMatrix.clone().invert());
+          previousProxyMatrix = pivotProxy.matrix.clone();
+          dispatch({
+            type: 'TRANSFORM_SELECTION',
+            payload: { matrix: delta },
+            history: { group: 'gizmo' }
+          });
+          return;
+        }
+        const key = transformKeys[gizmo.getMode()];
+        const value = mesh[key];
+        dispatch({
+          type: 'UPDATE_TRANSFORM',
+          payload: { [key]: { x: value.x, y: value.y, z: value.z } },
+          history: { group: 'gizmo' }
+        });
+      });
+
+      return { element, camera, controls, gizmo, width: 0, height: 0 };
+    });
+    panesRef.current = panes;
 
     // Grid
     const grid = new THREE.GridHelper(20, 20, 0x888888, 0x444444);
@@ -78,96 +222,753 @@ export function ThreeJSViewport() {
     directionalLight.shadow.mapSize.height = 2048;
     scene.add(directionalLight);
 
+    // Explain overlay: the basis vectors i/j/k and the image of the unit cube
+    // under the matrix being explained, drawn in the object's parent space
+    const explainGroup = new THREE.Group();
+    explainGroup.matrixAutoUpdate = false;
+    explainGroup.visible = false;
+    const basisArrows = basisColors.map(color =>
+      new THREE.ArrowHelper(new THREE.Vector3(1, 0, 0), new THREE.Vector3(), 1, color)
+    );
+    const unitCube = new THREE.BoxGeometry(1, 1, 1).translate(0.5, 0.5, 0.5);
+    const parallelepiped = new THREE.Mesh(unitCube, new THREE.MeshBasicMaterial({
+      color: positiveVolumeColor,
+      transparent: true,
+      opacity: 0.2,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    }));
+    const parallelepipedEdges = new THREE.LineSegments(
+      new THREE.EdgesGeometry(unitCube),
+      new THREE.LineBasicMaterial({ color: positiveVolumeColor })
+    );
+    parallelepiped.matrixAutoUpdate = false;
+    parallelepipedEdges.matrixAutoUpdate = false;
+    explainGroup.add(...basisArrows, parallelepiped, parallelepipedEdges);
+    scene.add(explainGroup);
+
+    // Eigen overlay: the real eigenvectors of the selected object's linear part
+    // as arrows scaled by their eigenvalues, each on its dashed invariant line,
+    // plus the axis and angle arc of a pure rotation. Drawn in parent space
+    // through the object's origin.
+    const eigenGroup = new THREE.Group();
+    eigenGroup.matrixAutoUpdate = false;
+    eigenGroup.visible = false;
+    const eigenArrows = eigenColors.map(color =>
+      new THREE.ArrowHelper(new THREE.Vector3(1, 0, 0), new THREE.Vector3(), 1, color)
+    );
+    const axisLine = (material: THREE.LineBasicMaterial) => {
+      const line = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints([
+          new THREE.Vector3(-AXIS_EXTENT, 0, 0),
+          new THREE.Vector3(AXIS_EXTENT, 0, 0)
+        ]),
+        material
+      );
+      line.computeLineDistances();
+      return line;
+    };
+    const eigenLines = eigenColors.map(color =>
+      axisLine(new THREE.LineDashedMaterial({ color, dashSize: 0.15, gapSize: 0.1, transparent: true, opacity: 0.6 }))
+    );
+    const rotationAxis = axisLine(new THREE.LineBasicMaterial({ color: rotationAxisColor }));
+    const rotationArc = new THREE.Line(
+      new THREE.BufferGeometry().setAttribute(
+        'position',
+        new THREE.BufferAttribute(new Float32Array((ARC_SEGMENTS + 1) * 3), 3)
+      ),
+      new THREE.LineBasicMaterial({ color: rotationAxisColor })
+    );
+    rotationArc.frustumCulled = false;
+    eigenGroup.add(...eigenArrows, ...eigenLines, rotationAxis, rotationArc);
+    scene.add(eigenGroup);
+
+    // MVP pipeline: a marker on the picked vertex, drawn over everything, and
+    // the insets showing the active pane's frustum and the NDC cube
+    const vertexMarker = new THREE.Mesh(
+      new THREE.SphereGeometry(0.06, 12, 8),
+      new THREE.MeshBasicMaterial({ color: pipelineVertexColor, depthTest: false })
+    );
+    vertexMarker.renderOrder = 1;
+    vertexMarker.visible = false;
+    scene.add(vertexMarker);
+    let pipelineInsets: PipelineInsets | null = null;
+    let insetsCamera: ViewportCamera | null = null;
+
     // Mount renderer
     mountRef.current.appendChild(renderer.domElement);
 
-    // Animation loop
-    function animate() {
-      frameRef.current = requestAnimationFrame(animate);
-      controls.update();
-      renderer.render(scene, camera);
+    // Timeline playback poses the animated meshes every frame but only reports
+    // the playhead about ten times a second, so the panels don't re-render per frame
+    const clock = new THREE.Clock();
+    let playhead: number | null = null;
+    let seenTime = 0;
+    let reportedTime = 0;
+    let sinceReport = 0;
+
+    function advancePlayback(dt: number) {
+      const { objects, timeline } = stateRef.current;
+      if (!timeline.playing) {
+        playhead = null;
+        return;
+      }
+
+      // A time we neither saw nor reported means the user scrubbed mid-playback
+      if (playhead === null || (timeline.currentTime !== seenTime && timeline.currentTime !== reportedTime)) {
+        playhead = timeline.currentTime;
+      }
+      seenTime = timeline.currentTime;
+
+      playhead += dt;
+      if (playhead >= timeline.duration) {
+        if (!timeline.loop) {
+          playhead = null;
+          dispatch({ type: 'UPDATE_TIMELINE', payload: { playing: false, currentTime: timeline.duration } });
+          return;
+        }
+        playhead %= timeline.duration;
+      }
+      applyTracks(objects, timeline.tracks, playhead);
+
+      sinceReport += dt;
+      if (sinceReport >= 0.1) {
+        sinceReport = 0;
+        reportedTime = playhead;
+        dispatch({ type: 'UPDATE_TIMELINE', payload: { currentTime: playhead } });
+      }
     }
-    animate();
 
-    // Handle resize
-    function handleResize() {
-      if (!mountRef.current || !camera || !renderer) return;
-      
-      const width = mountRef.current.clientWidth;
-      const height = mountRef.current.clientHeight;
-      
-      if (camera instanceof THREE.PerspectiveCamera) {
-        camera.aspect = width / height;
+    // Explain playback follows the same pattern: the loop owns the progress
+    // while playing and reports it back a few times a second
+    let explainProgress: number | null = null;
+    let explainedMesh: THREE.Mesh | null = null;
+    let seenProgress = 0;
+    let reportedProgress = 0;
+    let sinceProgressReport = 0;
+
+    // Hands the mesh back to its position/rotation/scale
+    function releaseExplainedMesh() {
+      if (!explainedMesh) return;
+      const mesh = explainedMesh;
+      const raw = stateRef.current.objects.find(obj => obj.mesh === mesh)?.rawMatrix;
+      if (raw) {
+        mesh.matrix.copy(raw);
       } else {
-        const frustumSize = 10;
-        camera.left = frustumSize * (width / height) / -2;
-        camera.right = frustumSize * (width / height) / 2;
-        camera.top = frustumSize / 2;
-        camera.bottom = frustumSize / -2;
+        mesh.matrixAutoUpdate = true;
+        mesh.updateMatrix();
+      }
+      explainedMesh = null;
+    }
+
+    function advanceExplain(dt: number) {
+      const { objects, explain } = stateRef.current;
+      const obj = explain && objects.find(o => o.id === explain.objectId);
+      if (!explain || !obj) {
+        releaseExplainedMesh();
+        explainGroup.visible = false;
+        explainProgress = null;
+        return;
+      }
+      if (explainedMesh !== obj.mesh) releaseExplainedMesh();
+
+      const target = new THREE.Matrix4().fromArray(explain.target);
+      if (explainProgress === null || (explain.progress !== seenProgress && explain.progress !== reportedProgress)) {
+        explainProgress = explain.progress;
+      }
+      seenProgress = explain.progress;
+
+      if (explain.playing) {
+        explainProgress = Math.min(1, explainProgress + dt / (explainStages(target).length * SECONDS_PER_STAGE));
+        sinceProgressReport += dt;
+        if (explainProgress >= 1) {
+          dispatch({ type: 'UPDATE_EXPLAIN', payload: { progress: 1, playing: false } });
+        } else if (sinceProgressReport >= 0.1) {
+          sinceProgressReport = 0;
+          reportedProgress = explainProgress;
+          dispatch({ type: 'UPDATE_EXPLAIN', payload: { progress: explainProgress } });
+        }
+      }
+
+      const { matrix } = explainMatrixAt(target, explainProgress);
+      obj.mesh.matrixAutoUpdate = false;
+      obj.mesh.matrix.copy(matrix);
+      obj.mesh.matrixWorldNeedsUpdate = true;
+      explainedMesh = obj.mesh;
+
+      const parent = obj.mesh.parent;
+      explainGroup.matrix.copy(parent && parent !== scene ? parent.matrixWorld : new THREE.Matrix4());
+      explainGroup.matrixWorldNeedsUpdate = true;
+      explainGroup.visible = true;
+
+      const origin = new THREE.Vector3().setFromMatrixPosition(matrix);
+      const basis = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+      matrix.extractBasis(basis[0], basis[1], basis[2]);
+      basisArrows.forEach((arrow, i) => {
+        const length = basis[i].length();
+        arrow.visible = length > 1e-6;
+        if (!arrow.visible) return;
+        arrow.position.copy(origin);
+        arrow.setDirection(basis[i].divideScalar(length));
+        arrow.setLength(length, Math.min(0.25, length * 0.3), Math.min(0.12, length * 0.15));
+      });
+
+      // Orange once the orientation flips (negative determinant)
+      const color = signedVolume(matrix) < 0 ? negativeVolumeColor : positiveVolumeColor;
+      [parallelepiped, parallelepipedEdges].forEach(part => {
+        part.matrix.copy(matrix);
+        part.matrixWorldNeedsUpdate = true;
+        (part.material as THREE.MeshBasicMaterial | THREE.LineBasicMaterial).color.setHex(color);
+      });
+    }
+
+    // The active pane and its area, updated at the start of every frame; the
+    // eigen labels and pipeline insets belong to it
+    let activePane = panes[state.viewportSettings.activePane];
+    let activeArea: InsetRect = { left: 0, top: 0, width: 0, height: 0 };
+    let reportedSize = { width: 0, height: 0 };
+
+    // Shows label i at a parent-space point, or hides it when text is null
+    function placeEigenLabel(index: number, point: THREE.Vector3 | null, text: string | null, color = 0) {
+      const label = eigenLabelsRef.current[index];
+      if (!label) return;
+
+      const ndc = point && point.clone().applyMatrix4(eigenGroup.matrix).project(activePane.camera);
+      if (!ndc || !text || ndc.z < -1 || ndc.z > 1) {
+        label.style.display = 'none';
+        return;
+      }
+      const x = activeArea.left + (ndc.x + 1) / 2 * activeArea.width;
+      const y = activeArea.top + (1 - ndc.y) / 2 * activeArea.height;
+      label.style.display = 'block';
+      label.style.transform = `translate(${x + 6}px, ${y - 8}px)`;
+      label.style.color = cssColor(color);
+      label.textContent = text;
+    }
+
+    // Recomputed every frame so the overlay follows gizmo drags and playback
+    function advanceEigenOverlay() {
+      const { objects, selectedObjectId, viewportSettings } = stateRef.current;
+      const obj = viewportSettings.showEigenvectors
+        ? objects.find(o => o.id === selectedObjectId && o.visible)
+        : undefined;
+      if (!obj) {
+        eigenGroup.visible = false;
+        eigenColors.forEach((_, i) => placeEigenLabel(i, null, null));
+        placeEigenLabel(eigenColors.length, null, null);
+        return;
+      }
+
+      const mesh = obj.mesh;
+      if (mesh.matrixAutoUpdate) mesh.updateMatrix();
+      const parent = mesh.parent;
+      eigenGroup.matrix.copy(parent && parent !== scene ? parent.matrixWorld : new THREE.Matrix4());
+      eigenGroup.matrixWorldNeedsUpdate = true;
+      eigenGroup.visible = true;
+
+      const origin = new THREE.Vector3().setFromMatrixPosition(mesh.matrix);
+      const linear = new THREE.Matrix3().setFromMatrix4(mesh.matrix);
+      const pairs = realEigenpairs(linear);
+
+      eigenColors.forEach((color, i) => {
+        const pair = pairs[i];
+        const arrow = eigenArrows[i];
+        const line = eigenLines[i];
+        line.visible = !!pair;
+        arrow.visible = !!pair && Math.abs(pair.value) > 1e-3;
+        if (!pair) {
+          placeEigenLabel(i, null, null);
+          return;
+        }
+
+        line.position.copy(origin);
+        line.quaternion.setFromUnitVectors(new THREE.Vector3(1, 0, 0), pair.vector);
+
+        // A negative eigenvalue flips the vector, so the arrow points the other way
+        const length = Math.abs(pair.value);
+        const direction = pair.vector.clone().multiplyScalar(Math.sign(pair.value) || 1);
+        if (arrow.visible) {
+          arrow.position.copy(origin);
+          arrow.setDirection(direction);
+          arrow.setLength(length, Math.min(0.25, length * 0.3), Math.min(0.12, length * 0.15));
+        }
+        const tip = origin.clone().addScaledVector(direction, Math.max(length, 0.3));
+        placeEigenLabel(i, tip, `λ${i + 1} = ${pair.value.toFixed(2)}`, color);
+      });
+
+      const rotation = pureRotation(linear);
+      rotationAxis.visible = rotationArc.visible = !!rotation;
+      if (!rotation) {
+        placeEigenLabel(eigenColors.length, null, null);
+        return;
       }
-      
-      camera.updateProjectionMatrix();
-      renderer.setSize(width, height);
+
+      rotationAxis.position.copy(origin);
+      rotationAxis.quaternion.setFromUnitVectors(new THREE.Vector3(1, 0, 0), rotation.axis);
+
+      // Sweep from a reference direction perpendicular to the axis through the angle
+      const u = new THREE.Vector3().crossVectors(rotation.axis, Math.abs(rotation.axis.x) < 0.9
+        ? new THREE.Vector3(1, 0, 0)
+        : new THREE.Vector3(0, 1, 0)).normalize();
+      const w = new THREE.Vector3().crossVectors(rotation.axis, u);
+      const positions = rotationArc.geometry.getAttribute('position') as THREE.BufferAttribute;
+      const point = new THREE.Vector3();
+      for (let k = 0; k <= ARC_SEGMENTS; k++) {
+        const t = rotation.angle * k / ARC_SEGMENTS;
+        point.copy(origin)
+          .addScaledVector(u, ARC_RADIUS * Math.cos(t))
+          .addScaledVector(w, ARC_RADIUS * Math.sin(t));
+        positions.setXYZ(k, point.x, point.y, point.z);
+      }
+      positions.needsUpdate = true;
+
+      const middle = origin.clone()
+        .addScaledVector(u, ARC_RADIUS * Math.cos(rotation.angle / 2))
+        .addScaledVector(w, ARC_RADIUS * Math.sin(rotation.angle / 2));
+      placeEigenLabel(
+        eigenColors.length,
+        middle,
+        `θ = ${THREE.MathUtils.radToDeg(rotation.angle).toFixed(1)}°`,
+        rotationAxisColor
+      );
     }
 
-    window.addEventListener('resize', handleResize);
+    // The picked vertex's object, or else the selected one, is the mesh the
+    // pipeline views follow
+    function pipelineMesh() {
+      const { objects, pipelineVertex, selectedObjectId } = stateRef.current;
+      const picked = pipelineVertex && objects.find(o => o.id === pipelineVertex.objectId && o.visible);
+      const obj = picked || objects.find(o => o.id === selectedObjectId && o.visible);
+      return { mesh: obj ? obj.mesh : null, index: picked ? pipelineVertex!.index : null };
+    }
 
-    // Object click handling
+    function advancePipelineMarker() {
+      const { mesh, index } = pipelineMesh();
+      const position = mesh && index !== null ? vertexPosition(mesh, index) : null;
+      vertexMarker.visible = !!position;
+      if (!mesh || !position) return;
+      mesh.updateWorldMatrix(true, false);
+      vertexMarker.position.copy(position.applyMatrix4(mesh.matrixWorld));
+    }
+
+    // Follows the viewport and layout sizes: the canvas fills the viewport,
+    // each shown pane's projection fits its area, and the active pane's size
+    // is reported for the pipeline's window coordinates
+    function fitSizes(mount: HTMLDivElement, shown: number[]) {
+      const size = renderer.getSize(new THREE.Vector2());
+      if (size.x !== mount.clientWidth || size.y !== mount.clientHeight) {
+        renderer.setSize(mount.clientWidth, mount.clientHeight);
+      }
+      shown.forEach(i => {
+        const pane = panes[i];
+        const area = paneArea(pane.element, mount);
+        if (area.width < 1 || area.height < 1) return;
+        if (area.width === pane.width && area.height === pane.height) return;
+        pane.width = area.width;
+        pane.height = area.height;
+        applyProjection(pane.camera, stateRef.current.viewportSettings, area.width / area.height);
+      });
+      activeArea = paneArea(activePane.element, mount);
+      if (activeArea.width !== reportedSize.width || activeArea.height !== reportedSize.height) {
+        reportedSize = { width: activeArea.width, height: activeArea.height };
+        dispatch({ type: 'SET_VIEWPORT_SIZE', payload: reportedSize });
+      }
+    }
+
+    // Draws the scene once per shown pane, into that pane's area
+    function renderPanes(mount: HTMLDivElement, shown: number[]) {
+      // The gaps between panes show the background
+      renderer.setScissorTest(false);
+      renderer.setClearColor(scene.background as THREE.Color);
+      renderer.clear();
+      renderer.setScissorTest(true);
+      shown.forEach(i => {
+        const pane = panes[i];
+        const area = paneArea(pane.element, mount);
+        if (area.width < 1 || area.height < 1) return;
+        const bottom = mount.clientHeight - area.top - area.height;
+        renderer.setViewport(area.left, bottom, area.width, area.height);
+        renderer.setScissor(area.left, bottom, area.width, area.height);
+        panes.forEach(other => {
+          other.gizmo.getHelper().visible = other === pane && !!other.gizmo.object;
+        });
+        renderer.render(scene, pane.camera);
+      });
+      renderer.setScissorTest(false);
+      renderer.setViewport(0, 0, mount.clientWidth, mount.clientHeight);
+    }
+
+    // Animation loop
+    function animate() {
+      frameRef.current = requestAnimationFrame(animate);
+      const mount = mountRef.current;
+      if (!mount) return;
+      const { viewportSettings } = stateRef.current;
+      const shown = visiblePanes(viewportSettings);
+      activePane = panes[viewportSettings.activePane];
+      fitSizes(mount, shown);
+
+      const dt = clock.getDelta();
+      advancePlayback(dt);
+      advanceExplain(dt);
+      advanceEigenOverlay();
+      advancePipelineMarker();
+      shown.forEach(i => panes[i].controls.update());
+      outlinesRef.current.forEach(outline => outline.update());
+      peerOutlinesRef.current.forEach(outline => outline.update());
+      renderPanes(mount, shown);
+
+      if (viewportSettings.showPipelineView) {
+        // The frustum belongs to the camera the insets were made for
+        if (!pipelineInsets || insetsCamera !== activePane.camera) {
+          pipelineInsets?.dispose();
+          pipelineInsets = createPipelineInsets(activePane.camera);
+          insetsCamera = activePane.camera;
+        }
+        const { mesh, index } = pipelineMesh();
+        pipelineInsets.render({
+          renderer,
+          scene,
+          area: activeArea,
+          target: activePane.controls.target,
+          mesh,
+          vertexIndex: index,
+          background: scene.background as THREE.Color
+        });
+      }
+    }
+    animate();
+
+    // Object click handling, in whichever pane was clicked
     const raycaster = new THREE.Raycaster();
     const mouse = new THREE.Vector2();
 
-    function onMouseClick(event: MouseEvent) {
-      if (!mountRef.current || !camera || !scene) return;
+    function onPaneClick(pane: PaneRuntime, event: MouseEvent) {
+      if (gizmoWasDragged) {
+        gizmoWasDragged = false;
+        return;
+      }
 
-      const rect = mountRef.current.getBoundingClientRect();
+      const rect = pane.element.getBoundingClientRect();
       mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
       mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
-      raycaster.setFromCamera(mouse, camera);
+      raycaster.setFromCamera(mouse, pane.camera);
       const intersects = raycaster.intersectObjects(scene.children, true);
 
-      if (intersects.length > 0) {
-        const object = intersects[0].object;
-        const sceneObject = state.objects.find(obj => obj.mesh === object);
-        if (sceneObject) {
+      // Skip hits on helpers such as the gizmo's invisible pick handles
+      const hit = intersects.find(i => i.object.userData.isSceneObject);
+      if (hit) {
+        const sceneObject = stateRef.current.objects.find(obj => obj.mesh === hit.object);
+        if (!sceneObject) return;
+        // In pipeline mode a click on the selected object picks a vertex instead
+        const { viewportSettings, selectedObjectId } = stateRef.current;
+        if (viewportSettings.pipelineMode && sceneObject.id === selectedObjectId) {
+          const index = nearestFaceVertex(hit);
+          if (index !== null) {
+            dispatch({ type: 'SET_PIPELINE_VERTEX', payload: { objectId: sceneObject.id, index } });
+          }
+          return;
+        }
+        // Shift/Ctrl/Cmd-click adds to or removes from the selection
+        if (event.shiftKey || event.ctrlKey || event.metaKey) {
+          dispatch({ type: 'SELECT_OBJECTS', payload: { ids: [sceneObject.id], mode: 'toggle' } });
+        } else {
           dispatch({ type: 'SELECT_OBJECT', payload: sceneObject.id });
         }
       }
     }
 
-    renderer.domElement.addEventListener('click', onMouseClick);
+    const clickHandlers = panes.map(pane => {
+      const onClick = (event: MouseEvent) => onPaneClick(pane, event);
+      pane.element.addEventListener('click', onClick);
+      return onClick;
+    });
 
     return () => {
       if (frameRef.current) {
         cancelAnimationFrame(frameRef.current);
       }
-      window.removeEventListener('resize', handleResize);
-      renderer.domElement.removeEventListener('click', onMouseClick);
       if (mountRef.current && renderer.domElement) {
         mountRef.current.removeChild(renderer.domElement);
       }
       renderer.dispose();
-      controls.dispose();
+      panes.forEach((pane, i) => {
+        pane.element.removeEventListener('click', clickHandlers[i]);
+        pane.controls.dispose();
+        pane.gizmo.detach();
+        pane.gizmo.dispose();
+      });
+      panesRef.current = [];
+      scene.remove(pivotProxy);
+      releaseExplainedMesh();
+      scene.remove(explainGroup);
+      unitCube.dispose();
+      parallelepipedEdges.geometry.dispose();
+      (parallelepiped.material as THREE.Material).dispose();
+      (parallelepipedEdges.material as THREE.Material).dispose();
+      basisArrows.forEach(arrow => arrow.dispose());
+      scene.remove(eigenGroup);
+      scene.remove(vertexMarker);
+      vertexMarker.geometry.dispose();
+      (vertexMarker.material as THREE.Material).dispose();
+      pipelineInsets?.dispose();
+      eigenArrows.forEach(arrow => arrow.dispose());
+      [...eigenLines, rotationAxis, rotationArc].forEach(line => {
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
+      });
     };
-  }, [state.viewportSettings.projection, state.theme]);
+  }, [state.theme]);
+
+  // A pane's projection toggle swaps its camera in place, framing the same view
+  useEffect(() => {
+    panesRef.current.forEach((pane, i) => {
+      const perspective = state.viewportSettings.panes[i].projection === 'perspective';
+      if (perspective === pane.camera instanceof THREE.PerspectiveCamera) return;
+      const aspect = pane.width > 0 && pane.height > 0 ? pane.width / pane.height : 1;
+      const camera = switchProjection(pane.camera, state.viewportSettings, aspect, pane.controls.target);
+      pane.camera = camera;
+      pane.controls.object = camera;
+      pane.gizmo.camera = camera;
+    });
+  }, [state.viewportSettings.panes, state.theme]);
+
+  // The camera and pipeline panels follow the active pane's camera
+  useEffect(() => {
+    const pane = panesRef.current[state.viewportSettings.activePane];
+    if (pane) dispatch({ type: 'SET_CAMERA', payload: pane.camera });
+  }, [state.viewportSettings.activePane, state.viewportSettings.panes, state.theme]);
+
+  // FOV, frustum size and clip planes are edited on the live cameras
+  useEffect(() => {
+    panesRef.current.forEach(pane => {
+      const aspect = pane.width > 0 && pane.height > 0 ? pane.width / pane.height : 1;
+      applyProjection(pane.camera, state.viewportSettings, aspect);
+    });
+  }, [
+    state.viewportSettings.fov,
+    state.viewportSettings.frustumSize,
+    state.viewportSettings.near,
+    state.viewportSettings.far
+  ]);
 
   // Update scene objects
   useEffect(() => {
     if (!sceneRef.current) return;
 
-    // Clear existing objects
-    const objectsToRemove = sceneRef.current.children.filter(child => 
-      child.userData.isSceneObject
-    );
-    objectsToRemove.forEach(obj => sceneRef.current!.remove(obj));
+    // Clear existing objects, wherever they sit in the hierarchy
+    const objectsToRemove: THREE.Object3D[] = [];
+    sceneRef.current.traverse(child => {
+      if (child.userData.isSceneObject) objectsToRemove.push(child);
+    });
+    objectsToRemove.forEach(obj => obj.removeFromParent());
 
-    // Add current objects
+    // Add current objects, nesting each mesh under its parent's mesh so
+    // three.js composes matrixWorld = parent.matrixWorld · matrix
+    const byId = new Map(state.objects.map(obj => [obj.id, obj]));
     state.objects.forEach(obj => {
       obj.mesh.userData.isSceneObject = true;
-      sceneRef.current!.add(obj.mesh);
+      const parent = obj.parentId ? byId.get(obj.parentId) : undefined;
+      (parent ? parent.mesh : sceneRef.current!).add(obj.mesh);
     });
   }, [state.objects]);
 
+  // Keep the gizmos on the selected object, or on the pivot proxy for a
+  // multi-selection or a raw matrix, which a gizmo can only pre-multiply
+  useEffect(() => {
+    const gizmos = panesRef.current.map(pane => pane.gizmo);
+    if (gizmos.length === 0) return;
+
+    const selectedObject = state.objects.find(obj => obj.id === state.selectedObjectId);
+    if (state.selectedObjectIds.length > 1 || (selectedObject?.visible && selectedObject.rawMatrix)) {
+      // Repositioning mid-drag would fight the gizmo
+      if (gizmos.some(gizmo => gizmo.dragging)) return;
+      const proxy = pivotProxyRef.current;
+      proxy.position.copy(selectionPivot(
+        state.objects,
+        state.selectedObjectIds,
+        state.selectedObjectId,
+        state.selectedObjectIds.length > 1 ? state.viewportSettings.pivotMode : 'active'
+      ));
+      proxy.updateMatrixWorld();
+      gizmos.forEach(gizmo => gizmo.attach(proxy));
+      return;
+    }
+
+    gizmos.forEach(gizmo => {
+      if (selectedObject && selectedObject.visible) {
+        gizmo.attach(selectedObject.mesh);
+      } else {
+        gizmo.detach();
+      }
+    });
+  }, [
+    state.selectedObjectId,
+    state.selectedObjectIds,
+    state.objects,
+    state.transform,
+    state.viewportSettings.pivotMode,
+    state.theme
+  ]);
+
+  // Bounding-box outlines mark every selected object; the animation loop keeps them fitted
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const outlineColor = state.theme === 'dark' ? 0xffffff : 0x222222;
+    const outlines = state.objects
+      .filter(obj => state.selectedObjectIds.includes(obj.id) && obj.visible)
+      .map(obj => {
+        const outline = new THREE.BoxHelper(obj.mesh, outlineColor);
+        scene.add(outline);
+        return outline;
+      });
+    outlinesRef.current = outlines;
+
+    return () => {
+      outlines.forEach(outline => {
+        scene.remove(outline);
+        outline.geometry.dispose();
+        (outline.material as THREE.Material).dispose();
+      });
+      outlinesRef.current = [];
+    };
+  }, [state.selectedObjectIds, state.objects, state.theme]);
+
+  // Objects selected by others in a live session, outlined in their colors
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const outlines = state.collaborators.flatMap(peer =>
+      state.objects
+        .filter(obj => peer.selection.includes(obj.id) && obj.visible)
+        .map(obj => {
+          const outline = new THREE.BoxHelper(obj.mesh, peer.color);
+          scene.add(outline);
+          return outline;
+        })
+    );
+    peerOutlinesRef.current = outlines;
+
+    return () => {
+      outlines.forEach(outline => {
+        scene.remove(outline);
+        outline.geometry.dispose();
+        (outline.material as THREE.Material).dispose();
+      });
+      peerOutlinesRef.current = [];
+    };
+  }, [state.collaborators, state.objects, state.theme]);
+
+  useEffect(() => {
+    panesRef.current.forEach(({ gizmo }) => {
+      gizmo.setMode(state.viewportSettings.transformMode);
+      gizmo.setSpace(state.viewportSettings.transformSpace);
+    });
+  }, [state.viewportSettings.transformMode, state.viewportSettings.transformSpace]);
+
+  // W / E / R switch gizmo mode, Q toggles local/world space, B arms box selection
+  useEffect(() => {
+    function onKeyDown(event: KeyboardEvent) {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTextInput(event.target)) return;
+
+      if (event.key === 'Escape') {
+        setBoxSelectArmed(false);
+        setSelectionBox(null);
+        return;
+      }
+      if (event.key.toLowerCase() === 'b') {
+        setBoxSelectArmed(armed => !armed);
+        return;
+      }
+
+      const modes = { w: 'translate', e: 'rotate', r: 'scale' } as const;
+      const key = event.key.toLowerCase();
+      if (key in modes) {
+        dispatch({
+          type: 'UPDATE_VIEWPORT_SETTINGS',
+          payload: { transformMode: modes[key as keyof typeof modes] }
+        });
+      } else if (key === 'q') {
+        dispatch({
+          type: 'UPDATE_VIEWPORT_SETTINGS',
+          payload: {
+            transformSpace: state.viewportSettings.transformSpace === 'local' ? 'world' : 'local'
+          }
+        });
+      }
+    }
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [dispatch, state.viewportSettings.transformSpace]);
+
+  // Orbiting would steal the drag while a box selection is armed
+  useEffect(() => {
+    panesRef.current.forEach(({ controls }) => {
+      controls.enabled = !boxSelectArmed;
+    });
+  }, [boxSelectArmed, state.theme]);
+
+  const localPoint = (event: React.PointerEvent) => {
+    const rect = mountRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const onBoxPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = localPoint(event);
+    setSelectionBox({ startX: x, startY: y, x, y });
+  };
+
+  const onBoxPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!selectionBox) return;
+    const { x, y } = localPoint(event);
+    setSelectionBox({ ...selectionBox, x, y });
+  };
+
+  // Selects every visible object whose world-space origin projects inside the
+  // box, as seen in the pane the drag started in
+  const onBoxPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const mount = mountRef.current;
+    if (!selectionBox || !mount) return;
+
+    const left = Math.min(selectionBox.startX, selectionBox.x);
+    const right = Math.max(selectionBox.startX, selectionBox.x);
+    const top = Math.min(selectionBox.startY, selectionBox.y);
+    const bottom = Math.max(selectionBox.startY, selectionBox.y);
+
+    const pane = visiblePanes(state.viewportSettings)
+      .map(i => ({ camera: panesRef.current[i]?.camera, area: paneArea(paneElementsRef.current[i]!, mount) }))
+      .find(({ area }) =>
+        selectionBox.startX >= area.left && selectionBox.startX <= area.left + area.width &&
+        selectionBox.startY >= area.top && selectionBox.startY <= area.top + area.height
+      );
+    if (!pane?.camera) {
+      setSelectionBox(null);
+      return;
+    }
+    const { camera, area } = pane;
+
+    camera.updateMatrixWorld();
+    const ids = state.objects
+      .filter(obj => {
+        if (!obj.visible) return false;
+        const ndc = new THREE.Vector3().setFromMatrixPosition(obj.mesh.matrixWorld).project(camera);
+        if (ndc.z < -1 || ndc.z > 1) return false;
+        const x = area.left + (ndc.x + 1) / 2 * area.width;
+        const y = area.top + (1 - ndc.y) / 2 * area.height;
+        return x >= left && x <= right && y >= top && y <= bottom;
+      })
+      .map(obj => obj.id);
+
+    dispatch({ type: 'SELECT_OBJECTS', payload: { ids, mode: event.shiftKey ? 'add' : 'replace' } });
+    setSelectionBox(null);
+    setBoxSelectArmed(false);
+  };
+
   // Update viewport settings
   useEffect(() => {
     if (!sceneRef.current || !gridRef.current || !axesRef.current) return;
@@ -199,8 +1000,10 @@ export function ThreeJSViewport() {
     if (!state.selectedObjectId) return;
 
     const selectedObject = state.objects.find(obj => obj.id === state.selectedObjectId);
-    if (!selectedObject) return;
+    // A raw matrix is not driven by the sliders; UPDATE_TRANSFORM clears it first
+    if (!selectedObject || selectedObject.rawMatrix) return;
 
+    selectedObject.mesh.matrixAutoUpdate = true;
     selectedObject.mesh.position.set(
       state.transform.position.x,
       state.transform.position.y,
@@ -228,11 +1031,217 @@ export function ThreeJSViewport() {
     selectedObject.matrix.copy(selectedObject.mesh.matrix);
   }, [state.transform, state.selectedObjectId, state.objects]);
 
+  const explain = state.explain;
+  const explainTarget = explain ? new THREE.Matrix4().fromArray(explain.target) : null;
+  const explainFrame = explain && explainTarget ? explainMatrixAt(explainTarget, explain.progress) : null;
+
+  const updateExplain = (patch: { progress?: number; playing?: boolean }) => {
+    dispatch({ type: 'UPDATE_EXPLAIN', payload: patch });
+  };
+
+  const settings = state.viewportSettings;
+  const shownPanes = visiblePanes(settings);
+  const insetRects = pipelineInsetRects(state.viewportSize.width, state.viewportSize.height);
+
+  const activatePane = (index: number) => {
+    if (index !== settings.activePane) {
+      dispatch({ type: 'UPDATE_VIEWPORT_SETTINGS', payload: { activePane: index } });
+    }
+  };
+
+  // Only file drags are accepted; hierarchy rows dragged here are ignored
+  const isFileDrag = (event: React.DragEvent) => event.dataTransfer.types.includes('Files');
+
   return (
-    <div 
-      ref={mountRef} 
-      className="w-full h-full bg-muted rounded-lg"
-      style={{ minHeight: '400px' }}
-    />
+    <div
+      className="relative w-full h-full"
+      onDragOver={(e) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setFileDragOver(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFileDragOver(false);
+      }}
+      onDrop={(e) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        setFileDragOver(false);
+        importMeshes(Array.from(e.dataTransfer.files));
+      }}
+    >
+      <div 
+        ref={mountRef} 
+        className="w-full h-full bg-muted rounded-lg"
+        style={{ minHeight: '400px' }}
+      />
+
+      {/* Panes over the canvas; every pane is mounted so its controls survive layout changes */}
+      <div className={`absolute inset-0 grid gap-1 ${gridClasses[settings.layout]}`}>
+        {settings.panes.map((pane, i) => (
+          <div
+            key={pane.view}
+            className={`relative min-h-0 rounded-lg border ${
+              settings.layout > 1 && i === settings.activePane ? 'border-primary' : 'border-border'
+            } ${shownPanes.includes(i) ? '' : 'hidden'}`}
+          >
+            <div
+              ref={el => { paneElementsRef.current[i] = el; }}
+              className="absolute inset-0"
+              onPointerDown={() => activatePane(i)}
+            />
+            <div className="absolute top-1 left-1 flex items-center gap-1 rounded bg-background/80 px-1 text-xs">
+              <span className="font-medium">{PANE_VIEWS[pane.view].label}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => dispatch({
+                  type: 'UPDATE_VIEWPORT_SETTINGS',
+                  payload: { panes: togglePaneProjection(settings.panes, i) }
+                })}
+                title={`Switch to ${pane.projection === 'perspective' ? 'orthographic' : 'perspective'}`}
+                className="h-5 px-1 text-xs"
+              >
+                {pane.projection === 'perspective' ? 'Persp' : 'Ortho'}
+              </Button>
+            </div>
+
+            {i === settings.activePane && settings.showPipelineView && (
+              (['world', 'ndc'] as const).map(key => {
+                const rect = insetRects[key];
+                if (rect.width < 40) return null;
+                return (
+                  <div
+                    key={key}
+                    className="pointer-events-none absolute rounded border border-border"
+                    style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                  >
+                    <span className="absolute top-1 left-1 rounded bg-background/80 px-1 text-[10px]">
+                      {key === 'world' ? 'World · camera frustum' : 'NDC cube [-1, 1]³'}
+                    </span>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        ))}
+      </div>
+
+      {state.viewportSettings.pipelineMode && !boxSelectArmed && (
+        <div className="pointer-events-none absolute top-2 left-1/2 -translate-x-1/2 rounded bg-background/80 px-2 py-1 text-xs">
+          {state.selectedObjectId
+            ? 'Click a vertex of the selected object to follow it through the pipeline'
+            : 'Select an object, then click one of its vertices'}
+        </div>
+      )}
+
+      {boxSelectArmed && (
+        <div
+          className="absolute inset-0 cursor-crosshair"
+          onPointerDown={onBoxPointerDown}
+          onPointerMove={onBoxPointerMove}
+          onPointerUp={onBoxPointerUp}
+        >
+          {selectionBox ? (
+            <div
+              className="absolute border border-primary bg-primary/10"
+              style={{
+                left: Math.min(selectionBox.startX, selectionBox.x),
+                top: Math.min(selectionBox.startY, selectionBox.y),
+                width: Math.abs(selectionBox.x - selectionBox.startX),
+                height: Math.abs(selectionBox.y - selectionBox.startY)
+              }}
+            />
+          ) : (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 rounded bg-background/80 px-2 py-1 text-xs">
+              Drag to box-select (Shift adds, Esc cancels)
+            </div>
+          )}
+        </div>
+      )}
+
+      {fileDragOver && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-primary/10">
+          <div className="flex items-center gap-2 rounded bg-background/90 px-3 py-2 text-sm">
+            <Upload className="w-4 h-4" />
+            Drop OBJ or STL files to import
+          </div>
+        </div>
+      )}
+
+      {[...eigenColors, rotationAxisColor].map((_, i) => (
+        <div
+          key={i}
+          ref={el => { eigenLabelsRef.current[i] = el; }}
+          className="pointer-events-none absolute left-0 top-0 rounded bg-background/80 px-1 font-mono text-[10px]"
+          style={{ display: 'none' }}
+        />
+      ))}
+
+      {explain && explainTarget && explainFrame && (
+        <div className="absolute bottom-3 left-3 w-72 space-y-2 rounded-lg border border-border bg-background/90 p-3 text-xs">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">
+              Explain: {explainStages(explainTarget).map(stage => stage.label).join(' → ')}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => dispatch({ type: 'STOP_EXPLAIN' })}
+              className="h-6 w-6 p-0"
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateExplain(
+                explain.progress >= 1 ? { progress: 0, playing: true } : { playing: !explain.playing }
+              )}
+              className="h-7 w-7 p-0"
+            >
+              {explain.playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateExplain({ progress: 0, playing: true })}
+              className="h-7 w-7 p-0"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+            </Button>
+            <Slider
+              value={[explain.progress]}
+              onValueChange={(value: number[]) => updateExplain({ progress: value[0], playing: false })}
+              min={0}
+              max={1}
+              step={0.01}
+              className="flex-1"
+            />
+          </div>
+
+          <p className="text-muted-foreground">Now: {explainFrame.stage.label}</p>
+          <div className="flex gap-3">
+            {['i', 'j', 'k'].map((axis, index) => (
+              <span key={axis} className="flex items-center gap-1">
+                <span
+                  className="inline-block h-2 w-2 rounded-full"
+                  style={{ backgroundColor: cssColor(basisColors[index]) }}
+                />
+                {axis}
+              </span>
+            ))}
+          </div>
+          <p className="font-mono">
+            signed volume = det = {signedVolume(explainFrame.matrix).toFixed(3)}
+            {' '}(target {explainTarget.determinant().toFixed(3)})
+          </p>
+        </div>
+      )}
+    </div>
   );
 }
\ No newline at end of file
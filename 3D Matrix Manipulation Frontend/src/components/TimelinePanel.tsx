@@ -0,0 +1,214 @@
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+import { ScrollArea } from './ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Play, Pause, SkipBack, Repeat, KeyRound, Trash2 } from 'lucide-react';
+import { useAppContext } from '../contexts/AppContext';
+import { interpolationsFor, KEY_EPSILON } from '../lib/animation';
+import { AnimationTrack, Interpolation, TrackProperty } from '../types';
+
+const keyableProperties: { property: TrackProperty; label: string }[] = [
+  { property: 'position', label: 'Position' },
+  { property: 'rotation', label: 'Rotation' },
+  { property: 'scale', label: 'Scale' },
+  { property: 'matrix', label: 'Matrix' },
+];
+
+export function TimelinePanel() {
+  const { state, dispatch } = useAppContext();
+  const { tracks, duration, currentTime, playing, loop } = state.timeline;
+  const selectedObject = state.objects.find(obj => obj.id === state.selectedObjectId);
+
+  const updateTimeline = (patch: Partial<typeof state.timeline>) => {
+    dispatch({ type: 'UPDATE_TIMELINE', payload: patch });
+  };
+
+  const togglePlayback = () => {
+    // Starting from the end of a non-looping timeline replays it from the start
+    const restart = !playing && !loop && currentTime >= duration;
+    updateTimeline(restart ? { playing: true, currentTime: 0 } : { playing: !playing });
+  };
+
+  const addKey = (property: TrackProperty) => {
+    if (!selectedObject) return;
+    dispatch({ type: 'SET_KEYFRAME', payload: { objectId: selectedObject.id, property } });
+  };
+
+  // Removes the selected object's keys under the playhead, one undo step each
+  const removeKeysAtPlayhead = () => {
+    if (!selectedObject) return;
+    tracks
+      .filter(track => track.objectId === selectedObject.id)
+      .forEach(track => {
+        dispatch({
+          type: 'REMOVE_KEYFRAME',
+          payload: { objectId: track.objectId, property: track.property, time: currentTime }
+        });
+      });
+  };
+
+  const hasKeyAtPlayhead = !!selectedObject && tracks.some(track =>
+    track.objectId === selectedObject.id &&
+    track.keyframes.some(key => Math.abs(key.time - currentTime) <= KEY_EPSILON)
+  );
+
+  const objectName = (id: string) => state.objects.find(obj => obj.id === id)?.name ?? id;
+
+  const renderTrack = (track: AnimationTrack) => (
+    <div
+      key={`${track.objectId}-${track.property}`}
+      className={`flex items-center gap-3 rounded-md px-2 py-1 ${
+        track.objectId === state.selectedObjectId ? 'bg-primary/10' : ''
+      }`}
+    >
+      <div className="w-40 shrink-0 truncate text-sm">
+        {objectName(track.objectId)} <span className="text-muted-foreground">· {track.property}</span>
+      </div>
+
+      <Select
+        value={track.interpolation}
+        onValueChange={(interpolation: Interpolation) => dispatch({
+          type: 'SET_TRACK_INTERPOLATION',
+          payload: { objectId: track.objectId, property: track.property, interpolation }
+        })}
+      >
+        <SelectTrigger size="sm" className="w-24 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {interpolationsFor[track.property].map(interpolation => (
+            <SelectItem key={interpolation} value={interpolation}>{interpolation}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Lane: click a key to jump to it, double-click to delete it */}
+      <div className="relative h-6 flex-1 rounded bg-muted">
+        <div
+          className="absolute inset-y-0 w-px bg-primary"
+          style={{ left: `${(currentTime / duration) * 100}%` }}
+        />
+        {track.keyframes.map(key => (
+          <button
+            key={key.time}
+            title={`${key.time.toFixed(2)}s`}
+            onClick={() => updateTimeline({ currentTime: key.time })}
+            onDoubleClick={() => dispatch({
+              type: 'REMOVE_KEYFRAME',
+              payload: { objectId: track.objectId, property: track.property, time: key.time }
+            })}
+            className="absolute top-1/2 h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border border-background bg-primary"
+            style={{ left: `${Math.min(key.time / duration, 1) * 100}%` }}
+          />
+        ))}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => dispatch({
+          type: 'REMOVE_TRACK',
+          payload: { objectId: track.objectId, property: track.property }
+        })}
+        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col gap-3 p-3">
+      {/* Transport */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={togglePlayback} className="h-8 w-8 p-0">
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateTimeline({ playing: false, currentTime: 0 })}
+          className="h-8 w-8 p-0"
+        >
+          <SkipBack className="w-4 h-4" />
+        </Button>
+        <Button
+          variant={loop ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => updateTimeline({ loop: !loop })}
+          className="h-8 w-8 p-0"
+          title="Loop"
+        >
+          <Repeat className="w-4 h-4" />
+        </Button>
+
+        <span className="w-28 text-sm font-mono">
+          {currentTime.toFixed(2)} / {duration.toFixed(2)}s
+        </span>
+
+        <Label htmlFor="timeline-duration" className="text-sm">Duration</Label>
+        <Input
+          id="timeline-duration"
+          type="number"
+          min={0.1}
+          step={0.5}
+          value={duration}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            if (!isNaN(value)) updateTimeline({ duration: value });
+          }}
+          className="h-8 w-20 text-sm"
+        />
+
+        <div className="ml-auto flex items-center gap-1">
+          <KeyRound className="w-4 h-4 text-muted-foreground" />
+          {keyableProperties.map(({ property, label }) => (
+            <Button
+              key={property}
+              variant="outline"
+              size="sm"
+              disabled={!selectedObject}
+              onClick={() => addKey(property)}
+            >
+              {label}
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!hasKeyAtPlayhead}
+            onClick={removeKeysAtPlayhead}
+            title="Delete the selected object's keys at the playhead"
+            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Scrubber */}
+      <Slider
+        value={[currentTime]}
+        onValueChange={(value: number[]) => updateTimeline({ currentTime: value[0] })}
+        min={0}
+        max={duration}
+        step={0.01}
+      />
+
+      {/* Tracks */}
+      <ScrollArea className="flex-1 min-h-0">
+        {tracks.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-4">
+            Select an object, move the playhead and key its position, rotation, scale or matrix
+          </p>
+        ) : (
+          <div className="space-y-1 pr-3">
+            {tracks.map(renderTrack)}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { CompactMatrix } from './CompactMatrix';
+import { SpecialTransform, specialTransforms } from '../lib/transforms';
+import { SceneObject } from '../types';
+import { toast } from 'sonner';
+
+interface TransformDialogsProps {
+  selectedObject: SceneObject;
+  onMatrixUpdate: (matrix: THREE.Matrix4) => void;
+}
+
+// Buttons for shear / reflect / project / axis rotation, each opening a
+// parameter dialog that previews Op · M on the mesh while it is open. The
+// dialog is non-modal so the viewport stays visible and orbitable.
+export function TransformDialogs({ selectedObject, onMatrixUpdate }: TransformDialogsProps) {
+  const [active, setActive] = useState<SpecialTransform | null>(null);
+  const [params, setParams] = useState<Record<string, number>>({});
+  // The mesh's own matrix when the dialog opened, restored on cancel
+  const base = useRef<{ mesh: THREE.Mesh; matrix: THREE.Matrix4; autoUpdate: boolean } | null>(null);
+
+  const operator = active ? active.build(params) : null;
+  const result = operator && base.current ? operator.clone().multiply(base.current.matrix) : null;
+
+  const restore = () => {
+    const saved = base.current;
+    if (!saved) return;
+    saved.mesh.matrix.copy(saved.matrix);
+    saved.mesh.matrixAutoUpdate = saved.autoUpdate;
+    if (saved.autoUpdate) saved.mesh.updateMatrix();
+    saved.mesh.matrixWorldNeedsUpdate = true;
+    base.current = null;
+  };
+
+  const open = (transform: SpecialTransform) => {
+    restore();
+    const mesh = selectedObject.mesh;
+    if (mesh.matrixAutoUpdate) mesh.updateMatrix();
+    base.current = { mesh, matrix: mesh.matrix.clone(), autoUpdate: mesh.matrixAutoUpdate };
+    setParams({ ...transform.defaults });
+    setActive(transform);
+  };
+
+  const close = () => {
+    restore();
+    setActive(null);
+  };
+
+  const apply = () => {
+    if (!active || !result) return;
+    restore();
+    onMatrixUpdate(result);
+    setActive(null);
+    toast.success(`${active.title} applied`);
+  };
+
+  // Live preview
+  useEffect(() => {
+    const saved = base.current;
+    if (!active || !saved) return;
+    saved.mesh.matrixAutoUpdate = false;
+    saved.mesh.matrix.copy(result ?? saved.matrix);
+    saved.mesh.matrixWorldNeedsUpdate = true;
+  }, [active, params]);
+
+  // Switching objects or unmounting abandons the preview
+  useEffect(() => {
+    if (base.current && base.current.mesh !== selectedObject.mesh) close();
+  }, [selectedObject]);
+  useEffect(() => restore, []);
+
+  const updateParam = (key: string, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    setParams(prev => ({ ...prev, [key]: parsed }));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Geometric Transforms</Label>
+      <div className="grid grid-cols-2 gap-2">
+        {specialTransforms.map(transform => (
+          <Button key={transform.kind} variant="outline" onClick={() => open(transform)}>
+            {transform.title}
+          </Button>
+        ))}
+      </div>
+
+      <Dialog modal={false} open={active !== null} onOpenChange={(isOpen: boolean) => !isOpen && close()}>
+        <DialogContent
+          className="top-auto left-auto right-4 bottom-4 translate-x-0 translate-y-0 sm:max-w-sm"
+          onInteractOutside={(e: Event) => e.preventDefault()}
+        >
+          {active && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{active.title}</DialogTitle>
+                <DialogDescription>{active.description}</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-3">
+                {active.groups.map(group => (
+                  <div key={group.label} className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">{group.label}</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {group.fields.map(field => (
+                        <div key={field.key} className="flex items-center gap-1">
+                          <span className="text-xs text-muted-foreground w-6">{field.label}</span>
+                          <Input
+                            type="number"
+                            step={field.step}
+                            value={params[field.key]}
+                            onChange={(e) => updateParam(field.key, e.target.value)}
+                            className="h-7 px-1 text-xs"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                {operator && result ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <CompactMatrix title="Op" matrix={operator} />
+                    <CompactMatrix title="Op · M" matrix={result} />
+                  </div>
+                ) : (
+                  <p className="text-xs text-destructive">The direction vector must not be zero</p>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={close}>Cancel</Button>
+                <Button onClick={apply} disabled={!result}>Apply to {selectedObject.name}</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,8 +4,9 @@ import { Slider } from './ui/slider';
 import { Button } from './ui/button';
 import { Label } from './ui/label';
 import { Input } from './ui/input';
-import { RotateCcw } from 'lucide-react';
+import { RotateCcw, TriangleAlert } from 'lucide-react';
 import { useAppContext } from '../contexts/AppContext';
+import { GroupTransformControls } from './GroupTransformControls';
 
 export function TransformationControls() {
   const { state, dispatch } = useAppContext();
@@ -18,7 +19,8 @@ export function TransformationControls() {
           ...state.transform.position,
           [axis]: value[0]
         }
-      }
+      },
+      history: { group: `position.${axis}` }
     });
   };
 
@@ -30,7 +32,8 @@ export function TransformationControls() {
           ...state.transform.rotation,
           [axis]: (value[0] * Math.PI) / 180 // Convert to radians
         }
-      }
+      },
+      history: { group: `rotation.${axis}` }
     });
   };
 
@@ -42,7 +45,8 @@ export function TransformationControls() {
           ...state.transform.scale,
           [axis]: value[0]
         }
-      }
+      },
+      history: { group: `scale.${axis}` }
     });
   };
 
@@ -55,10 +59,16 @@ export function TransformationControls() {
           y: value[0],
           z: value[0]
         }
-      }
+      },
+      history: { group: 'scale.uniform' }
     });
   };
 
+  // Ends the current slider drag so the next one becomes its own undo step
+  const commitHistory = () => {
+    dispatch({ type: 'COMMIT_HISTORY' });
+  };
+
   const handleReset = () => {
     dispatch({ type: 'RESET_TRANSFORM' });
   };
@@ -79,7 +89,8 @@ export function TransformationControls() {
             ...state.transform[type],
             [axis]: (numValue * Math.PI) / 180
           }
-        }
+        },
+        history: { group: `${type}.${axis}` }
       });
     } else {
       dispatch({
@@ -89,15 +100,28 @@ export function TransformationControls() {
             ...state.transform[type],
             [axis]: numValue
           }
-        }
+        },
+        history: { group: `${type}.${axis}` }
       });
     }
   };
 
   const selectedObject = state.objects.find(obj => obj.id === state.selectedObjectId);
+  // The fields show the closest TRS; editing them would drop the shear/projection
+  const isRaw = Boolean(selectedObject?.rawMatrix);
+
+  const convertToTRS = () => {
+    dispatch({
+      type: 'UPDATE_TRANSFORM',
+      payload: state.transform,
+      history: { label: 'Convert to TRS' }
+    });
+  };
 
   return (
     <div className="space-y-4">
+      {state.selectedObjectIds.length > 1 && <GroupTransformControls />}
+
       <Card>
         <CardHeader className="pb-3">
           <CardTitle className="flex items-center justify-between">
@@ -119,7 +143,28 @@ export function TransformationControls() {
               Select an object to transform
             </p>
           )}
+
+          {selectedObject && state.selectedObjectIds.length > 1 && (
+            <p className="text-xs text-muted-foreground">
+              Editing the active object, {selectedObject.name}
+            </p>
+          )}
           
+          {selectedObject && isRaw && (
+            <div className="flex items-start gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-xs">
+              <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0 text-amber-500" />
+              <div className="flex-1 space-y-2">
+                <p>
+                  Raw matrix: not decomposable into position, rotation and scale
+                  (it contains shear or projection). The values below are the closest fit.
+                </p>
+                <Button variant="outline" size="sm" onClick={convertToTRS}>
+                  Convert to TRS
+                </Button>
+              </div>
+            </div>
+          )}
+
           {selectedObject && (
             <>
               {/* Position Controls */}
@@ -132,16 +177,19 @@ export function TransformationControls() {
                       <Slider
                         value={[state.transform.position[axis]]}
                         onValueChange={(value) => handlePositionChange(axis, value)}
+                        onValueCommit={commitHistory}
                         min={-10}
                         max={10}
                         step={0.1}
                         className="flex-1"
+                        disabled={isRaw}
                       />
                       <Input
                         type="number"
                         value={state.transform.position[axis].toFixed(2)}
                         onChange={(e) => handleInputChange('position', axis, e.target.value)}
                         className="w-20"
+                        disabled={isRaw}
                         step={0.1}
                       />
                     </div>
@@ -159,16 +207,19 @@ export function TransformationControls() {
                       <Slider
                         value={[(state.transform.rotation[axis] * 180) / Math.PI]}
                         onValueChange={(value) => handleRotationChange(axis, value)}
+                        onValueCommit={commitHistory}
                         min={-180}
                         max={180}
                         step={1}
                         className="flex-1"
+                        disabled={isRaw}
                       />
                       <Input
                         type="number"
                         value={((state.transform.rotation[axis] * 180) / Math.PI).toFixed(1)}
                         onChange={(e) => handleInputChange('rotation', axis, e.target.value)}
                         className="w-20"
+                        disabled={isRaw}
                         step={1}
                       />
                     </div>
@@ -186,10 +237,12 @@ export function TransformationControls() {
                     <Slider
                       value={[state.transform.scale.x]}
                       onValueChange={handleUniformScale}
+                      onValueCommit={commitHistory}
                       min={0.1}
                       max={3}
                       step={0.1}
                       className="flex-1"
+                      disabled={isRaw}
                     />
                     <Input
                       type="number"
@@ -201,11 +254,13 @@ export function TransformationControls() {
                             type: 'UPDATE_TRANSFORM',
                             payload: {
                               scale: { x: value, y: value, z: value }
-                            }
+                            },
+                            history: { group: 'scale.uniform' }
                           });
                         }
                       }}
                       className="w-20"
+                      disabled={isRaw}
                       step={0.1}
                       min={0.1}
                     />
@@ -218,16 +273,19 @@ export function TransformationControls() {
                       <Slider
                         value={[state.transform.scale[axis]]}
                         onValueChange={(value) => handleScaleChange(axis, value)}
+                        onValueCommit={commitHistory}
                         min={0.1}
                         max={3}
                         step={0.1}
                         className="flex-1"
+                        disabled={isRaw}
                       />
                       <Input
                         type="number"
                         value={state.transform.scale[axis].toFixed(2)}
                         onChange={(e) => handleInputChange('scale', axis, e.target.value)}
                         className="w-20"
+                        disabled={isRaw}
                         step={0.1}
                         min={0.1}
                       />
@@ -10,9 +10,19 @@ import {
   Network, 
   Camera,
   Sun,
-  Moon
+  Moon,
+  Move3D,
+  Rotate3D,
+  Scale3D,
+  Globe,
+  Crosshair,
+  GraduationCap,
+  Square,
+  Columns2,
+  Grid2x2
 } from 'lucide-react';
 import { useAppContext } from '../contexts/AppContext';
+import { PANE_VIEWS, togglePaneProjection } from '../lib/camera';
 
 export function ViewportControls() {
   const { state, dispatch } = useAppContext();
@@ -38,17 +48,47 @@ export function ViewportControls() {
     });
   };
 
+  const activePane = state.viewportSettings.panes[state.viewportSettings.activePane];
+
   const toggleProjection = () => {
     dispatch({
       type: 'UPDATE_VIEWPORT_SETTINGS',
-      payload: { 
-        projection: state.viewportSettings.projection === 'perspective' 
-          ? 'orthographic' 
-          : 'perspective' 
+      payload: {
+        panes: togglePaneProjection(state.viewportSettings.panes, state.viewportSettings.activePane)
+      }
+    });
+  };
+
+  const setLayout = (layout: 1 | 2 | 4) => {
+    dispatch({
+      type: 'UPDATE_VIEWPORT_SETTINGS',
+      payload: { layout }
+    });
+  };
+
+  const setTransformMode = (transformMode: 'translate' | 'rotate' | 'scale') => {
+    dispatch({
+      type: 'UPDATE_VIEWPORT_SETTINGS',
+      payload: { transformMode }
+    });
+  };
+
+  const toggleTransformSpace = () => {
+    dispatch({
+      type: 'UPDATE_VIEWPORT_SETTINGS',
+      payload: {
+        transformSpace: state.viewportSettings.transformSpace === 'local' ? 'world' : 'local'
       }
     });
   };
 
+  const toggleExplainMode = () => {
+    dispatch({
+      type: 'UPDATE_VIEWPORT_SETTINGS',
+      payload: { explainMode: !state.viewportSettings.explainMode }
+    });
+  };
+
   const toggleTheme = () => {
     dispatch({ type: 'TOGGLE_THEME' });
     // App.tsx useEffect handles applying the class to document.documentElement
@@ -60,7 +100,7 @@ export function ViewportControls() {
         <CardTitle className="flex items-center justify-between">
           Viewport Controls
           <Badge variant="outline">
-            {state.viewportSettings.projection}
+            {PANE_VIEWS[activePane.view].label} · {activePane.projection}
           </Badge>
         </CardTitle>
       </CardHeader>
@@ -104,21 +144,90 @@ export function ViewportControls() {
                 onCheckedChange={toggleWireframe}
               />
             </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <GraduationCap className="w-4 h-4" />
+                <Label htmlFor="explain-toggle">Explain applied matrices</Label>
+              </div>
+              <Switch
+                id="explain-toggle"
+                checked={state.viewportSettings.explainMode}
+                onCheckedChange={toggleExplainMode}
+              />
+            </div>
           </div>
         </div>
 
+        {/* Gizmo Settings */}
+        <div className="space-y-3">
+          <Label>Transform Gizmo</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              { mode: 'translate', label: 'Move', key: 'W', icon: Move3D },
+              { mode: 'rotate', label: 'Rotate', key: 'E', icon: Rotate3D },
+              { mode: 'scale', label: 'Scale', key: 'R', icon: Scale3D }
+            ] as const).map(({ mode, label, key, icon: Icon }) => (
+              <Button
+                key={mode}
+                variant={state.viewportSettings.transformMode === mode ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTransformMode(mode)}
+                title={`${label} (${key})`}
+                className="flex items-center gap-1"
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={toggleTransformSpace}
+            title="Toggle space (Q)"
+            className="w-full flex items-center gap-2"
+          >
+            {state.viewportSettings.transformSpace === 'local' ? (
+              <Crosshair className="w-4 h-4" />
+            ) : (
+              <Globe className="w-4 h-4" />
+            )}
+            {state.viewportSettings.transformSpace === 'local' ? 'Local space' : 'World space'}
+          </Button>
+        </div>
+
         {/* Camera Settings */}
         <div className="space-y-3">
           <Label>Camera</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              { layout: 1, label: 'Single', icon: Square },
+              { layout: 2, label: 'Two', icon: Columns2 },
+              { layout: 4, label: 'Four', icon: Grid2x2 }
+            ] as const).map(({ layout, label, icon: Icon }) => (
+              <Button
+                key={layout}
+                variant={state.viewportSettings.layout === layout ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLayout(layout)}
+                title={`${layout} pane${layout > 1 ? 's' : ''}`}
+                className="flex items-center gap-1"
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </Button>
+            ))}
+          </div>
           <Button
             variant="outline"
             onClick={toggleProjection}
             className="w-full flex items-center gap-2"
           >
             <Camera className="w-4 h-4" />
-            {state.viewportSettings.projection === 'perspective' 
-              ? 'Switch to Orthographic' 
-              : 'Switch to Perspective'}
+            {activePane.projection === 'perspective' 
+              ? `Switch ${PANE_VIEWS[activePane.view].label} to Orthographic` 
+              : `Switch ${PANE_VIEWS[activePane.view].label} to Perspective`}
           </Button>
         </div>
 
@@ -148,10 +257,18 @@ export function ViewportControls() {
         <div className="pt-3 border-t border-border/50">
           <Label className="text-xs text-muted-foreground">Controls</Label>
           <div className="text-xs text-muted-foreground mt-1 space-y-1">
-            <p>• Left click + drag: Rotate camera</p>
+            <p>• Left click + drag: Rotate camera (pan in top/front/side)</p>
             <p>• Right click + drag: Pan camera</p>
+            <p>• Click a pane: Make it the active camera</p>
             <p>• Scroll: Zoom in/out</p>
             <p>• Click object: Select</p>
+            <p>• Shift/Ctrl+click: Add to or remove from selection</p>
+            <p>• Shift+click in the hierarchy: Select a range</p>
+            <p>• B then drag: Box select (Shift adds)</p>
+            <p>• Drag gizmo: Transform selected object</p>
+            <p>• W / E / R: Move / rotate / scale gizmo</p>
+            <p>• Q: Toggle local / world space</p>
+            <p>• Ctrl+Z / Ctrl+Shift+Z: Undo / redo</p>
           </div>
         </div>
       </CardContent>
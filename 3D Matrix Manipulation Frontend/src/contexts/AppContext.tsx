@@ -1,21 +1,70 @@
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useReducer, useRef, ReactNode } from 'react';
+import { AppState, SceneObject, TimelineState, Transform, ViewportSettings } from '../types';
+import { captureSnapshot, emptyHistory, jumpTo, pushEntry, redo, undo } from '../lib/history';
 import * as THREE from 'three';
-import { AppState, SceneObject, Transform, ViewportSettings } from '../types';
+import { childrenOf, clearRawMatrix, reparent, setLocalMatrix, transformSelection } from '../lib/sceneGraph';
+import { CollabOperation } from '../lib/api';
+import { disposeMesh } from '../lib/geometry';
+import { applyTracks, DEFAULT_DURATION, keyValue, MIN_DURATION, removeKeyframe, setKeyframe } from '../lib/animation';
 
 interface AppAction {
   type:
     | 'ADD_OBJECT'
     | 'REMOVE_OBJECT'
     | 'SELECT_OBJECT'
+    | 'SELECT_OBJECTS'
+    | 'TRANSFORM_SELECTION'
     | 'UPDATE_TRANSFORM'
     | 'RESET_TRANSFORM'
     | 'UPDATE_VIEWPORT_SETTINGS'
     | 'TOGGLE_THEME'
     | 'UPDATE_OBJECT_MATRIX'
-    | 'TOGGLE_OBJECT_VISIBILITY';
+    | 'TOGGLE_OBJECT_VISIBILITY'
+    | 'SET_PARENT'
+    | 'LOAD_SCENE'
+    | 'SET_CURRENT_SCENE'
+    | 'UNDO'
+    | 'REDO'
+    | 'JUMP_HISTORY'
+    | 'COMMIT_HISTORY'
+    | 'SET_KEYFRAME'
+    | 'REMOVE_KEYFRAME'
+    | 'SET_TRACK_INTERPOLATION'
+    | 'REMOVE_TRACK'
+    | 'UPDATE_TIMELINE'
+    | 'SET_COMPOSITION_STACK'
+    | 'START_EXPLAIN'
+    | 'UPDATE_EXPLAIN'
+    | 'STOP_EXPLAIN'
+    | 'SET_CAMERA'
+    | 'SET_VIEWPORT_SIZE'
+    | 'SET_PIPELINE_VERTEX'
+    | 'APPLY_REMOTE_OPERATION'
+    | 'SET_COLLABORATORS';
   payload?: any;
+  // Optional undo metadata: a label for the history list, and a group id so
+  // continuous edits (slider drags, typing) collapse into one step until
+  // COMMIT_HISTORY or any other action closes the group
+  history?: { label?: string; group?: string };
 }
 
+// Actions that edit the scene and therefore get an undo step; selection,
+// viewport settings and theme are view state and are not recorded
+const undoableActions = new Set<AppAction['type']>([
+  'ADD_OBJECT',
+  'REMOVE_OBJECT',
+  'UPDATE_TRANSFORM',
+  'RESET_TRANSFORM',
+  'UPDATE_OBJECT_MATRIX',
+  'TOGGLE_OBJECT_VISIBILITY',
+  'SET_PARENT',
+  'TRANSFORM_SELECTION',
+  'SET_KEYFRAME',
+  'REMOVE_KEYFRAME',
+  'SET_TRACK_INTERPOLATION',
+  'REMOVE_TRACK'
+]);
+
 const initialTransform: Transform = {
   position: { x: 0, y: 0, z: 0 },
   rotation: { x: 0, y: 0, z: 0 },
@@ -26,22 +75,153 @@ const initialViewportSettings: ViewportSettings = {
   showGrid: true,
   showAxes: true,
   wireframe: false,
-  projection: 'perspective'
+  panes: [
+    { view: 'top', projection: 'orthographic' },
+    { view: 'front', projection: 'orthographic' },
+    { view: 'side', projection: 'orthographic' },
+    { view: 'perspective', projection: 'perspective' }
+  ],
+  layout: 1,
+  activePane: 3,
+  transformMode: 'translate',
+  transformSpace: 'world',
+  pivotMode: 'centroid',
+  explainMode: false,
+  showEigenvectors: false,
+  fov: 75,
+  frustumSize: 10,
+  near: 0.1,
+  far: 1000,
+  pipelineMode: false,
+  showPipelineView: false
+};
+
+const initialTimeline: TimelineState = {
+  tracks: [],
+  duration: DEFAULT_DURATION,
+  currentTime: 0,
+  playing: false,
+  loop: true
 };
 
 const initialState: AppState = {
   objects: [],
   selectedObjectId: null,
+  selectedObjectIds: [],
   transform: initialTransform,
   viewportSettings: initialViewportSettings,
-  theme: 'dark'
+  theme: 'dark',
+  currentScene: null,
+  history: emptyHistory,
+  timeline: initialTimeline,
+  compositionStacks: {},
+  explain: null,
+  camera: null,
+  viewportSize: { width: 1, height: 1 },
+  pipelineVertex: null,
+  collaborators: []
 };
 
+function transformFromObject(obj: SceneObject): Transform {
+  return {
+    position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
+    rotation: { x: obj.rotation.x, y: obj.rotation.y, z: obj.rotation.z },
+    scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z }
+  };
+}
+
 const AppContext = createContext<{
   state: AppState;
   dispatch: React.Dispatch<AppAction>;
 } | null>(null);
 
+// Children move up to the removed object's parent; with keepWorldTransform
+// they stay in place, otherwise they keep their local transform
+function removeObject(state: AppState, id: string, keepWorldTransform: boolean): AppState {
+  const removed = state.objects.find(obj => obj.id === id);
+  const orphans = childrenOf(state.objects, id);
+  let objects = state.objects;
+  orphans.forEach(child => {
+    objects = reparent(objects, child.id, removed?.parentId ?? null, keepWorldTransform);
+  });
+
+  // If the active object goes, the most recently selected remaining one takes over
+  const selectedObjectIds = state.selectedObjectIds.filter(selectedId => selectedId !== id);
+  const activeId = state.selectedObjectId === id
+    ? selectedObjectIds[selectedObjectIds.length - 1] ?? null
+    : state.selectedObjectId;
+  const active = objects.find(obj => obj.id === activeId);
+  const activeChanged = activeId !== state.selectedObjectId || orphans.some(child => child.id === activeId);
+  return {
+    ...state,
+    objects: objects.filter(obj => obj.id !== id),
+    timeline: {
+      ...state.timeline,
+      tracks: state.timeline.tracks.filter(track => track.objectId !== id)
+    },
+    compositionStacks: Object.fromEntries(
+      Object.entries(state.compositionStacks).filter(([objectId]) => objectId !== id)
+    ),
+    explain: state.explain?.objectId === id ? null : state.explain,
+    pipelineVertex: state.pipelineVertex?.objectId === id ? null : state.pipelineVertex,
+    selectedObjectId: activeId,
+    selectedObjectIds,
+    transform: activeChanged
+      ? (active ? transformFromObject(active) : initialTransform)
+      : state.transform
+  };
+}
+
+// An edit made by someone else in the live session (lib/collab.ts). It mirrors
+// the server's bookkeeping exactly: removal keeps the children's local
+// transforms, since their new placement follows as transform operations.
+// A new object arrives built, so meshes are not created inside the reducer.
+function applyRemoteOperation(state: AppState, op: CollabOperation, added?: SceneObject): AppState {
+  switch (op.kind) {
+    case 'add':
+      if (!added || state.objects.some(obj => obj.id === added.id)) return state;
+      return { ...state, objects: [...state.objects, added] };
+
+    case 'remove':
+      return removeObject(state, op.id, false);
+
+    case 'transform': {
+      let objects = reparent(state.objects, op.id, op.parentId, false);
+      const obj = objects.find(o => o.id === op.id);
+      if (!obj) return state;
+      if (op.matrix) {
+        setLocalMatrix(obj, new THREE.Matrix4().fromArray(op.matrix));
+      } else {
+        clearRawMatrix(obj);
+        obj.mesh.position.set(op.position.x, op.position.y, op.position.z);
+        obj.mesh.rotation.set(op.rotation.x, op.rotation.y, op.rotation.z);
+        obj.mesh.scale.set(op.scale.x, op.scale.y, op.scale.z);
+        obj.mesh.updateMatrix();
+        obj.position.copy(obj.mesh.position);
+        obj.rotation.copy(obj.mesh.rotation);
+        obj.scale.copy(obj.mesh.scale);
+        obj.matrix.copy(obj.mesh.matrix);
+      }
+      if (objects === state.objects) objects = [...objects];
+      return {
+        ...state,
+        objects,
+        transform: obj.id === state.selectedObjectId ? transformFromObject(obj) : state.transform
+      };
+    }
+
+    case 'visibility':
+      return {
+        ...state,
+        objects: state.objects.map(obj => {
+          if (obj.id !== op.id) return obj;
+          obj.mesh.visible = op.visible;
+          return { ...obj, visible: op.visible };
+        })
+      };
+  }
+}
+
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     case 'ADD_OBJECT':
@@ -51,47 +231,75 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
     
     case 'REMOVE_OBJECT':
-      return {
-        ...state,
-        objects: state.objects.filter(obj => obj.id !== action.payload),
-        selectedObjectId: state.selectedObjectId === action.payload ? null : state.selectedObjectId
-      };
+      return removeObject(state, action.payload, true);
     
     case 'SELECT_OBJECT':
       const selectedObject = state.objects.find(obj => obj.id === action.payload);
       return {
         ...state,
         selectedObjectId: action.payload,
-        transform: selectedObject ? {
-          position: {
-            x: selectedObject.position.x,
-            y: selectedObject.position.y,
-            z: selectedObject.position.z
-          },
-          rotation: {
-            x: selectedObject.rotation.x,
-            y: selectedObject.rotation.y,
-            z: selectedObject.rotation.z
-          },
-          scale: {
-            x: selectedObject.scale.x,
-            y: selectedObject.scale.y,
-            z: selectedObject.scale.z
-          }
-        } : initialTransform
+        selectedObjectIds: action.payload ? [action.payload] : [],
+        transform: selectedObject ? transformFromObject(selectedObject) : initialTransform
+      };
+
+    case 'SELECT_OBJECTS': {
+      // mode 'replace' selects exactly ids, 'add' extends the selection,
+      // 'toggle' flips each id (shift/ctrl-click)
+      const { ids, mode } = action.payload as { ids: string[]; mode: 'replace' | 'add' | 'toggle' };
+      let selectedObjectIds: string[];
+      if (mode === 'replace') {
+        selectedObjectIds = [...ids];
+      } else if (mode === 'add') {
+        selectedObjectIds = [...state.selectedObjectIds, ...ids.filter(id => !state.selectedObjectIds.includes(id))];
+      } else {
+        selectedObjectIds = state.selectedObjectIds.filter(id => !ids.includes(id));
+        selectedObjectIds.push(...ids.filter(id => !state.selectedObjectIds.includes(id)));
+      }
+
+      // The last newly picked object becomes active; otherwise keep the current one if still selected
+      const picked = ids.filter(id => selectedObjectIds.includes(id));
+      const activeId = picked[picked.length - 1]
+        ?? (state.selectedObjectId && selectedObjectIds.includes(state.selectedObjectId)
+          ? state.selectedObjectId
+          : selectedObjectIds[selectedObjectIds.length - 1] ?? null);
+      const active = state.objects.find(obj => obj.id === activeId);
+      return {
+        ...state,
+        selectedObjectId: activeId,
+        selectedObjectIds,
+        transform: activeId === state.selectedObjectId
+          ? state.transform
+          : active ? transformFromObject(active) : initialTransform
       };
+    }
+
+    case 'TRANSFORM_SELECTION': {
+      transformSelection(state.objects, state.selectedObjectIds, action.payload.matrix as THREE.Matrix4);
+      const active = state.objects.find(obj => obj.id === state.selectedObjectId);
+      return {
+        ...state,
+        transform: active ? transformFromObject(active) : state.transform
+      };
+    }
     
-    case 'UPDATE_TRANSFORM':
+    // Editing position/rotation/scale turns a raw matrix back into TRS
+    case 'UPDATE_TRANSFORM': {
+      const active = state.objects.find(obj => obj.id === state.selectedObjectId);
+      if (active) clearRawMatrix(active);
       return {
         ...state,
         transform: { ...state.transform, ...action.payload }
       };
+    }
     
-    case 'RESET_TRANSFORM':
+    case 'RESET_TRANSFORM': {
+      const active = state.objects.find(obj => obj.id === state.selectedObjectId);
+      if (active) clearRawMatrix(active);
       return {
         ...state,
         transform: initialTransform
       };
+    }
     
     case 'UPDATE_VIEWPORT_SETTINGS':
       return {
@@ -105,15 +313,17 @@ function appReducer(state: AppState, action: AppAction): AppState {
         theme: state.theme === 'light' ? 'dark' : 'light'
       };
     
-    case 'UPDATE_OBJECT_MATRIX':
+    case 'UPDATE_OBJECT_MATRIX': {
+      // Sets an arbitrary local matrix; shear or projection is kept as rawMatrix
+      const obj = state.objects.find(o => o.id === action.payload.id);
+      if (!obj) return state;
+      setLocalMatrix(obj, action.payload.matrix as THREE.Matrix4);
       return {
         ...state,
-        objects: state.objects.map(obj =>
-          obj.id === action.payload.id
-            ? { ...obj, matrix: action.payload.matrix }
-            : obj
-        )
+        objects: [...state.objects],
+        transform: obj.id === state.selectedObjectId ? transformFromObject(obj) : state.transform
       };
+    }
 
     case 'TOGGLE_OBJECT_VISIBILITY':
       return {
@@ -126,13 +336,255 @@ function appReducer(state: AppState, action: AppAction): AppState {
         })
       };
 
+    case 'SET_PARENT': {
+      const { id, parentId, keepWorldTransform } = action.payload;
+      const objects = reparent(state.objects, id, parentId, keepWorldTransform);
+      if (objects === state.objects) return state;
+
+      // The local transform changed under the sliders; keep them in sync
+      const moved = objects.find(obj => obj.id === id)!;
+      return {
+        ...state,
+        objects,
+        transform: state.selectedObjectId === id ? transformFromObject(moved) : state.transform
+      };
+    }
+
+    case 'LOAD_SCENE':
+      return {
+        ...state,
+        objects: action.payload.objects,
+        selectedObjectId: null,
+        selectedObjectIds: [],
+        transform: initialTransform,
+        currentScene: action.payload.scene,
+        history: emptyHistory,
+        timeline: { ...initialTimeline, tracks: action.payload.tracks ?? [] },
+        compositionStacks: {},
+        explain: null,
+        pipelineVertex: null
+      };
+
+    case 'SET_CURRENT_SCENE':
+      return {
+        ...state,
+        currentScene: action.payload
+      };
+
+    case 'SET_KEYFRAME': {
+      // Keys the object's current transform at the playhead unless time/value are given
+      const { objectId, property } = action.payload;
+      const obj = state.objects.find(o => o.id === objectId);
+      if (!obj) return state;
+
+      const transform = objectId === state.selectedObjectId ? state.transform : transformFromObject(obj);
+      const time = action.payload.time ?? state.timeline.currentTime;
+      const value = action.payload.value
+        ?? (property === 'matrix' && obj.rawMatrix ? obj.rawMatrix.toArray() : keyValue(transform, property));
+      return {
+        ...state,
+        timeline: {
+          ...state.timeline,
+          tracks: setKeyframe(state.timeline.tracks, objectId, property, time, value)
+        }
+      };
+    }
+
+    case 'REMOVE_KEYFRAME': {
+      const { objectId, property, time } = action.payload;
+      const tracks = removeKeyframe(state.timeline.tracks, objectId, property, time);
+      return tracks === state.timeline.tracks ? state : { ...state, timeline: { ...state.timeline, tracks } };
+    }
+
+    case 'SET_TRACK_INTERPOLATION': {
+      const { objectId, property, interpolation } = action.payload;
+      return {
+        ...state,
+        timeline: {
+          ...state.timeline,
+          tracks: state.timeline.tracks.map(track =>
+            track.objectId === objectId && track.property === property ? { ...track, interpolation } : track
+          )
+        }
+      };
+    }
+
+    case 'REMOVE_TRACK': {
+      const { objectId, property } = action.payload;
+      return {
+        ...state,
+        timeline: {
+          ...state.timeline,
+          tracks: state.timeline.tracks.filter(track => !(track.objectId === objectId && track.property === property))
+        }
+      };
+    }
+
+    case 'SET_COMPOSITION_STACK':
+      return {
+        ...state,
+        compositionStacks: { ...state.compositionStacks, [action.payload.objectId]: action.payload.entries }
+      };
+
+    case 'START_EXPLAIN':
+      return {
+        ...state,
+        explain: {
+          objectId: action.payload.objectId,
+          target: (action.payload.matrix as THREE.Matrix4).toArray(),
+          progress: 0,
+          playing: true
+        }
+      };
+
+    case 'UPDATE_EXPLAIN':
+      return state.explain
+        ? { ...state, explain: { ...state.explain, ...action.payload } }
+        : state;
+
+    case 'STOP_EXPLAIN':
+      return { ...state, explain: null };
+
+    case 'SET_CAMERA':
+      return { ...state, camera: action.payload };
+
+    case 'SET_VIEWPORT_SIZE':
+      return { ...state, viewportSize: action.payload };
+
+    case 'SET_PIPELINE_VERTEX':
+      return { ...state, pipelineVertex: action.payload };
+
+    case 'APPLY_REMOTE_OPERATION': {
+      // Always a new objects array: the session waits for the render before
+      // comparing the scene again, even when the operation changed nothing here
+      const next = applyRemoteOperation(state, action.payload.op, action.payload.object);
+      return next.objects === state.objects ? { ...next, objects: [...state.objects] } : next;
+    }
+
+    case 'SET_COLLABORATORS':
+      return { ...state, collaborators: action.payload };
+
+    case 'UPDATE_TIMELINE': {
+      // Playback, scrubbing, duration and loop. While playing the viewport's
+      // animation loop poses the meshes itself and only reports the time here;
+      // otherwise the scene is posed at the new time and the sliders follow.
+      const timeline: TimelineState = { ...state.timeline, ...action.payload };
+      timeline.duration = Math.max(timeline.duration, MIN_DURATION);
+      timeline.currentTime = THREE.MathUtils.clamp(timeline.currentTime, 0, timeline.duration);
+      if (timeline.playing) return { ...state, timeline };
+
+      applyTracks(state.objects, timeline.tracks, timeline.currentTime);
+      const active = state.objects.find(obj => obj.id === state.selectedObjectId);
+      const animated = active && timeline.tracks.some(track => track.objectId === active.id);
+      return {
+        ...state,
+        timeline,
+        transform: animated ? transformFromObject(active) : state.transform
+      };
+    }
+
     default:
       return state;
   }
 }
 
+function describeAction(state: AppState, action: AppAction): string {
+  const objectName = (id: string | null) => state.objects.find(obj => obj.id === id)?.name ?? 'object';
+
+  switch (action.type) {
+    case 'ADD_OBJECT':
+      return `Add ${action.payload.name}`;
+    case 'REMOVE_OBJECT':
+      return `Delete ${objectName(action.payload)}`;
+    case 'UPDATE_TRANSFORM': {
+      const keys = Object.keys(action.payload);
+      const verb = keys.length !== 1 ? 'Transform'
+        : keys[0] === 'position' ? 'Move'
+        : keys[0] === 'rotation' ? 'Rotate'
+        : 'Scale';
+      return `${verb} ${objectName(state.selectedObjectId)}`;
+    }
+    case 'RESET_TRANSFORM':
+      return `Reset ${objectName(state.selectedObjectId)}`;
+    case 'UPDATE_OBJECT_MATRIX':
+      return `Edit matrix of ${objectName(action.payload.id)}`;
+    case 'TOGGLE_OBJECT_VISIBILITY':
+      return `Toggle visibility of ${objectName(action.payload)}`;
+    case 'TRANSFORM_SELECTION':
+      return `Transform ${state.selectedObjectIds.length} objects`;
+    case 'SET_KEYFRAME':
+      return `Key ${action.payload.property} of ${objectName(action.payload.objectId)}`;
+    case 'REMOVE_KEYFRAME':
+      return `Delete ${action.payload.property} key of ${objectName(action.payload.objectId)}`;
+    case 'SET_TRACK_INTERPOLATION':
+      return `Set ${action.payload.property} interpolation of ${objectName(action.payload.objectId)}`;
+    case 'REMOVE_TRACK':
+      return `Delete ${action.payload.property} track of ${objectName(action.payload.objectId)}`;
+    case 'SET_PARENT':
+      return action.payload.parentId
+        ? `Parent ${objectName(action.payload.id)} to ${objectName(action.payload.parentId)}`
+        : `Unparent ${objectName(action.payload.id)}`;
+    default:
+      return action.type;
+  }
+}
+
+function historyReducer(state: AppState, action: AppAction): AppState {
+  switch (action.type) {
+    case 'UNDO':
+      return undo(state);
+    case 'REDO':
+      return redo(state);
+    case 'JUMP_HISTORY':
+      return jumpTo(state, action.payload);
+    case 'COMMIT_HISTORY':
+      return state.history.openGroup
+        ? { ...state, history: { ...state.history, openGroup: null } }
+        : state;
+  }
+
+  if (!undoableActions.has(action.type)) {
+    const next = appReducer(state, action);
+    return next !== state && next.history.openGroup
+      ? { ...next, history: { ...next.history, openGroup: null } }
+      : next;
+  }
+
+  const group = action.history?.group ?? null;
+  const merging = group !== null && group === state.history.openGroup;
+
+  // Snapshot before reducing: reparenting and selection transforms write the
+  // new local transforms straight onto the shared SceneObject vectors
+  const snapshot = merging ? null : captureSnapshot(state);
+  const next = appReducer(state, action);
+  if (next === state || !snapshot) return next;
+
+  return {
+    ...next,
+    history: pushEntry(state.history, {
+      label: action.history?.label ?? describeAction(state, action),
+      timestamp: Date.now(),
+      snapshot
+    }, group)
+  };
+}
+
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(appReducer, initialState);
+  const [state, dispatch] = useReducer(historyReducer, initialState);
+
+  // A removed object's mesh may come back through undo or redo, so its GPU
+  // resources are freed only once neither the scene nor any history entry has it
+  const liveMeshesRef = useRef(new Set<THREE.Mesh>());
+  useEffect(() => {
+    const reachable = new Set<THREE.Mesh>();
+    const collect = (objects: SceneObject[]) => objects.forEach(obj => reachable.add(obj.mesh));
+    collect(state.objects);
+    [...state.history.past, ...state.history.future].forEach(entry => collect(entry.snapshot.objects));
+    liveMeshesRef.current.forEach(mesh => {
+      if (!reachable.has(mesh)) disposeMesh(mesh);
+    });
+    liveMeshesRef.current = reachable;
+  }, [state.objects, state.history]);
 
   return (
     <AppContext.Provider value={{ state, dispatch }}>
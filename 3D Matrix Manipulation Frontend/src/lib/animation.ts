@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+import { AnimationTrack, Interpolation, Keyframe, SceneObject, TrackProperty, Transform } from '../types';
+import { clearRawMatrix, setLocalMatrix } from './sceneGraph';
+
+// Keys closer together than this are treated as the same key
+export const KEY_EPSILON = 1e-3;
+
+export const DEFAULT_DURATION = 5;
+export const MIN_DURATION = 0.1;
+
+export const interpolationsFor: Record<TrackProperty, Interpolation[]> = {
+  position: ['step', 'linear', 'cubic'],
+  rotation: ['step', 'linear', 'cubic', 'slerp'],
+  scale: ['step', 'linear', 'cubic'],
+  matrix: ['step', 'linear', 'slerp']
+};
+
+export const defaultInterpolation: Record<TrackProperty, Interpolation> = {
+  position: 'linear',
+  rotation: 'slerp',
+  scale: 'linear',
+  matrix: 'slerp'
+};
+
+// Value a new key on `property` records for the given transform
+export function keyValue(transform: Transform, property: TrackProperty): number[] {
+  if (property === 'matrix') {
+    const { position: p, rotation: r, scale: s } = transform;
+    return new THREE.Matrix4().compose(
+      new THREE.Vector3(p.x, p.y, p.z),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(r.x, r.y, r.z)),
+      new THREE.Vector3(s.x, s.y, s.z)
+    ).toArray();
+  }
+  const v = transform[property];
+  return [v.x, v.y, v.z];
+}
+
+export function findTrack(tracks: AnimationTrack[], objectId: string, property: TrackProperty) {
+  return tracks.find(t => t.objectId === objectId && t.property === property);
+}
+
+// Returns new tracks with a key at `time`, replacing any key already there
+export function setKeyframe(
+  tracks: AnimationTrack[],
+  objectId: string,
+  property: TrackProperty,
+  time: number,
+  value: number[]
+): AnimationTrack[] {
+  const key: Keyframe = { time, value };
+  const track = findTrack(tracks, objectId, property);
+  if (!track) {
+    return [...tracks, { objectId, property, interpolation: defaultInterpolation[property], keyframes: [key] }];
+  }
+
+  const keyframes = [...track.keyframes.filter(k => Math.abs(k.time - time) > KEY_EPSILON), key]
+    .sort((a, b) => a.time - b.time);
+  return tracks.map(t => (t === track ? { ...t, keyframes } : t));
+}
+
+// Removes the key at `time`; a track left without keys is dropped
+export function removeKeyframe(
+  tracks: AnimationTrack[],
+  objectId: string,
+  property: TrackProperty,
+  time: number
+): AnimationTrack[] {
+  const track = findTrack(tracks, objectId, property);
+  if (!track) return tracks;
+
+  const keyframes = track.keyframes.filter(k => Math.abs(k.time - time) > KEY_EPSILON);
+  if (keyframes.length === track.keyframes.length) return tracks;
+  return keyframes.length === 0
+    ? tracks.filter(t => t !== track)
+    : tracks.map(t => (t === track ? { ...t, keyframes } : t));
+}
+
+function lerpValues(a: number[], b: number[], u: number): number[] {
+  return a.map((v, i) => v + (b[i] - v) * u);
+}
+
+// Uniform Catmull-Rom through p1 → p2, with p0 and p3 as tangent neighbours
+function catmullRom(p0: number[], p1: number[], p2: number[], p3: number[], u: number): number[] {
+  const u2 = u * u;
+  const u3 = u2 * u;
+  return p1.map((_, i) =>
+    0.5 * (
+      2 * p1[i] +
+      (p2[i] - p0[i]) * u +
+      (2 * p0[i] - 5 * p1[i] + 4 * p2[i] - p3[i]) * u2 +
+      (3 * p1[i] - p0[i] - 3 * p2[i] + p3[i]) * u3
+    )
+  );
+}
+
+function slerpEuler(a: number[], b: number[], u: number): number[] {
+  const qa = new THREE.Quaternion().setFromEuler(new THREE.Euler(a[0], a[1], a[2]));
+  const qb = new THREE.Quaternion().setFromEuler(new THREE.Euler(b[0], b[1], b[2]));
+  const e = new THREE.Euler().setFromQuaternion(qa.slerp(qb, u));
+  return [e.x, e.y, e.z];
+}
+
+// Decomposes both matrices into TRS, lerps translation and scale, slerps rotation
+function slerpMatrix(a: number[], b: number[], u: number): number[] {
+  const ta = new THREE.Vector3(), qa = new THREE.Quaternion(), sa = new THREE.Vector3();
+  const tb = new THREE.Vector3(), qb = new THREE.Quaternion(), sb = new THREE.Vector3();
+  new THREE.Matrix4().fromArray(a).decompose(ta, qa, sa);
+  new THREE.Matrix4().fromArray(b).decompose(tb, qb, sb);
+  return new THREE.Matrix4().compose(ta.lerp(tb, u), qa.slerp(qb, u), sa.lerp(sb, u)).toArray();
+}
+
+export function sampleTrack(track: AnimationTrack, time: number): number[] | undefined {
+  const keys = track.keyframes;
+  if (keys.length === 0) return undefined;
+  if (time <= keys[0].time) return keys[0].value;
+  if (time >= keys[keys.length - 1].time) return keys[keys.length - 1].value;
+
+  const i = keys.findIndex((k, index) => time >= k.time && time < keys[index + 1].time);
+  const from = keys[i];
+  const to = keys[i + 1];
+  const u = (time - from.time) / (to.time - from.time);
+
+  switch (track.interpolation) {
+    case 'step':
+      return from.value;
+    case 'cubic':
+      return catmullRom((keys[i - 1] ?? from).value, from.value, to.value, (keys[i + 2] ?? to).value, u);
+    case 'slerp':
+      if (track.property === 'rotation') return slerpEuler(from.value, to.value, u);
+      if (track.property === 'matrix') return slerpMatrix(from.value, to.value, u);
+      return lerpValues(from.value, to.value, u);
+    default:
+      // For a matrix track this is an element-wise blend, which need not stay a rigid transform
+      return lerpValues(from.value, to.value, u);
+  }
+}
+
+// Poses every animated object at `time`, writing the live meshes and the
+// SceneObject copies in place. A matrix track is applied first, so
+// position/rotation/scale tracks on the same object override its channels;
+// on its own it is applied verbatim and may leave a raw (non-TRS) matrix.
+export function applyTracks(objects: SceneObject[], tracks: AnimationTrack[], time: number) {
+  const order: TrackProperty[] = ['matrix', 'position', 'rotation', 'scale'];
+
+  objects.forEach(obj => {
+    const objectTracks = tracks.filter(t => t.objectId === obj.id);
+    if (objectTracks.length === 0) return;
+
+    const { mesh } = obj;
+    if (objectTracks.every(t => t.property === 'matrix')) {
+      const value = sampleTrack(objectTracks[0], time);
+      if (value) setLocalMatrix(obj, new THREE.Matrix4().fromArray(value));
+      return;
+    }
+
+    clearRawMatrix(obj);
+    order.forEach(property => {
+      const track = objectTracks.find(t => t.property === property);
+      const value = track && sampleTrack(track, time);
+      if (!value) return;
+
+      if (property === 'matrix') {
+        new THREE.Matrix4().fromArray(value).decompose(mesh.position, mesh.quaternion, mesh.scale);
+      } else if (property === 'rotation') {
+        mesh.rotation.set(value[0], value[1], value[2]);
+      } else {
+        mesh[property].set(value[0], value[1], value[2]);
+      }
+    });
+    mesh.updateMatrix();
+
+    obj.position.copy(mesh.position);
+    obj.rotation.copy(mesh.rotation);
+    obj.scale.copy(mesh.scale);
+    obj.matrix.copy(mesh.matrix);
+  });
+}
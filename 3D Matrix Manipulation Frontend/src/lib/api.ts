@@ -1,22 +1,203 @@
+import { AnimationTrack, Collaborator, ObjectType } from '../types';
+
 const BASE = import.meta.env.VITE_API_BASE_URL ?? 'http://localhost:8000';
 
 export interface SavedObject {
   id: string;
   name: string;
-  type: 'cube' | 'sphere' | 'cylinder' | 'plane';
+  type: ObjectType;
+  parentId?: string | null;
   position: { x: number; y: number; z: number };
   rotation: { x: number; y: number; z: number };
   scale: { x: number; y: number; z: number };
+  // Column-major local matrix, present only for non-TRS (raw) transforms
+  matrix?: number[];
+  // Vertex data, present only for imported meshes (type 'mesh')
+  geometry?: MeshGeometry;
   color: string;
   visible: boolean;
 }
 
+// Triangle list of an imported mesh: base64 of little-endian Float32 xyz
+// triples, three vertices per triangle
+export interface MeshGeometry {
+  positions: string;
+  normals?: string;
+}
+
 export interface Scene {
   id: string;
   name: string;
   createdAt: string;
   updatedAt: string;
   objects: SavedObject[];
+  tracks: AnimationTrack[];
+  revision: number;
+}
+
+export interface SceneRevision {
+  sceneId: string;
+  revision: number;
+  name: string;
+  createdAt: string;
+  objects: SavedObject[];
+  tracks: AnimationTrack[];
+}
+
+export type SceneRevisionSummary = Omit<SceneRevision, 'objects' | 'tracks'> & { objectCount: number };
+
+type Vec3 = SavedObject['position'];
+
+export interface ObjectChanges {
+  id: string;
+  name: string;
+  changes: {
+    name?: { from: string; to: string };
+    parentId?: { from: string | null; to: string | null };
+    position?: { from: Vec3; to: Vec3 };
+    rotation?: { from: Vec3; to: Vec3 };
+    scale?: { from: Vec3; to: Vec3 };
+    matrix?: { from: number[] | null; to: number[] | null };
+    color?: { from: string; to: string };
+    visible?: { from: boolean; to: boolean };
+  };
+}
+
+export interface SceneDiff {
+  from: number;
+  to: number;
+  added: SavedObject[];
+  removed: SavedObject[];
+  changed: ObjectChanges[];
+}
+
+export type EulerOrder = 'XYZ' | 'YXZ' | 'ZXY' | 'ZYX' | 'YZX' | 'XZY';
+export type Quaternion = { x: number; y: number; z: number; w: number };
+export type Shear = { xy: number; xz: number; yz: number };
+
+// Factors of a row-major M = P · T · R · H · S, as returned by /api/matrix/decompose
+export interface Decomposition {
+  translation: Vec3;
+  rotation: {
+    quaternion: Quaternion;
+    axisAngle: { axis: Vec3; angle: number };
+    euler: Record<EulerOrder, Vec3 & { gimbalLock: boolean }>;
+    matrix: number[];
+  };
+  scale: Vec3;
+  shear: Shear;
+  perspective: Quaternion;
+}
+
+export interface ComposeRequest {
+  translation?: Vec3;
+  rotation?: {
+    quaternion?: Quaternion;
+    axisAngle?: { axis: Vec3; angle: number };
+    euler?: Vec3 & { order?: EulerOrder };
+  };
+  scale?: Vec3;
+  shear?: Partial<Shear>;
+  perspective?: Quaternion;
+}
+
+export type MatrixPart = 'linear' | 'full';
+export type Complex = { re: number; im: number };
+
+export interface EigenPair {
+  value: Complex;
+  multiplicity: number;
+  vectors: { re: number[]; im: number[] }[];
+  defective: boolean;
+  residual: number;
+  conditionNumber: number | null;
+}
+
+export interface EigenResult {
+  part: MatrixPart;
+  size: number;
+  eigenvalues: EigenPair[];
+  allReal: boolean;
+  diagonalizable: boolean;
+  maxResidual: number;
+  conditionNumber: number | null;
+}
+
+// Matrices below are row-major size × size
+export interface SvdResult {
+  part: MatrixPart;
+  size: number;
+  u: number[];
+  singularValues: number[];
+  v: number[];
+  rank: number;
+  conditionNumber: number | null;
+  residual: number;
+  orthogonalityError: number;
+}
+
+export interface PolarResult {
+  part: MatrixPart;
+  size: number;
+  orthogonal: number[];
+  stretch: number[];
+  leftStretch: number[];
+  reflection: boolean;
+  closestRotation: number[];
+  quaternion?: Quaternion;
+  unique: boolean;
+  conditionNumber: number | null;
+  residual: number;
+  orthogonalityError: number;
+}
+
+// Matrices are row-major 4×4; vectors are homogeneous (x, y, z, w)
+export type ExpressionValue =
+  | { kind: 'scalar'; value: number }
+  | { kind: 'vector'; value: number[] }
+  | { kind: 'matrix'; value: number[] };
+
+// Character offsets into the expression, end exclusive
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// Placement of an object: parent plus local transform, as in SavedObject
+export type ObjectPlacement = Pick<SavedObject, 'position' | 'rotation' | 'scale' | 'matrix'> & { parentId: string | null };
+
+// An edit shared with everyone in a scene's live session. Transform and
+// visibility carry the full new value, so applying them in sequence order converges.
+export type CollabOperation =
+  | { kind: 'add'; object: SavedObject }
+  | { kind: 'remove'; id: string }
+  | ({ kind: 'transform'; id: string } & ObjectPlacement)
+  | { kind: 'visibility'; id: string; visible: boolean };
+
+export type CollabClientMessage =
+  | { type: 'hello'; name: string }
+  | { type: 'op'; opId: number; op: CollabOperation }
+  | { type: 'presence'; selection: string[] };
+
+export type CollabServerMessage =
+  // seeded: this client opened the session; either way objects are the saved scene as edited so far
+  | { type: 'welcome'; clientId: string; color: string; seq: number; seeded: boolean; objects: SavedObject[]; peers: Collaborator[] }
+  // Every accepted op, the author's own included, in seq order
+  | { type: 'op'; seq: number; clientId: string; opId: number; op: CollabOperation }
+  | { type: 'presence'; peer: Collaborator }
+  | { type: 'leave'; clientId: string }
+  // opId and object (the server's version, or null) are set for a rejected op
+  | { type: 'error'; message: string; opId?: number; object?: SavedObject | null };
+
+// WebSocket address of a scene's live editing session
+export const collabUrl = (sceneId: string) =>
+  `${BASE.replace(/^http/, 'ws')}/api/collab?scene=${encodeURIComponent(sceneId)}`;
+
+// Carries the error response body for routes that return more than a message
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly body: Record<string, unknown>) {
+    super(message);
+  }
 }
 
 async function request<T>(path: string, init?: RequestInit): Promise<T> {
@@ -26,7 +207,7 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
   });
   if (!res.ok) {
     const err = await res.json().catch(() => ({ error: res.statusText }));
-    throw new Error((err as { error: string }).error ?? res.statusText);
+    throw new ApiError((err as { error: string }).error ?? res.statusText, res.status, err);
   }
   if (res.status === 204) return undefined as T;
   return res.json() as Promise<T>;
@@ -36,11 +217,18 @@ export const api = {
   scenes: {
     list: () => request<Scene[]>('/api/scenes'),
     get: (id: string) => request<Scene>(`/api/scenes/${id}`),
-    save: (scene: Omit<Scene, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }) =>
+    save: (scene: Omit<Scene, 'id' | 'createdAt' | 'updatedAt' | 'revision'> & { id?: string }) =>
       request<Scene>('/api/scenes', { method: 'POST', body: JSON.stringify(scene) }),
-    update: (id: string, patch: Partial<Pick<Scene, 'name' | 'objects'>>) =>
+    update: (id: string, patch: Partial<Pick<Scene, 'name' | 'objects' | 'tracks'>>) =>
       request<Scene>(`/api/scenes/${id}`, { method: 'PUT', body: JSON.stringify(patch) }),
     delete: (id: string) => request<void>(`/api/scenes/${id}`, { method: 'DELETE' }),
+    revisions: (id: string) => request<SceneRevisionSummary[]>(`/api/scenes/${id}/revisions`),
+    revision: (id: string, revision: number) =>
+      request<SceneRevision>(`/api/scenes/${id}/revisions/${revision}`),
+    restore: (id: string, revision: number) =>
+      request<Scene>(`/api/scenes/${id}/revisions/${revision}/restore`, { method: 'POST' }),
+    diff: (id: string, from: number, to?: number) =>
+      request<SceneDiff>(`/api/scenes/${id}/diff?from=${from}${to !== undefined ? `&to=${to}` : ''}`),
   },
   matrix: {
     multiply: (a: number[], b: number[]) =>
@@ -53,5 +241,36 @@ export const api = {
         method: 'POST',
         body: JSON.stringify({ matrix }),
       }),
+    decompose: (matrix: number[], requireAffine = false) =>
+      request<Decomposition>('/api/matrix/decompose', {
+        method: 'POST',
+        body: JSON.stringify({ matrix, requireAffine }),
+      }),
+    compose: (factors: ComposeRequest) =>
+      request<{ result: number[] }>('/api/matrix/compose', {
+        method: 'POST',
+        body: JSON.stringify(factors),
+      }),
+    eigen: (matrix: number[], part: MatrixPart = 'linear') =>
+      request<EigenResult>('/api/matrix/eigen', {
+        method: 'POST',
+        body: JSON.stringify({ matrix, part }),
+      }),
+    svd: (matrix: number[], part: MatrixPart = 'linear') =>
+      request<SvdResult>('/api/matrix/svd', {
+        method: 'POST',
+        body: JSON.stringify({ matrix, part }),
+      }),
+    polar: (matrix: number[], part: MatrixPart = 'linear') =>
+      request<PolarResult>('/api/matrix/polar', {
+        method: 'POST',
+        body: JSON.stringify({ matrix, part }),
+      }),
+    // Syntax and type errors reject with an ApiError whose body.position is a SourceSpan
+    evaluate: (expression: string, variables: Record<string, number | number[]> = {}) =>
+      request<{ result: ExpressionValue }>('/api/matrix/evaluate', {
+        method: 'POST',
+        body: JSON.stringify({ expression, variables }),
+      }),
   },
 };
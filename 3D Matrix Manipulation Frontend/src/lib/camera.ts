@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import { PaneView, ViewportPane, ViewportSettings } from '../types';
+
+export type ViewportCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+type ProjectionSettings = Pick<ViewportSettings, 'fov' | 'frustumSize' | 'near' | 'far'>;
+
+export function createCamera(projection: ViewportPane['projection'], settings: ProjectionSettings, aspect: number): ViewportCamera {
+  const camera = projection === 'perspective' ? new THREE.PerspectiveCamera() : new THREE.OrthographicCamera();
+  applyProjection(camera, settings, aspect);
+  return camera;
+}
+
+// Fits the camera's frustum to the settings and the viewport's aspect ratio.
+// An orthographic frustum keeps its height and widens with the aspect.
+export function applyProjection(camera: ViewportCamera, settings: ProjectionSettings, aspect: number) {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    camera.fov = settings.fov;
+    camera.aspect = aspect;
+  } else {
+    camera.left = settings.frustumSize * aspect / -2;
+    camera.right = settings.frustumSize * aspect / 2;
+    camera.top = settings.frustumSize / 2;
+    camera.bottom = settings.frustumSize / -2;
+  }
+  camera.near = settings.near;
+  camera.far = settings.far;
+  camera.updateProjectionMatrix();
+}
+
+// A new camera of the other projection that frames what this one does: the
+// orthographic frustum is zoomed to the perspective view's height at the
+// target, and the perspective camera backs off until it sees that height
+export function switchProjection(
+  camera: ViewportCamera,
+  settings: ProjectionSettings,
+  aspect: number,
+  target: THREE.Vector3
+): ViewportCamera {
+  const toPerspective = camera instanceof THREE.OrthographicCamera;
+  const next = createCamera(toPerspective ? 'perspective' : 'orthographic', settings, aspect);
+  next.up.copy(camera.up);
+  next.position.copy(camera.position);
+  next.quaternion.copy(camera.quaternion);
+
+  const slope = 2 * Math.tan(THREE.MathUtils.degToRad(settings.fov) / 2);
+  const offset = camera.position.clone().sub(target);
+  const distance = Math.max(offset.length(), 1e-3);
+  if (toPerspective) {
+    const height = settings.frustumSize / camera.zoom;
+    next.position.copy(target).addScaledVector(offset.divideScalar(distance), height / slope);
+  } else {
+    next.zoom = settings.frustumSize / (distance * slope);
+    next.updateProjectionMatrix();
+  }
+  return next;
+}
+
+export interface PaneViewPreset {
+  label: string;
+  // Where the camera starts, looking at the origin with this up vector
+  position: [number, number, number];
+  up: [number, number, number];
+  // Axis views pan with the left button instead of orbiting off their axis
+  orbit: boolean;
+}
+
+export const PANE_VIEWS: Record<PaneView, PaneViewPreset> = {
+  top: { label: 'Top', position: [0, 20, 0], up: [0, 0, -1], orbit: false },
+  front: { label: 'Front', position: [0, 0, 20], up: [0, 1, 0], orbit: false },
+  side: { label: 'Side', position: [20, 0, 0], up: [0, 1, 0], orbit: false },
+  perspective: { label: 'Perspective', position: [5, 5, 5], up: [0, 1, 0], orbit: true },
+};
+
+type PaneLayout = Pick<ViewportSettings, 'panes' | 'layout' | 'activePane'>;
+
+// The panes a layout shows, in grid order. Two panes put the active axis
+// view beside the perspective one, or the front view beside an active
+// perspective pane.
+export function visiblePanes({ panes, layout, activePane }: PaneLayout): number[] {
+  if (layout === 1) return [activePane];
+  if (layout === 4) return panes.map((_, i) => i);
+  const perspective = panes.findIndex(pane => pane.view === 'perspective');
+  const other = activePane === perspective ? panes.findIndex(pane => pane.view === 'front') : activePane;
+  return [other, perspective].sort((a, b) => a - b);
+}
+
+export function togglePaneProjection(panes: ViewportPane[], index: number): ViewportPane[] {
+  return panes.map((pane, i) => i === index
+    ? { ...pane, projection: pane.projection === 'perspective' ? 'orthographic' : 'perspective' }
+    : pane
+  );
+}
+
+// clip = P · V · M · object
+export function modelViewProjection(camera: ViewportCamera, model: THREE.Matrix4): THREE.Matrix4 {
+  return camera.projectionMatrix.clone().multiply(camera.matrixWorldInverse).multiply(model);
+}
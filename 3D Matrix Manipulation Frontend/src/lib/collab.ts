@@ -0,0 +1,164 @@
+import { Collaborator, SceneObject } from '../types';
+import {
+  collabUrl,
+  CollabClientMessage,
+  CollabOperation,
+  CollabServerMessage,
+  ObjectPlacement,
+  SavedObject,
+} from './api';
+
+// Client side of a scene's live editing session (backend/src/collab.ts). The
+// server puts every accepted operation in one order and sends it to everyone,
+// this client included. Remote operations are applied in that order, except
+// that a field this client has changed itself keeps its own value until the
+// echo arrives: its own operation was sequenced later, so every other client
+// ends on that value too, and simultaneous slider drags converge.
+
+export interface CollabHandlers {
+  onWelcome(message: Extract<CollabServerMessage, { type: 'welcome' }>): void;
+  onOperation(op: CollabOperation): void;
+  onPeers(peers: Collaborator[]): void;
+  // A rejected operation and the server's version of its object (null when
+  // the server has none), which the scene should be reset to
+  onReject(message: string, id: string, object: SavedObject | null): void;
+  // An error the server could not tie to one of this client's operations
+  onError(message: string): void;
+  onClose(reason: string): void;
+}
+
+const targetId = (op: CollabOperation) => (op.kind === 'add' ? op.object.id : op.id);
+
+// Transform and visibility edits to the same object are independent fields
+const fieldKey = (op: CollabOperation) => `${targetId(op)}:${op.kind}`;
+
+export class CollabSession {
+  private socket: WebSocket;
+  private clientId: string | null = null;
+  private nextOpId = 1;
+  // Field → latest own operation the server has not echoed yet
+  private pending = new Map<string, number>();
+  // Own operations by opId, to find the object of a rejected one
+  private sent = new Map<number, CollabOperation>();
+  private peers = new Map<string, Collaborator>();
+  private closed = false;
+
+  constructor(sceneId: string, name: string, private handlers: CollabHandlers) {
+    this.socket = new WebSocket(collabUrl(sceneId));
+    this.socket.onopen = () => this.send({ type: 'hello', name });
+    this.socket.onmessage = (event) => this.receive(JSON.parse(event.data) as CollabServerMessage);
+    this.socket.onclose = (event) => {
+      if (this.closed) return;
+      this.closed = true;
+      this.handlers.onClose(event.code === 4404 ? 'The scene is not saved on the server' : event.reason || 'Connection lost');
+    };
+  }
+
+  get connected() {
+    return this.clientId !== null && !this.closed;
+  }
+
+  // Shares a local edit; the caller has already applied it
+  submit(op: CollabOperation) {
+    if (!this.connected) return;
+    const opId = this.nextOpId++;
+    this.pending.set(fieldKey(op), opId);
+    this.sent.set(opId, op);
+    this.send({ type: 'op', opId, op });
+  }
+
+  setSelection(selection: string[]) {
+    if (this.connected) this.send({ type: 'presence', selection });
+  }
+
+  close() {
+    this.closed = true;
+    this.socket.close();
+  }
+
+  private send(message: CollabClientMessage) {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private receive(message: CollabServerMessage) {
+    switch (message.type) {
+      case 'welcome':
+        this.clientId = message.clientId;
+        message.peers.forEach(peer => this.peers.set(peer.clientId, peer));
+        this.handlers.onWelcome(message);
+        this.handlers.onPeers([...this.peers.values()]);
+        return;
+
+      case 'op': {
+        const { op } = message;
+        const key = fieldKey(op);
+        if (message.clientId === this.clientId) {
+          this.sent.delete(message.opId);
+          if (this.pending.get(key) === message.opId) this.pending.delete(key);
+          return;
+        }
+        if (op.kind === 'remove') {
+          this.pending.delete(`${op.id}:transform`);
+          this.pending.delete(`${op.id}:visibility`);
+        } else if (this.pending.has(key)) {
+          // Superseded by an own edit the server has already queued after it
+          return;
+        }
+        this.handlers.onOperation(op);
+        return;
+      }
+
+      case 'presence':
+        this.peers.set(message.peer.clientId, message.peer);
+        this.handlers.onPeers([...this.peers.values()]);
+        return;
+
+      case 'leave':
+        this.peers.delete(message.clientId);
+        this.handlers.onPeers([...this.peers.values()]);
+        return;
+
+      case 'error': {
+        const op = message.opId !== undefined ? this.sent.get(message.opId) : undefined;
+        if (!op || message.object === undefined) {
+          this.handlers.onError(message.message);
+          return;
+        }
+        this.sent.delete(message.opId!);
+        const id = targetId(op);
+        this.pending.delete(`${id}:transform`);
+        this.pending.delete(`${id}:visibility`);
+        this.handlers.onReject(message.message, id, message.object);
+        return;
+      }
+    }
+  }
+}
+
+// The object's current parent and local transform, read from the mesh as in toSavedObject
+export function placementOf(obj: SceneObject): ObjectPlacement {
+  const { position, rotation, scale } = obj.mesh;
+  return {
+    parentId: obj.parentId ?? null,
+    position: { x: position.x, y: position.y, z: position.z },
+    rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+    scale: { x: scale.x, y: scale.y, z: scale.z },
+    ...(obj.rawMatrix ? { matrix: obj.rawMatrix.toArray() } : {}),
+  };
+}
+
+// Applying a matrix goes through a decomposition, so values read back may
+// differ from those sent in the last bits
+const PLACEMENT_TOLERANCE = 1e-9;
+
+const near = (a: number, b: number) => Math.abs(a - b) <= PLACEMENT_TOLERANCE * Math.max(1, Math.abs(a));
+
+export function samePlacement(a: ObjectPlacement, b: ObjectPlacement): boolean {
+  const vectorsMatch = (['position', 'rotation', 'scale'] as const).every(field =>
+    near(a[field].x, b[field].x) && near(a[field].y, b[field].y) && near(a[field].z, b[field].z)
+  );
+  const matricesMatch = a.matrix && b.matrix
+    ? a.matrix.every((v, i) => near(v, b.matrix![i]))
+    : !a.matrix && !b.matrix;
+  return a.parentId === b.parentId && vectorsMatch && matricesMatch;
+}
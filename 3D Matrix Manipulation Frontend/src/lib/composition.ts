@@ -0,0 +1,107 @@
+import * as THREE from 'three';
+import { CompositionEntry, CompositionKind } from '../types';
+
+// Parameters per kind:
+//   translate  [x, y, z]
+//   rotate     [axisX, axisY, axisZ, degrees]
+//   scale      [x, y, z]
+//   shear      [xy, xz, yx, yz, zx, zy]  (as Matrix4.makeShear)
+//   reflect    [nx, ny, nz]              plane through the origin with this normal
+//   custom     16 column-major elements
+export const compositionKinds: { kind: CompositionKind; label: string; params: string[] }[] = [
+  { kind: 'translate', label: 'Translate', params: ['x', 'y', 'z'] },
+  { kind: 'rotate', label: 'Rotate', params: ['axis x', 'axis y', 'axis z', 'deg'] },
+  { kind: 'scale', label: 'Scale', params: ['x', 'y', 'z'] },
+  { kind: 'shear', label: 'Shear', params: ['xy', 'xz', 'yx', 'yz', 'zx', 'zy'] },
+  { kind: 'reflect', label: 'Reflect', params: ['nx', 'ny', 'nz'] },
+  { kind: 'custom', label: 'Custom 4×4', params: [] },
+];
+
+const defaultParams: Record<CompositionKind, number[]> = {
+  translate: [1, 0, 0],
+  rotate: [0, 1, 0, 45],
+  scale: [2, 2, 2],
+  shear: [0.5, 0, 0, 0, 0, 0],
+  reflect: [1, 0, 0],
+  custom: new THREE.Matrix4().toArray()
+};
+
+export function createEntry(kind: CompositionKind, params = defaultParams[kind]): CompositionEntry {
+  return {
+    id: `${kind}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+    kind,
+    enabled: true,
+    params: [...params]
+  };
+}
+
+export function entryMatrix(entry: CompositionEntry): THREE.Matrix4 {
+  const p = entry.params;
+  switch (entry.kind) {
+    case 'translate':
+      return new THREE.Matrix4().makeTranslation(p[0], p[1], p[2]);
+    case 'rotate': {
+      const axis = new THREE.Vector3(p[0], p[1], p[2]);
+      // A zero axis has no rotation to offer
+      if (axis.lengthSq() === 0) return new THREE.Matrix4();
+      return new THREE.Matrix4().makeRotationAxis(axis.normalize(), THREE.MathUtils.degToRad(p[3]));
+    }
+    case 'scale':
+      return new THREE.Matrix4().makeScale(p[0], p[1], p[2]);
+    case 'shear':
+      return new THREE.Matrix4().makeShear(p[0], p[1], p[2], p[3], p[4], p[5]);
+    case 'reflect': {
+      // Householder reflection I − 2nnᵀ
+      const n = new THREE.Vector3(p[0], p[1], p[2]);
+      if (n.lengthSq() === 0) return new THREE.Matrix4();
+      n.normalize();
+      return new THREE.Matrix4().set(
+        1 - 2 * n.x * n.x, -2 * n.x * n.y, -2 * n.x * n.z, 0,
+        -2 * n.y * n.x, 1 - 2 * n.y * n.y, -2 * n.y * n.z, 0,
+        -2 * n.z * n.x, -2 * n.z * n.y, 1 - 2 * n.z * n.z, 0,
+        0, 0, 0, 1
+      );
+    }
+    case 'custom':
+      return new THREE.Matrix4().fromArray(p);
+  }
+}
+
+// Running products M₁, M₁·M₂, …, M₁·…·Mₙ, read left to right like the written
+// formula: the last entry is applied to the object's vertices first.
+// Disabled entries contribute the identity.
+export function partialProducts(entries: CompositionEntry[]): THREE.Matrix4[] {
+  const products: THREE.Matrix4[] = [];
+  let product = new THREE.Matrix4();
+  entries.forEach(entry => {
+    product = entry.enabled ? product.clone().multiply(entryMatrix(entry)) : product.clone();
+    products.push(product);
+  });
+  return products;
+}
+
+export function composeStack(entries: CompositionEntry[]): THREE.Matrix4 {
+  const products = partialProducts(entries);
+  return products[products.length - 1] ?? new THREE.Matrix4();
+}
+
+const fmt = (n: number) => parseFloat(n.toFixed(2)).toString();
+
+// Short symbolic name, e.g. T(1, 0, 0) or R[0, 1, 0](45°)
+export function describeEntry(entry: CompositionEntry): string {
+  const p = entry.params;
+  switch (entry.kind) {
+    case 'translate':
+      return `T(${p.map(fmt).join(', ')})`;
+    case 'rotate':
+      return `R[${p.slice(0, 3).map(fmt).join(', ')}](${fmt(p[3])}°)`;
+    case 'scale':
+      return `S(${p.map(fmt).join(', ')})`;
+    case 'shear':
+      return `H(${p.map(fmt).join(', ')})`;
+    case 'reflect':
+      return `Ref(n = ${p.map(fmt).join(', ')})`;
+    case 'custom':
+      return 'M';
+  }
+}
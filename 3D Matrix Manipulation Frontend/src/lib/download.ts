@@ -0,0 +1,9 @@
+// Saves in-memory data as a file through a temporary object URL
+export function downloadFile(data: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
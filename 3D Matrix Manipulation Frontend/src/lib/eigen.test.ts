@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { pureRotation, realEigenpairs } from './eigen';
+
+const rotationY = (degrees: number) =>
+  new THREE.Matrix3().setFromMatrix4(new THREE.Matrix4().makeRotationY(THREE.MathUtils.degToRad(degrees)));
+
+// Rounded, with −0 as 0, so results compare exactly
+const round = (v: number) => Number(v.toFixed(6)) || 0;
+
+const pairs = (matrix: THREE.Matrix3) =>
+  realEigenpairs(matrix).map(({ value, vector }) => ({ value: round(value), vector: vector.toArray().map(round) }));
+
+describe('realEigenpairs', () => {
+  // Near the identity the cubic's discriminant is tiny but positive
+  it.each([0.01, 0.5, 1, 2, 5, 90, 179])('keeps the axis of a %s° rotation as its one real pair', (degrees) => {
+    const result = pairs(rotationY(degrees));
+    expect(result).toHaveLength(1);
+    expect(result[0].value).toBeCloseTo(1);
+    expect(result[0].vector[1]).toBeCloseTo(1);
+  });
+
+  it('sorts distinct eigenvalues by decreasing size', () => {
+    const result = pairs(new THREE.Matrix3().set(1, 0, 0, 0, 2, 0, 0, 0, 3));
+    expect(result.map(pair => pair.value)).toEqual([3, 2, 1]);
+    expect(result[0].vector).toEqual([0, 0, 1]);
+  });
+
+  it('gives a repeated eigenvalue a basis of its eigenspace', () => {
+    const result = pairs(new THREE.Matrix3().set(2, 0, 0, 0, 2 + 1e-8, 0, 0, 0, 5));
+    expect(result.map(pair => pair.value)).toEqual([5, 2, 2]);
+  });
+
+  it('finds only the plane a shear leaves in place', () => {
+    const result = pairs(new THREE.Matrix3().set(1, 1, 0, 0, 1, 0, 0, 0, 1));
+    expect(result.every(pair => pair.value === 1)).toBe(true);
+    expect(result.map(pair => pair.vector)).toHaveLength(2);
+    expect(result.map(pair => pair.vector)).toEqual(expect.arrayContaining([[1, 0, 0], [0, 0, 1]]));
+  });
+
+  it('keeps a reflection negative and scales with the matrix', () => {
+    expect(pairs(new THREE.Matrix3().set(-1, 0, 0, 0, 1, 0, 0, 0, 1)).map(pair => pair.value)).toContain(-1);
+    expect(pairs(new THREE.Matrix3().set(300, 0, 0, 0, 200, 0, 0, 0, 100)).map(pair => pair.value)).toEqual([300, 200, 100]);
+  });
+
+  it('has nothing to say about the zero matrix', () => {
+    expect(realEigenpairs(new THREE.Matrix3().set(0, 0, 0, 0, 0, 0, 0, 0, 0))).toEqual([]);
+  });
+});
+
+describe('pureRotation', () => {
+  it.each([0.5, 2, 90])('recovers axis and angle of a %s° rotation', (degrees) => {
+    const rotation = pureRotation(rotationY(degrees));
+    expect(rotation).not.toBeNull();
+    expect(THREE.MathUtils.radToDeg(rotation!.angle)).toBeCloseTo(degrees);
+    expect(Math.abs(rotation!.axis.y)).toBeCloseTo(1);
+  });
+
+  it('rejects a scaled rotation', () => {
+    expect(pureRotation(rotationY(30).multiplyScalar(2))).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+
+// Closed-form real eigen-analysis of a 3×3 linear part, cheap enough to run
+// every frame for the viewport overlay. The backend's /api/matrix/eigen is
+// the place for complex pairs, 4×4s and accuracy diagnostics.
+
+export interface RealEigenpair {
+  value: number;
+  // Unit length
+  vector: THREE.Vector3;
+}
+
+// Relative to the largest entry, which the matrix is scaled by first
+const TOLERANCE = 1e-9;
+const CLUSTER_TOLERANCE = 1e-6;
+
+// Real roots of λ³ + bλ² + cλ + d, with repeated roots repeated
+function realCubicRoots(b: number, c: number, d: number): number[] {
+  // Depressed cubic t³ + pt + q with λ = t − b/3
+  const shift = -b / 3;
+  const p = c - (b * b) / 3;
+  const q = (2 * b * b * b) / 27 - (b * c) / 3 + d;
+
+  if (Math.abs(p) < TOLERANCE && Math.abs(q) < TOLERANCE) return [shift, shift, shift];
+
+  const qTerm = (q * q) / 4;
+  const pTerm = (p * p * p) / 27;
+  const discriminant = qTerm + pTerm;
+  // Three real roots need p < 0, and a discriminant that is ~0 next to the
+  // terms it is the sum of; a small rotation has p > 0 and a tiny discriminant
+  if (p >= 0 || discriminant > TOLERANCE * Math.max(qTerm, Math.abs(pTerm))) {
+    const root = Math.sqrt(Math.max(discriminant, 0));
+    return [Math.cbrt(-q / 2 + root) + Math.cbrt(-q / 2 - root) + shift];
+  }
+
+  // Three real roots (two of them equal when the discriminant is ~0)
+  const r = Math.sqrt(-p / 3);
+  const phi = Math.acos(THREE.MathUtils.clamp(-q / 2 / (r * r * r), -1, 1));
+  return [0, 1, 2].map(k => 2 * r * Math.cos((phi - 2 * Math.PI * k) / 3) + shift);
+}
+
+function perpendicular(v: THREE.Vector3): THREE.Vector3 {
+  const helper = Math.abs(v.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+  return new THREE.Vector3().crossVectors(v, helper).normalize();
+}
+
+// Up to `multiplicity` orthonormal vectors spanning the null space of A − λI
+function eigenspace(rows: THREE.Vector3[], value: number, multiplicity: number): THREE.Vector3[] {
+  const shifted = rows.map((row, i) => {
+    const r = row.clone();
+    r.setComponent(i, r.getComponent(i) - value);
+    return r;
+  });
+
+  // Rank 2: the eigenvector is orthogonal to every row
+  const crosses = [
+    new THREE.Vector3().crossVectors(shifted[0], shifted[1]),
+    new THREE.Vector3().crossVectors(shifted[0], shifted[2]),
+    new THREE.Vector3().crossVectors(shifted[1], shifted[2]),
+  ];
+  const cross = crosses.reduce((best, v) => (v.lengthSq() > best.lengthSq() ? v : best));
+  if (cross.length() > CLUSTER_TOLERANCE || multiplicity === 1) return [cross.normalize()];
+
+  // Rank 1: a plane orthogonal to the one independent row
+  const row = shifted.reduce((best, v) => (v.lengthSq() > best.lengthSq() ? v : best)).clone();
+  if (row.length() > CLUSTER_TOLERANCE) {
+    const first = perpendicular(row.normalize());
+    return [first, new THREE.Vector3().crossVectors(row, first).normalize()];
+  }
+
+  // A = λI: every direction is an eigenvector
+  return [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+}
+
+// Real eigenvalues of the 3×3 (complex pairs are skipped) with a basis of each
+// eigenspace, sorted by decreasing |λ|. Vectors have a positive largest component.
+export function realEigenpairs(matrix: THREE.Matrix3): RealEigenpair[] {
+  const scale = Math.max(...matrix.elements.map(Math.abs));
+  if (scale === 0) return [];
+
+  const m = matrix.clone().multiplyScalar(1 / scale);
+  const e = m.elements;
+  // Column-major elements; rows of A
+  const rows = [0, 1, 2].map(i => new THREE.Vector3(e[i], e[i + 3], e[i + 6]));
+
+  const trace = e[0] + e[4] + e[8];
+  const minors = e[0] * e[4] - e[3] * e[1] + e[0] * e[8] - e[6] * e[2] + e[4] * e[8] - e[7] * e[5];
+  const roots = realCubicRoots(-trace, minors, -m.determinant());
+
+  const clusters: { value: number; multiplicity: number }[] = [];
+  roots.forEach(root => {
+    const cluster = clusters.find(c => Math.abs(c.value - root) < CLUSTER_TOLERANCE);
+    if (cluster) cluster.multiplicity++;
+    else clusters.push({ value: root, multiplicity: 1 });
+  });
+
+  return clusters
+    .flatMap(({ value, multiplicity }) =>
+      eigenspace(rows, value, multiplicity)
+        .filter(vector => vector.lengthSq() > 0)
+        .map(vector => {
+          const largest = [vector.x, vector.y, vector.z].reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+          if (largest < 0) vector.negate();
+          return { value: value * scale, vector };
+        })
+    )
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+}
+
+// Axis and angle when the 3×3 is a proper rotation, otherwise null
+export function pureRotation(matrix: THREE.Matrix3): { axis: THREE.Vector3; angle: number } | null {
+  const product = matrix.clone().transpose().multiply(matrix).elements;
+  const orthonormal = product.every((v, i) => Math.abs(v - (i % 4 === 0 ? 1 : 0)) < 1e-4);
+  if (!orthonormal || matrix.determinant() <= 0) return null;
+
+  const quaternion = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().setFromMatrix3(matrix));
+  if (quaternion.w < 0) quaternion.set(-quaternion.x, -quaternion.y, -quaternion.z, -quaternion.w);
+  const angle = 2 * Math.acos(THREE.MathUtils.clamp(quaternion.w, -1, 1));
+  if (angle < 1e-4) return null;
+
+  const axis = new THREE.Vector3(quaternion.x, quaternion.y, quaternion.z).normalize();
+  return { axis, angle };
+}
@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+
+// "Explain" playback morphs identity into a target matrix one decomposition
+// factor at a time, in the order the factors act on a vertex of M = T · R · S:
+// scale first, then rotation, then translation. Whatever T · R · S cannot
+// express (shear, perspective) is blended in as a last stage.
+
+export const SECONDS_PER_STAGE = 1.5;
+
+export interface ExplainStage {
+  key: 'scale' | 'rotate' | 'translate' | 'remainder';
+  label: string;
+}
+
+interface Factors {
+  translation: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  scale: THREE.Vector3;
+  // True when compose(T, R, S) reproduces the target
+  exact: boolean;
+}
+
+function factorize(target: THREE.Matrix4): Factors {
+  const translation = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  target.decompose(translation, rotation, scale);
+
+  const recomposed = new THREE.Matrix4().compose(translation, rotation, scale);
+  const exact = recomposed.elements.every((v, i) => Math.abs(v - target.elements[i]) < 1e-6);
+  return { translation, rotation, scale, exact };
+}
+
+export function explainStages(target: THREE.Matrix4): ExplainStage[] {
+  const stages: ExplainStage[] = [
+    { key: 'scale', label: 'Scale S' },
+    { key: 'rotate', label: 'Rotate R' },
+    { key: 'translate', label: 'Translate T' },
+  ];
+  if (!factorize(target).exact) {
+    stages.push({ key: 'remainder', label: 'Shear / projective remainder' });
+  }
+  return stages;
+}
+
+// Matrix shown at overall progress 0…1, and the stage that progress falls in
+export function explainMatrixAt(target: THREE.Matrix4, progress: number): { matrix: THREE.Matrix4; stage: ExplainStage } {
+  const { translation, rotation, scale, exact } = factorize(target);
+  const stages = explainStages(target);
+
+  const p = THREE.MathUtils.clamp(progress, 0, 1) * stages.length;
+  const amount = (index: number) => THREE.MathUtils.clamp(p - index, 0, 1);
+
+  const matrix = new THREE.Matrix4().compose(
+    translation.clone().multiplyScalar(amount(2)),
+    new THREE.Quaternion().slerp(rotation, amount(1)),
+    new THREE.Vector3(1, 1, 1).lerp(scale, amount(0))
+  );
+
+  if (!exact) {
+    const u = amount(3);
+    matrix.elements.forEach((v, i) => {
+      matrix.elements[i] = v + (target.elements[i] - v) * u;
+    });
+  }
+
+  return { matrix, stage: stages[Math.min(Math.floor(p), stages.length - 1)] };
+}
+
+// Signed volume of the unit cube's image: the determinant of the linear part
+export function signedVolume(matrix: THREE.Matrix4): number {
+  return new THREE.Matrix3().setFromMatrix4(matrix).determinant();
+}
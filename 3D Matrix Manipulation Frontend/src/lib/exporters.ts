@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+
+// Source snippets for a matrix in other libraries and languages. three.js keeps
+// elements column-major; each format below states the order its constructor
+// expects, and the matrix always means the same thing: M acting on column
+// vectors, v' = M · v.
+
+export type ExportFormat = 'three' | 'glsl' | 'hlsl' | 'numpy' | 'glMatrix' | 'unity' | 'latex' | 'matlab';
+
+export interface NamedMatrix {
+  name: string;
+  matrix: THREE.Matrix4;
+}
+
+interface Exporter {
+  label: string;
+  // Written once above a multi-matrix export
+  header?: string;
+  // Formats one number at the requested precision
+  number: (value: string) => string;
+  declare: (name: string, rows: string[][]) => string;
+}
+
+const rowLines = (rows: string[][], separator: string) => rows.map(row => row.join(separator));
+const columns = (rows: string[][]) => [0, 1, 2, 3].map(col => rows.map(row => row[col]));
+
+// GLSL and HLSL float literals need a decimal point
+const floatLiteral = (value: string) => (/[.e]/.test(value) ? value : `${value}.0`);
+
+const EXPORTERS: Record<ExportFormat, Exporter> = {
+  three: {
+    label: 'three.js Matrix4.set',
+    number: v => v,
+    // set() takes row-major arguments
+    declare: (name, rows) =>
+      `const ${name} = new THREE.Matrix4().set(\n  ${rowLines(rows, ', ').join(',\n  ')}\n);`,
+  },
+  glsl: {
+    label: 'GLSL mat4',
+    number: floatLiteral,
+    // mat4(...) is filled column by column: one column per line
+    declare: (name, rows) =>
+      `const mat4 ${name} = mat4(\n  ${rowLines(columns(rows), ', ').join(',\n  ')}\n);`,
+  },
+  hlsl: {
+    label: 'HLSL float4x4',
+    number: floatLiteral,
+    // The initializer is filled row by row; transform with mul(M, v)
+    declare: (name, rows) =>
+      `static const float4x4 ${name} = float4x4(\n  ${rowLines(rows, ', ').join(',\n  ')}\n);`,
+  },
+  numpy: {
+    label: 'NumPy',
+    header: 'import numpy as np',
+    number: v => v,
+    declare: (name, rows) =>
+      `${name} = np.array([\n  ${rows.map(row => `[${row.join(', ')}]`).join(',\n  ')}\n])`,
+  },
+  glMatrix: {
+    label: 'gl-matrix mat4',
+    header: "import { mat4 } from 'gl-matrix';",
+    number: v => v,
+    // fromValues() takes column-major arguments, like GLSL
+    declare: (name, rows) =>
+      `const ${name} = mat4.fromValues(\n  ${rowLines(columns(rows), ', ').join(',\n  ')}\n);`,
+  },
+  unity: {
+    label: 'Unity Matrix4x4',
+    number: v => `${v}f`,
+    // The constructor takes four column vectors. Values are unchanged, so the
+    // matrix is still in three.js's right-handed frame
+    declare: (name, rows) =>
+      `var ${name} = new Matrix4x4(\n  ${columns(rows).map(col => `new Vector4(${col.join(', ')})`).join(',\n  ')}\n);`,
+  },
+  latex: {
+    label: 'LaTeX bmatrix',
+    number: v => v,
+    declare: (name, rows) =>
+      `${name} = \\begin{bmatrix}\n  ${rowLines(rows, ' & ').join(' \\\\\n  ')}\n\\end{bmatrix}`,
+  },
+  matlab: {
+    label: 'MATLAB',
+    number: v => v,
+    declare: (name, rows) => `${name} = [\n  ${rowLines(rows, ' ').join(';\n  ')}\n];`,
+  },
+};
+
+export const exportFormats = (Object.keys(EXPORTERS) as ExportFormat[]).map(format => ({
+  format,
+  label: EXPORTERS[format].label,
+}));
+
+export const MAX_PRECISION = 10;
+
+function formatNumber(value: number, precision: number): string {
+  const fixed = value.toFixed(precision);
+  // toFixed keeps the sign of values that round to zero
+  return /^-0(\.0*)?$/.test(fixed) ? fixed.slice(1) : fixed;
+}
+
+// Math-order rows: rows[r][c] is the element in row r, column c
+function matrixRows(matrix: THREE.Matrix4, precision: number, exporter: Exporter): string[][] {
+  const e = matrix.elements;
+  return [0, 1, 2, 3].map(row =>
+    [0, 1, 2, 3].map(col => exporter.number(formatNumber(e[col * 4 + row], precision)))
+  );
+}
+
+// LaTeX names are typeset; everything else needs a valid identifier
+function displayName(format: ExportFormat, name: string): string {
+  return format === 'latex' ? `M_{\\text{${name.replace(/_/g, '\\_')}}}` : name;
+}
+
+export function exportMatrices(format: ExportFormat, matrices: NamedMatrix[], precision: number): string {
+  const exporter = EXPORTERS[format];
+  const digits = THREE.MathUtils.clamp(Math.round(precision), 0, MAX_PRECISION);
+  const blocks = matrices.map(({ name, matrix }) =>
+    exporter.declare(displayName(format, name), matrixRows(matrix, digits, exporter))
+  );
+  return [...(exporter.header ? [exporter.header] : []), ...blocks].join('\n\n');
+}
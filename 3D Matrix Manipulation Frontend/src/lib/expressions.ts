@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { AppState } from '../types';
+import { ExpressionValue } from './api';
+import { localMatrix, parentWorldMatrix, worldMatrix } from './sceneGraph';
+
+// Named matrices the expression console sends to /api/matrix/evaluate. The
+// backend works in row-major order, three.js in column-major, so every matrix
+// crosses over transposed.
+
+export interface ExpressionVariable {
+  name: string;
+  description: string;
+  matrix: THREE.Matrix4;
+}
+
+export const toRowMajor = (matrix: THREE.Matrix4) => matrix.clone().transpose().toArray();
+
+export const fromRowMajor = (values: number[]) => new THREE.Matrix4().fromArray(values).transpose();
+
+// Object names may contain spaces and punctuation; identifiers may not
+export function identifierFor(name: string): string {
+  const slug = name.trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[A-Za-z_]/.test(slug) ? slug : `_${slug}`;
+}
+
+// M, W and M_parent for the selected object, <name>.local and <name>.world
+// for every object, and V / P for the viewport camera
+export function expressionVariables(state: AppState): ExpressionVariable[] {
+  const variables: ExpressionVariable[] = [];
+  const selected = state.objects.find(obj => obj.id === state.selectedObjectId);
+
+  if (selected) {
+    variables.push(
+      { name: 'M', description: `Local matrix of ${selected.name}`, matrix: localMatrix(selected) },
+      { name: 'W', description: `World matrix of ${selected.name}`, matrix: worldMatrix(state.objects, selected) },
+      { name: 'M_parent', description: `Parent world matrix of ${selected.name}`, matrix: parentWorldMatrix(state.objects, selected) }
+    );
+  }
+
+  const camera = state.camera;
+  if (camera) {
+    camera.updateMatrixWorld();
+    variables.push(
+      { name: 'V', description: 'Camera view matrix (world → camera)', matrix: camera.matrixWorldInverse.clone() },
+      { name: 'P', description: 'Camera projection matrix', matrix: camera.projectionMatrix.clone() }
+    );
+  }
+
+  const taken = new Set(variables.map(v => v.name));
+  state.objects.forEach(obj => {
+    let base = identifierFor(obj.name);
+    // Two objects with the same name get the later one's id appended
+    if (taken.has(`${base}.local`)) base = `${base}_${identifierFor(obj.id)}`;
+    taken.add(`${base}.local`);
+    variables.push(
+      { name: `${base}.local`, description: `Local matrix of ${obj.name}`, matrix: localMatrix(obj) },
+      { name: `${base}.world`, description: `World matrix of ${obj.name}`, matrix: worldMatrix(state.objects, obj) }
+    );
+  });
+
+  return variables;
+}
+
+export function formatValue(value: ExpressionValue, digits = 3): string {
+  if (value.kind === 'scalar') return value.value.toFixed(digits);
+  return value.value.map(v => v.toFixed(digits)).join(', ');
+}
@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+import { SceneObject } from '../types';
+
+const objectColors = [
+  '#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4',
+  '#feca57', '#ff9ff3', '#54a0ff', '#5f27cd'
+];
+
+export function randomObjectColor(): string {
+  return objectColors[Math.floor(Math.random() * objectColors.length)];
+}
+
+// A 'mesh' object has no built-in shape; its geometry comes from lib/meshes.ts
+export function createGeometry(type: SceneObject['type']): THREE.BufferGeometry {
+  switch (type) {
+    case 'cube':
+      return new THREE.BoxGeometry(1, 1, 1);
+    case 'sphere':
+      return new THREE.SphereGeometry(0.5, 32, 32);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(0.5, 0.5, 1, 32);
+    case 'plane':
+      return new THREE.PlaneGeometry(1, 1);
+    default:
+      return new THREE.BoxGeometry(1, 1, 1);
+  }
+}
+
+export function createMesh(
+  type: SceneObject['type'],
+  color: string,
+  wireframe: boolean,
+  geometry?: THREE.BufferGeometry
+): THREE.Mesh {
+  const material = new THREE.MeshLambertMaterial({ color, wireframe });
+  const mesh = new THREE.Mesh(geometry ?? createGeometry(type), material);
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  return mesh;
+}
+
+export function disposeMesh(mesh: THREE.Mesh) {
+  mesh.geometry.dispose();
+  if (Array.isArray(mesh.material)) {
+    mesh.material.forEach(mat => mat.dispose());
+  } else {
+    mesh.material.dispose();
+  }
+}
@@ -0,0 +1,335 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { SceneObject } from '../types';
+import { createMesh, randomObjectColor } from './geometry';
+import { checkTriangleCount, mergeTriangles, MeshImportError } from './meshes';
+import { localMatrix, setLocalMatrix } from './sceneGraph';
+
+// glTF 2.0 round trip. Each object becomes a node carrying its local matrix,
+// nested under its parent's node, with the fields glTF has no place for kept
+// in node.extras.matrixApp. glTF requires node matrices to be decomposable,
+// so a raw (sheared / projective) matrix is written as its closest TRS and
+// the exact matrix goes in the extras, which the importer prefers. Meshes
+// from other tools are imported as 'mesh' objects.
+
+const EXTRAS_KEY = 'matrixApp';
+
+interface NodeExtras {
+  id: string;
+  type: SceneObject['type'];
+  color: string;
+  visible: boolean;
+  // Column-major; only for raw matrices
+  matrix?: number[];
+}
+
+export interface GltfExport {
+  data: ArrayBuffer | object;
+  // Objects whose matrix other tools will only see approximately
+  approximated: string[];
+}
+
+export async function exportGltf(objects: SceneObject[], binary: boolean): Promise<GltfExport> {
+  const root = new THREE.Scene();
+  const nodes = new Map<string, THREE.Mesh>();
+  const approximated: string[] = [];
+
+  objects.forEach(obj => {
+    const node = new THREE.Mesh(
+      obj.mesh.geometry,
+      new THREE.MeshStandardMaterial({ color: obj.color, roughness: 1, metalness: 0 })
+    );
+    node.name = obj.name;
+    node.matrixAutoUpdate = false;
+    node.matrix.copy(obj.rawMatrix
+      ? new THREE.Matrix4().compose(obj.mesh.position, obj.mesh.quaternion, obj.mesh.scale)
+      : localMatrix(obj));
+
+    const extras: NodeExtras = { id: obj.id, type: obj.type, color: obj.color, visible: obj.visible };
+    if (obj.rawMatrix) {
+      extras.matrix = obj.rawMatrix.toArray();
+      approximated.push(obj.name);
+    }
+    node.userData = { [EXTRAS_KEY]: extras };
+    nodes.set(obj.id, node);
+  });
+
+  objects.forEach(obj => {
+    const parent = obj.parentId ? nodes.get(obj.parentId) : undefined;
+    (parent ?? root).add(nodes.get(obj.id)!);
+  });
+
+  try {
+    const data = await new GLTFExporter().parseAsync(root, { binary, onlyVisible: false, trs: false });
+    return { data, approximated };
+  } finally {
+    nodes.forEach(node => (node.material as THREE.Material).dispose());
+  }
+}
+
+// ── Import ────────────────────────────────────────────────────────────────────
+
+interface GltfNode {
+  name?: string;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  mesh?: number;
+  extras?: Record<string, unknown>;
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+}
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  count: number;
+  type: string;
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteStride?: number;
+}
+
+interface GltfJson {
+  asset?: { version?: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { primitives?: GltfPrimitive[] }[];
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: { uri?: string }[];
+}
+
+interface GltfFile {
+  json: GltfJson;
+  // The BIN chunk of a .glb, which buffer 0 refers to
+  binary: Uint8Array | null;
+}
+
+export interface GltfImport {
+  objects: SceneObject[];
+  // Meshes that could not be read as triangle lists within MAX_MESH_TRIANGLES
+  skipped: number;
+}
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const GLB_JSON_CHUNK = 0x4e4f534a; // 'JSON'
+const GLB_BIN_CHUNK = 0x004e4942; // 'BIN'
+
+// The JSON of a .gltf, or the JSON and BIN chunks of a .glb
+function readFile(data: ArrayBuffer): GltfFile {
+  const view = new DataView(data);
+  let text: string;
+  let binary: Uint8Array | null = null;
+  if (data.byteLength >= 20 && view.getUint32(0, true) === GLB_MAGIC) {
+    const chunkLength = view.getUint32(12, true);
+    if (view.getUint32(16, true) !== GLB_JSON_CHUNK) throw new Error('GLB file has no JSON chunk');
+    text = new TextDecoder().decode(new Uint8Array(data, 20, chunkLength));
+    const binStart = 20 + chunkLength;
+    if (data.byteLength >= binStart + 8 && view.getUint32(binStart + 4, true) === GLB_BIN_CHUNK) {
+      binary = new Uint8Array(data, binStart + 8, view.getUint32(binStart, true));
+    }
+  } else {
+    text = new TextDecoder().decode(data);
+  }
+
+  const json = JSON.parse(text) as GltfJson;
+  if (!json.asset?.version?.startsWith('2.')) throw new Error('Only glTF 2.0 files are supported');
+  return { json, binary };
+}
+
+// Embedded buffers only: the GLB chunk or a base64 data URI
+function bufferBytes(file: GltfFile, index: number, cache: Map<number, Uint8Array>): Uint8Array {
+  const cached = cache.get(index);
+  if (cached) return cached;
+
+  const uri = file.json.buffers?.[index]?.uri;
+  let bytes: Uint8Array;
+  if (uri === undefined && index === 0 && file.binary) {
+    bytes = file.binary;
+  } else if (uri?.startsWith('data:')) {
+    const binary = atob(uri.slice(uri.indexOf(',') + 1));
+    bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  } else {
+    throw new MeshImportError('External glTF buffers are not supported; export as .glb or embedded .gltf');
+  }
+  cache.set(index, bytes);
+  return bytes;
+}
+
+const COMPONENTS: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4 };
+const COMPONENT_READERS: Record<number, { size: number; read: (view: DataView, offset: number) => number }> = {
+  5121: { size: 1, read: (view, offset) => view.getUint8(offset) },
+  5123: { size: 2, read: (view, offset) => view.getUint16(offset, true) },
+  5125: { size: 4, read: (view, offset) => view.getUint32(offset, true) },
+  5126: { size: 4, read: (view, offset) => view.getFloat32(offset, true) },
+};
+
+// Accessor contents as a flat array; sparse accessors are not supported
+function readAccessor(file: GltfFile, index: number, cache: Map<number, Uint8Array>): number[] {
+  const accessor = file.json.accessors?.[index];
+  const view = accessor?.bufferView !== undefined ? file.json.bufferViews?.[accessor.bufferView] : undefined;
+  const components = accessor ? COMPONENTS[accessor.type] : undefined;
+  const reader = accessor ? COMPONENT_READERS[accessor.componentType] : undefined;
+  if (!accessor || !view || !components || !reader) throw new MeshImportError(`Unsupported accessor ${index}`);
+
+  const bytes = bufferBytes(file, view.buffer, cache);
+  const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = (view.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+  const stride = view.byteStride ?? components * reader.size;
+
+  const values = new Array<number>(accessor.count * components);
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < components; c++) {
+      values[i * components + c] = reader.read(data, start + i * stride + c * reader.size);
+    }
+  }
+  return values;
+}
+
+const TRIANGLES = 4;
+
+// All triangle primitives of a mesh as one triangle list, or null if it has none
+function readMesh(file: GltfFile, index: number, cache: Map<number, Uint8Array>): THREE.BufferGeometry | null {
+  const parts: THREE.BufferGeometry[] = [];
+  file.json.meshes?.[index]?.primitives?.forEach(primitive => {
+    if ((primitive.mode ?? TRIANGLES) !== TRIANGLES || primitive.attributes.POSITION === undefined) return;
+    const part = new THREE.BufferGeometry();
+    part.setAttribute('position', new THREE.Float32BufferAttribute(readAccessor(file, primitive.attributes.POSITION, cache), 3));
+    if (primitive.attributes.NORMAL !== undefined) {
+      part.setAttribute('normal', new THREE.Float32BufferAttribute(readAccessor(file, primitive.attributes.NORMAL, cache), 3));
+    }
+    if (primitive.indices !== undefined) part.setIndex(readAccessor(file, primitive.indices, cache));
+    parts.push(part);
+  });
+  if (parts.length === 0) return null;
+
+  const geometry = mergeTriangles(parts);
+  if (!geometry.getAttribute('normal')) geometry.computeVertexNormals();
+  return geometry;
+}
+
+function nodeMatrix(node: GltfNode): THREE.Matrix4 {
+  if (node.matrix) return new THREE.Matrix4().fromArray(node.matrix);
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [qx, qy, qz, qw] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(tx, ty, tz),
+    new THREE.Quaternion(qx, qy, qz, qw),
+    new THREE.Vector3(sx, sy, sz)
+  );
+}
+
+const OBJECT_TYPES: SceneObject['type'][] = ['cube', 'sphere', 'cylinder', 'plane', 'mesh'];
+
+function appExtras(node: GltfNode): NodeExtras | null {
+  const extras = node.extras?.[EXTRAS_KEY] as NodeExtras | undefined;
+  return extras && OBJECT_TYPES.includes(extras.type) && typeof extras.color === 'string' ? extras : null;
+}
+
+// Loose enough for a round trip through float32 tools such as Blender
+const MATRIX_TOLERANCE = 1e-5;
+
+// The exact raw matrix from the extras, unless the node was moved since export
+// (its matrix is then no longer the closest TRS of the saved one)
+function localMatrixOf(node: GltfNode, extras: NodeExtras | null): THREE.Matrix4 {
+  const written = nodeMatrix(node);
+  if (!extras?.matrix) return written;
+
+  const exact = new THREE.Matrix4().fromArray(extras.matrix);
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  exact.decompose(position, quaternion, scale);
+  const closest = new THREE.Matrix4().compose(position, quaternion, scale);
+  const unchanged = closest.elements.every((v, i) => Math.abs(v - written.elements[i]) <= MATRIX_TOLERANCE * Math.max(1, Math.abs(v)));
+  return unchanged ? exact : written;
+}
+
+// Recreates the objects of a file written by exportGltf. Meshes from other
+// tools become 'mesh' objects; their other nodes are kept as transforms only,
+// folded into the nearest object descendants so those keep their world placement.
+export function importGltf(data: ArrayBuffer, wireframe: boolean): GltfImport {
+  const file = readFile(data);
+  const nodes = file.json.nodes ?? [];
+  const roots = file.json.scenes?.[file.json.scene ?? 0]?.nodes ?? [];
+  const buffers = new Map<number, Uint8Array>();
+  const objects: SceneObject[] = [];
+  const usedIds = new Set<string>();
+  const visited = new Set<number>();
+  let skipped = 0;
+
+  // The node's mesh as a triangle list, or null (counted as skipped) if unusable
+  const meshGeometry = (node: GltfNode): THREE.BufferGeometry | null => {
+    if (node.mesh === undefined) return null;
+    try {
+      const geometry = readMesh(file, node.mesh, buffers);
+      if (geometry) {
+        checkTriangleCount(geometry, node.name ?? 'Mesh');
+        return geometry;
+      }
+    } catch (err) {
+      if (!(err instanceof MeshImportError)) throw err;
+    }
+    skipped++;
+    return null;
+  };
+
+  // `carried` is the product of skipped ancestors since `parentId`
+  const visit = (index: number, parentId: string | null, carried: THREE.Matrix4) => {
+    const node = nodes[index];
+    // A node may appear only once in the hierarchy; ignore malformed repeats
+    if (!node || visited.has(index)) return;
+    visited.add(index);
+    const extras = appExtras(node);
+    const geometry = !extras || extras.type === 'mesh' ? meshGeometry(node) : null;
+
+    if (!extras && !geometry) {
+      node.children?.forEach(child => visit(child, parentId, carried.clone().multiply(nodeMatrix(node))));
+      return;
+    }
+
+    const type = extras?.type ?? 'mesh';
+    let id = extras?.id || `${type}_${Date.now()}`;
+    while (usedIds.has(id)) id = `${id}_${index}`;
+    usedIds.add(id);
+
+    const color = extras?.color ?? randomObjectColor();
+    const mesh = createMesh(type, color, wireframe, geometry ?? undefined);
+    mesh.visible = extras?.visible !== false;
+    const obj: SceneObject = {
+      id,
+      name: node.name ?? `Node ${index}`,
+      type,
+      parentId,
+      mesh,
+      position: new THREE.Vector3(),
+      rotation: new THREE.Euler(),
+      scale: new THREE.Vector3(1, 1, 1),
+      matrix: new THREE.Matrix4(),
+      rawMatrix: null,
+      color,
+      visible: mesh.visible
+    };
+    setLocalMatrix(obj, carried.clone().multiply(localMatrixOf(node, extras)));
+    objects.push(obj);
+
+    node.children?.forEach(child => visit(child, id, new THREE.Matrix4()));
+  };
+
+  roots.forEach(index => visit(index, null, new THREE.Matrix4()));
+  return { objects, skipped };
+}
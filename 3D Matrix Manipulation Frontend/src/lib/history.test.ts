@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { AppState, SceneObject } from '../types';
+import { createMesh } from './geometry';
+import { captureSnapshot, emptyHistory, pushEntry, redo, undo } from './history';
+import { setLocalMatrix } from './sceneGraph';
+
+const sceneObject = (): SceneObject => ({
+  id: 'a',
+  name: 'a',
+  type: 'cube',
+  parentId: null,
+  mesh: createMesh('cube', '#ffffff', false),
+  position: new THREE.Vector3(),
+  rotation: new THREE.Euler(),
+  scale: new THREE.Vector3(1, 1, 1),
+  matrix: new THREE.Matrix4(),
+  rawMatrix: null,
+  color: '#ffffff',
+  visible: true,
+});
+
+// Only the fields history reads
+const appState = (objects: SceneObject[]) =>
+  ({
+    objects,
+    selectedObjectId: null,
+    selectedObjectIds: [],
+    transform: { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 }, scale: { x: 1, y: 1, z: 1 } },
+    history: emptyHistory,
+    timeline: { tracks: [], duration: 5, currentTime: 0, playing: false, loop: false },
+  }) as unknown as AppState;
+
+const shear = () => new THREE.Matrix4().makeShear(0.5, 0, 0, 0, 0, 0);
+
+describe('undo and redo', () => {
+  it('bring back the edit of an unselected object', () => {
+    const obj = sceneObject();
+    const before = appState([obj]);
+    const entry = { label: 'Move', timestamp: 0, snapshot: captureSnapshot(before) };
+    obj.mesh.position.set(1, 2, 3);
+    obj.position.set(1, 2, 3);
+    const edited = { ...before, history: pushEntry(before.history, entry, null) };
+
+    const undone = undo(edited);
+    expect(obj.position.toArray()).toEqual([0, 0, 0]);
+    expect(undone.history).toMatchObject({ past: [], future: [{ label: 'Move' }] });
+
+    const redone = redo(undone);
+    expect(obj.position.toArray()).toEqual([1, 2, 3]);
+    expect(obj.mesh.position.toArray()).toEqual([1, 2, 3]);
+    expect(redone.history).toMatchObject({ past: [{ label: 'Move' }], future: [] });
+  });
+
+  it('restore a raw matrix and the plain transform before it', () => {
+    const obj = sceneObject();
+    const before = appState([obj]);
+    const entry = { label: 'Shear', timestamp: 0, snapshot: captureSnapshot(before) };
+    setLocalMatrix(obj, shear());
+    const edited = { ...before, history: pushEntry(before.history, entry, null) };
+
+    const undone = undo(edited);
+    expect(obj.rawMatrix).toBeNull();
+    expect(obj.mesh.matrixAutoUpdate).toBe(true);
+    expect(obj.mesh.matrix.equals(new THREE.Matrix4())).toBe(true);
+    expect(undone.history).toMatchObject({ past: [], future: [{ label: 'Shear' }] });
+
+    const redone = redo(undone);
+    expect(obj.rawMatrix?.equals(shear())).toBe(true);
+    expect(obj.mesh.matrixAutoUpdate).toBe(false);
+    expect(obj.mesh.matrix.equals(shear())).toBe(true);
+    expect(redone.history).toMatchObject({ past: [{ label: 'Shear' }], future: [] });
+  });
+
+  it('leave the state alone with nothing to undo or redo', () => {
+    const state = appState([sceneObject()]);
+    expect(undo(state)).toBe(state);
+    expect(redo(state)).toBe(state);
+  });
+});
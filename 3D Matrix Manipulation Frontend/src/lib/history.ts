@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { AppState, HistoryEntry, HistoryState, SceneSnapshot, Transform } from '../types';
+
+export const MAX_HISTORY = 100;
+
+export const emptyHistory: HistoryState = { past: [], future: [], openGroup: null };
+
+function copyTransform(t: Transform): Transform {
+  return {
+    position: { ...t.position },
+    rotation: { ...t.rotation },
+    scale: { ...t.scale }
+  };
+}
+
+// The selected object's authoritative transform is state.transform: MatrixPanel
+// writes mesh.matrix directly before dispatching, so the mesh may already be
+// ahead of the state we want to record.
+export function captureSnapshot(state: AppState): SceneSnapshot {
+  const transforms: SceneSnapshot['transforms'] = {};
+  state.objects.forEach(obj => {
+    transforms[obj.id] = obj.id === state.selectedObjectId
+      ? copyTransform(state.transform)
+      : {
+          position: { x: obj.position.x, y: obj.position.y, z: obj.position.z },
+          rotation: { x: obj.rotation.x, y: obj.rotation.y, z: obj.rotation.z },
+          scale: { x: obj.scale.x, y: obj.scale.y, z: obj.scale.z }
+        };
+  });
+
+  const rawMatrices: SceneSnapshot['rawMatrices'] = {};
+  state.objects.forEach(obj => {
+    if (obj.rawMatrix) rawMatrices[obj.id] = obj.rawMatrix.toArray();
+  });
+
+  return {
+    objects: state.objects,
+    transforms,
+    rawMatrices,
+    selectedObjectId: state.selectedObjectId,
+    selectedObjectIds: state.selectedObjectIds,
+    transform: copyTransform(state.transform),
+    tracks: state.timeline.tracks
+  };
+}
+
+// Writes the snapshot back onto the live meshes, which are shared between entries
+export function restoreSnapshot(state: AppState, snapshot: SceneSnapshot): AppState {
+  snapshot.objects.forEach(obj => {
+    const t = snapshot.transforms[obj.id];
+    if (!t) return;
+    obj.mesh.position.set(t.position.x, t.position.y, t.position.z);
+    obj.mesh.rotation.set(t.rotation.x, t.rotation.y, t.rotation.z);
+    obj.mesh.scale.set(t.scale.x, t.scale.y, t.scale.z);
+    obj.mesh.updateMatrix();
+    obj.mesh.visible = obj.visible;
+
+    const raw = snapshot.rawMatrices[obj.id];
+    obj.rawMatrix = raw ? new THREE.Matrix4().fromArray(raw) : null;
+    obj.mesh.matrixAutoUpdate = !raw;
+    if (obj.rawMatrix) obj.mesh.matrix.copy(obj.rawMatrix);
+
+    obj.position.copy(obj.mesh.position);
+    obj.rotation.copy(obj.mesh.rotation);
+    obj.scale.copy(obj.mesh.scale);
+    obj.matrix.copy(obj.mesh.matrix);
+  });
+
+  return {
+    ...state,
+    objects: [...snapshot.objects],
+    selectedObjectId: snapshot.selectedObjectId,
+    selectedObjectIds: snapshot.selectedObjectIds,
+    transform: copyTransform(snapshot.transform),
+    timeline: { ...state.timeline, tracks: snapshot.tracks }
+  };
+}
+
+export function pushEntry(history: HistoryState, entry: HistoryEntry, group: string | null): HistoryState {
+  return {
+    past: [...history.past, entry].slice(-MAX_HISTORY),
+    future: [],
+    openGroup: group
+  };
+}
+
+export function undo(state: AppState): AppState {
+  const { past, future } = state.history;
+  const entry = past[past.length - 1];
+  if (!entry) return state;
+
+  // Before restoring: the meshes are shared, so restoring overwrites the current values
+  const current = captureSnapshot(state);
+  const restored = restoreSnapshot(state, entry.snapshot);
+  return {
+    ...restored,
+    history: {
+      past: past.slice(0, -1),
+      future: [...future, { ...entry, snapshot: current }],
+      openGroup: null
+    }
+  };
+}
+
+export function redo(state: AppState): AppState {
+  const { past, future } = state.history;
+  const entry = future[future.length - 1];
+  if (!entry) return state;
+
+  // Captured first, as in undo
+  const current = captureSnapshot(state);
+  const restored = restoreSnapshot(state, entry.snapshot);
+  return {
+    ...restored,
+    history: {
+      past: [...past, { ...entry, snapshot: current }],
+      future: future.slice(0, -1),
+      openGroup: null
+    }
+  };
+}
+
+// Moves to the point where `index` entries have been applied
+export function jumpTo(state: AppState, index: number): AppState {
+  let next = state;
+  while (next.history.past.length > index && next.history.past.length > 0) {
+    next = undo(next);
+  }
+  while (next.history.past.length < index && next.history.future.length > 0) {
+    next = redo(next);
+  }
+  return next;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { exportFormats, exportMatrices } from './exporters';
+import { MatrixParseError, parseMatrixText, toMatrix4 } from './importers';
+
+// Distinct entries, so a transposed read cannot pass
+const sample = () =>
+  new THREE.Matrix4().set(1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 0.5, -0.25, 0, 1);
+
+const read = (text: string) => {
+  const parsed = parseMatrixText(text);
+  return toMatrix4(parsed, parsed.order ?? 'row');
+};
+
+describe('parseMatrixText', () => {
+  it.each(exportFormats.map(({ format }) => format))('reads back what the %s exporter writes', (format) => {
+    const text = exportMatrices(format, [{ name: 'M', matrix: sample() }], 4);
+    expect(read(text).elements).toEqual(sample().elements);
+  });
+
+  it.each([
+    ['[[1, 0, 0], [0, 2, 0], [0, 0, 3]]', 'NumPy / JSON rows', 'row'],
+    ['1 0 0\n0 2 0\n0 0 3', 'CSV / whitespace grid', 'row'],
+    ['[1, 0, 0, 0, 2, 0, 0, 0, 3]', 'JSON array', null],
+    ['[1 0 0; 0 2 0; 0 0 3] % diagonal', 'MATLAB', 'row'],
+  ])('detects %j as %s', (text, format, order) => {
+    expect(parseMatrixText(text)).toEqual({ format, size: 3, values: [1, 0, 0, 0, 2, 0, 0, 0, 3], order });
+  });
+
+  it('makes a 3×3 the linear part of a 4×4', () => {
+    expect(read('[[1, 2, 3], [4, 5, 6], [7, 8, 9]]').elements).toEqual(
+      new THREE.Matrix4().set(1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0, 0, 0, 0, 1).elements
+    );
+  });
+
+  it.each([
+    ['', 'No numbers found'],
+    ['1 2 3 4 5', 'Found 5 numbers; expected 9 (3×3) or 16 (4×4)'],
+    ['[[1, 2, 3], [4, 5], [7, 8, 9]]', 'Row 2 has 2 values; expected 3'],
+    ['[[1, 2], [3, 4]]', 'Found 2 rows; expected 3 or 4'],
+  ])('rejects %j', (text, message) => {
+    expect(() => parseMatrixText(text)).toThrow(MatrixParseError);
+    expect(() => parseMatrixText(text)).toThrow(message);
+  });
+});
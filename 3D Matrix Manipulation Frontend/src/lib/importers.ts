@@ -0,0 +1,142 @@
+import * as THREE from 'three';
+
+// Reads a 3×3 or 4×4 matrix out of pasted text: NumPy reprs, JSON arrays,
+// LaTeX environments, MATLAB literals, CSV/whitespace grids and the source
+// literals written by lib/exporters (three.js, GLSL, HLSL, gl-matrix, Unity).
+// Where the layout fixes the element order it is reported; a flat list of
+// numbers leaves the order to the caller.
+
+export type MatrixOrder = 'row' | 'column';
+
+export interface ParsedMatrix {
+  // Human-readable name of the detected layout
+  format: string;
+  size: 3 | 4;
+  // In source order
+  values: number[];
+  // null when the text does not say whether the values run along rows or columns
+  order: MatrixOrder | null;
+}
+
+// Thrown with a message fit to show next to the paste box
+export class MatrixParseError extends Error {}
+
+// Not preceded by a letter, digit or dot, so the 4s in mat4 and Vector4 are skipped
+const NUMBER = /(?<![A-Za-z_\d.])[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+interface Layout {
+  format: string;
+  // Matched against the comment-stripped text
+  test: RegExp;
+  order: MatrixOrder;
+  // How the numbers are grouped: by call argument list, or by nested groups
+  groups: 'flat' | 'brackets' | 'vectors' | 'latex' | 'semicolons';
+}
+
+// First match wins, so the specific constructors come before generic brackets
+const LAYOUTS: Layout[] = [
+  { format: 'three.js Matrix4.set', test: /Matrix[34]\s*\(\s*\)\s*\.set\s*\(/, order: 'row', groups: 'flat' },
+  { format: 'three.js fromArray / elements', test: /fromArray\s*\(|elements\s*[:=]/, order: 'column', groups: 'flat' },
+  { format: 'gl-matrix', test: /mat[34]\.(fromValues|set)\s*\(/, order: 'column', groups: 'flat' },
+  { format: 'GLSL', test: /\bd?mat[34]\s*\(/, order: 'column', groups: 'flat' },
+  { format: 'HLSL', test: /\b(float|double|half)[34]x[34]\s*\(/, order: 'row', groups: 'flat' },
+  { format: 'Unity Matrix4x4', test: /Matrix4x4\s*\(/, order: 'column', groups: 'vectors' },
+  { format: 'LaTeX', test: /\\begin\s*\{[bpvBV]?matrix\}|\\\\/, order: 'row', groups: 'latex' },
+  { format: 'NumPy / JSON rows', test: /\[\s*\[/, order: 'row', groups: 'brackets' },
+  { format: 'MATLAB', test: /\[[^\]]*;[^\]]*\]/, order: 'row', groups: 'semicolons' },
+];
+
+function stripComments(text: string): string {
+  return text
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/\/\/.*$/gm, ' ')
+    .replace(/(^|[^\\])%.*$/gm, '$1 ')
+    .replace(/^\s*#.*$/gm, ' ');
+}
+
+function numbersIn(text: string): number[] {
+  return (text.match(NUMBER) ?? []).map(Number);
+}
+
+// Groups of numbers per row (or column), or null for a flat list
+function groupsFor(layout: Layout, text: string): number[][] | null {
+  switch (layout.groups) {
+    case 'flat':
+      return null;
+    case 'vectors':
+      return [...text.matchAll(/Vector4\s*\(([^)]*)\)/g)].map(match => numbersIn(match[1]));
+    case 'latex': {
+      const body = text.match(/\\begin\s*\{\w*\}([\s\S]*?)\\end\s*\{\w*\}/)?.[1] ?? text;
+      return body.split(/\\\\/).map(numbersIn).filter(row => row.length > 0);
+    }
+    case 'brackets':
+      // The innermost [...] groups are the rows
+      return [...text.matchAll(/\[([^[\]]*)\]/g)].map(match => numbersIn(match[1])).filter(row => row.length > 0);
+    case 'semicolons': {
+      const body = text.match(/\[([^\]]*)\]/)?.[1] ?? text;
+      return body.split(';').map(numbersIn).filter(row => row.length > 0);
+    }
+  }
+}
+
+// Lines of a plain grid; only trusted when every line has the same length
+function gridLines(text: string): number[][] | null {
+  const lines = text.split(/\r?\n/).map(numbersIn).filter(row => row.length > 0);
+  if (lines.length < 3 || lines.some(row => row.length !== lines[0].length)) return null;
+  return lines;
+}
+
+function fromGroups(format: string, groups: number[][], order: MatrixOrder): ParsedMatrix {
+  const size = groups.length;
+  if (size !== 3 && size !== 4) {
+    throw new MatrixParseError(`Found ${size} ${order === 'row' ? 'rows' : 'columns'}; expected 3 or 4`);
+  }
+  const uneven = groups.findIndex(group => group.length !== size);
+  if (uneven !== -1) {
+    throw new MatrixParseError(
+      `${order === 'row' ? 'Row' : 'Column'} ${uneven + 1} has ${groups[uneven].length} values; expected ${size}`
+    );
+  }
+  return { format, size, values: groups.flat(), order };
+}
+
+function fromFlat(format: string, values: number[], order: MatrixOrder | null): ParsedMatrix {
+  if (values.length !== 9 && values.length !== 16) {
+    throw new MatrixParseError(`Found ${values.length} numbers; expected 9 (3×3) or 16 (4×4)`);
+  }
+  return { format, size: values.length === 9 ? 3 : 4, values, order };
+}
+
+export function parseMatrixText(text: string): ParsedMatrix {
+  const source = stripComments(text);
+  const layout = LAYOUTS.find(candidate => candidate.test.test(source));
+
+  if (layout) {
+    const groups = groupsFor(layout, source);
+    if (groups) return fromGroups(layout.format, groups, layout.order);
+    // Skip the constructor name so a Matrix4 or mat4 does not count as a value
+    const args = source.slice(source.search(layout.test)).replace(layout.test, ' ');
+    return fromFlat(layout.format, numbersIn(args), layout.order);
+  }
+
+  const lines = gridLines(source);
+  if (lines) return fromGroups('CSV / whitespace grid', lines, 'row');
+
+  const values = numbersIn(source);
+  if (values.length === 0) throw new MatrixParseError('No numbers found');
+  return fromFlat(source.trim().startsWith('[') ? 'JSON array' : 'Number list', values, null);
+}
+
+// three.js Matrix4 elements (column-major); a 3×3 becomes the linear part
+export function toMatrix4(parsed: ParsedMatrix, order: MatrixOrder): THREE.Matrix4 {
+  const { size, values } = parsed;
+  const at = (row: number, col: number) => values[order === 'row' ? row * size + col : col * size + row];
+
+  const matrix = new THREE.Matrix4();
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      matrix.elements[col * 4 + row] = at(row, col);
+    }
+  }
+  return matrix;
+}
@@ -0,0 +1,168 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { SceneObject } from '../types';
+import { MeshGeometry } from './api';
+import { createMesh, randomObjectColor } from './geometry';
+
+// OBJ and STL files become 'mesh' objects. Every part of the file is merged
+// into one non-indexed triangle list, which is what gets saved (as base64
+// Float32) and rebuilt on load. Imported geometry is centred and scaled to
+// the unit size of the built-in shapes, so the object starts at identity.
+
+export const MESH_FILE_ACCEPT = '.obj,.stl';
+
+// Keeps a saved scene to a few megabytes
+export const MAX_MESH_TRIANGLES = 100_000;
+
+// Thrown with a message fit for a toast
+export class MeshImportError extends Error {}
+
+export function isMeshFile(file: File): boolean {
+  return /\.(obj|stl)$/i.test(file.name);
+}
+
+// One triangle list from several parts; normals are kept only if every part has them
+export function mergeTriangles(parts: THREE.BufferGeometry[]): THREE.BufferGeometry {
+  const flat = parts.map(part => (part.index ? part.toNonIndexed() : part));
+  const withNormals = flat.length > 0 && flat.every(part => part.getAttribute('normal'));
+  const concat = (name: string) => {
+    const arrays = flat.map(part => part.getAttribute(name).array as ArrayLike<number>);
+    const merged = new Float32Array(arrays.reduce((sum, array) => sum + array.length, 0));
+    arrays.reduce((offset, array) => {
+      merged.set(array, offset);
+      return offset + array.length;
+    }, 0);
+    return merged;
+  };
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(concat('position'), 3));
+  if (withNormals) geometry.setAttribute('normal', new THREE.BufferAttribute(concat('normal'), 3));
+  return geometry;
+}
+
+// Every mesh in the file with its group transform baked in; lines and points are dropped
+function parseObj(text: string): THREE.BufferGeometry {
+  const group = new OBJLoader().parse(text);
+  group.updateMatrixWorld(true);
+  const parts: THREE.BufferGeometry[] = [];
+  group.traverse((child: THREE.Object3D) => {
+    const mesh = child as THREE.Mesh;
+    if (mesh.isMesh) parts.push(mesh.geometry.clone().applyMatrix4(mesh.matrixWorld));
+  });
+  return mergeTriangles(parts);
+}
+
+// Binary and ASCII STL alike
+function parseStl(data: ArrayBuffer): THREE.BufferGeometry {
+  return new STLLoader().parse(data);
+}
+
+export function triangleCount(geometry: THREE.BufferGeometry): number {
+  return Math.floor((geometry.getAttribute('position')?.count ?? 0) / 3);
+}
+
+// Throws if the geometry is empty or too large to save
+export function checkTriangleCount(geometry: THREE.BufferGeometry, source: string) {
+  const triangles = triangleCount(geometry);
+  if (triangles === 0) throw new MeshImportError(`${source} contains no triangles`);
+  if (triangles > MAX_MESH_TRIANGLES) {
+    throw new MeshImportError(
+      `${source} has ${triangles.toLocaleString()} triangles; the limit is ${MAX_MESH_TRIANGLES.toLocaleString()}`
+    );
+  }
+}
+
+// Centres the bounding box on the origin and fits its largest side to 1
+function normalize(geometry: THREE.BufferGeometry) {
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const center = box.getCenter(new THREE.Vector3());
+  const size = box.getSize(new THREE.Vector3());
+  const largest = Math.max(size.x, size.y, size.z);
+  geometry.translate(-center.x, -center.y, -center.z);
+  if (largest > 0) geometry.scale(1 / largest, 1 / largest, 1 / largest);
+}
+
+export async function meshObjectFromFile(file: File, wireframe: boolean): Promise<SceneObject> {
+  let geometry: THREE.BufferGeometry;
+  try {
+    if (/\.obj$/i.test(file.name)) {
+      geometry = parseObj(await file.text());
+    } else if (/\.stl$/i.test(file.name)) {
+      geometry = parseStl(await file.arrayBuffer());
+    } else {
+      throw new MeshImportError(`${file.name} is not an OBJ or STL file`);
+    }
+  } catch (err) {
+    if (err instanceof MeshImportError) throw err;
+    throw new MeshImportError(`Could not read ${file.name}: ${(err as Error).message}`);
+  }
+
+  checkTriangleCount(geometry, file.name);
+  normalize(geometry);
+  if (!geometry.getAttribute('normal')) geometry.computeVertexNormals();
+
+  const color = randomObjectColor();
+  const mesh = createMesh('mesh', color, wireframe, geometry);
+  return {
+    // Several files can be dropped within the same millisecond
+    id: `mesh_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+    name: file.name.replace(/\.[^.]+$/, '') || 'Mesh',
+    type: 'mesh',
+    parentId: null,
+    mesh,
+    position: mesh.position.clone(),
+    rotation: mesh.rotation.clone(),
+    scale: mesh.scale.clone(),
+    matrix: mesh.matrix.clone(),
+    rawMatrix: null,
+    color,
+    visible: true
+  };
+}
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+// Chunked so large buffers stay within the argument limit of fromCharCode
+function toBase64(array: Float32Array): string {
+  const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Float32Array {
+  const binary = atob(text);
+  if (binary.length % 4 !== 0) throw new Error('Mesh data is not a whole number of floats');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Float32Array(bytes.buffer);
+}
+
+export function encodeGeometry(geometry: THREE.BufferGeometry): MeshGeometry {
+  const flat = geometry.index ? geometry.toNonIndexed() : geometry;
+  const attribute = (name: string) => Float32Array.from(flat.getAttribute(name).array as ArrayLike<number>);
+  return {
+    positions: toBase64(attribute('position')),
+    ...(flat.getAttribute('normal') ? { normals: toBase64(attribute('normal')) } : {}),
+  };
+}
+
+export function decodeGeometry(data: MeshGeometry): THREE.BufferGeometry {
+  const positions = fromBase64(data.positions);
+  if (positions.length % 9 !== 0) throw new Error('Mesh data is not a whole number of triangles');
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  const normals = data.normals ? fromBase64(data.normals) : null;
+  if (normals && normals.length === positions.length) {
+    geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  } else {
+    geometry.computeVertexNormals();
+  }
+  return geometry;
+}
@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { ViewportCamera } from './camera';
+
+// The path of one vertex from the object's own coordinates to a pixel:
+//
+//   world  = M · object          (model: the mesh's world matrix)
+//   view   = V · world           (camera.matrixWorldInverse)
+//   clip   = P · view            (camera.projectionMatrix)
+//   ndc    = clip.xyz / clip.w   (perspective divide)
+//   window = S · ndc             (viewport transform to pixels and depth)
+//
+// Window y grows downwards from the top-left corner and depth runs 0 to 1,
+// as in the depth buffer.
+
+export type PipelineStageKey = 'object' | 'world' | 'view' | 'clip' | 'ndc' | 'window';
+
+export interface PipelineStage {
+  key: PipelineStageKey;
+  label: string;
+  // Homogeneous coordinates; w is 1 everywhere but clip space
+  point: THREE.Vector4;
+  // The matrix that produced this stage from the previous one (none for the
+  // object stage and the perspective divide)
+  matrix: THREE.Matrix4 | null;
+  matrixLabel: string | null;
+}
+
+// Maps NDC [-1, 1]³ to window pixels and [0, 1] depth
+export function viewportMatrix(width: number, height: number): THREE.Matrix4 {
+  return new THREE.Matrix4().set(
+    width / 2, 0, 0, width / 2,
+    0, -height / 2, 0, height / 2,
+    0, 0, 0.5, 0.5,
+    0, 0, 0, 1
+  );
+}
+
+export function vertexPosition(mesh: THREE.Mesh, index: number): THREE.Vector3 | null {
+  const positions = mesh.geometry.getAttribute('position');
+  if (!positions || index < 0 || index >= positions.count) return null;
+  return new THREE.Vector3().fromBufferAttribute(positions, index);
+}
+
+// Reads the mesh's and camera's current matrices; both must be up to date
+// (the renderer refreshes them every frame)
+export function pipelineStages(
+  mesh: THREE.Mesh,
+  index: number,
+  camera: ViewportCamera,
+  size: { width: number; height: number }
+): PipelineStage[] | null {
+  const position = vertexPosition(mesh, index);
+  if (!position) return null;
+
+  const model = mesh.matrixWorld.clone();
+  const view = camera.matrixWorldInverse.clone();
+  const projection = camera.projectionMatrix.clone();
+  const toWindow = viewportMatrix(size.width, size.height);
+
+  const object = new THREE.Vector4(position.x, position.y, position.z, 1);
+  const world = object.clone().applyMatrix4(model);
+  const eye = world.clone().applyMatrix4(view);
+  const clip = eye.clone().applyMatrix4(projection);
+  const ndc = new THREE.Vector4(clip.x / clip.w, clip.y / clip.w, clip.z / clip.w, 1);
+  const pixel = ndc.clone().applyMatrix4(toWindow);
+
+  return [
+    { key: 'object', label: 'Object', point: object, matrix: null, matrixLabel: null },
+    { key: 'world', label: 'World', point: world, matrix: model, matrixLabel: 'Model M' },
+    { key: 'view', label: 'View (eye)', point: eye, matrix: view, matrixLabel: 'View V' },
+    { key: 'clip', label: 'Clip', point: clip, matrix: projection, matrixLabel: 'Projection P' },
+    { key: 'ndc', label: 'NDC', point: ndc, matrix: null, matrixLabel: 'Divide by w' },
+    { key: 'window', label: 'Window', point: pixel, matrix: toWindow, matrixLabel: 'Viewport S' },
+  ];
+}
+
+// True when the vertex is outside the view volume, which in clip space is
+// -w ≤ x, y, z ≤ w
+export function isClipped(clip: THREE.Vector4): boolean {
+  return clip.w <= 0 || [clip.x, clip.y, clip.z].some(v => Math.abs(v) > clip.w);
+}
+
+// The picked corner of a raycast hit: whichever of the face's three vertices
+// lies nearest the hit point
+export function nearestFaceVertex(hit: THREE.Intersection): number | null {
+  const mesh = hit.object;
+  if (!(mesh instanceof THREE.Mesh) || !hit.face) return null;
+  const local = mesh.worldToLocal(hit.point.clone());
+  let best: number | null = null;
+  let bestDistance = Infinity;
+  [hit.face.a, hit.face.b, hit.face.c].forEach(index => {
+    const position = vertexPosition(mesh, index);
+    const distance = position ? position.distanceToSquared(local) : Infinity;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  });
+  return best;
+}
@@ -0,0 +1,184 @@
+import * as THREE from 'three';
+import { ViewportCamera } from './camera';
+import { vertexPosition } from './pipeline';
+
+// Two insets in the active pane's lower right corner for the MVP pipeline: the
+// world seen from outside the camera, with its frustum drawn in, and the NDC
+// cube with the selected mesh's vertices after projection and the divide.
+// Both share the main renderer and are drawn with the scissor test after the
+// panes each frame; a new pair is made whenever the active pane's camera is.
+
+const INSET_GAP = 8;
+const MAX_INSET_WIDTH = 260;
+// Beyond this many vertices the NDC view draws an even sample of them
+const MAX_NDC_POINTS = 20000;
+const vertexColor = 0xff9f43;
+
+export interface InsetRect {
+  // CSS pixels from the top-left corner of the pane, or of the canvas for a pane
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export function pipelineInsetRects(width: number, height: number): { world: InsetRect; ndc: InsetRect } {
+  const insetWidth = Math.min(MAX_INSET_WIDTH, (width - 3 * INSET_GAP) / 2);
+  const insetHeight = insetWidth * 0.75;
+  const top = height - insetHeight - INSET_GAP;
+  return {
+    world: { left: width - 2 * (insetWidth + INSET_GAP), top, width: insetWidth, height: insetHeight },
+    ndc: { left: width - insetWidth - INSET_GAP, top, width: insetWidth, height: insetHeight },
+  };
+}
+
+export interface PipelineFrame {
+  renderer: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  // The pane the insets sit in
+  area: InsetRect;
+  // The point the main camera orbits
+  target: THREE.Vector3;
+  mesh: THREE.Mesh | null;
+  vertexIndex: number | null;
+  background: THREE.Color;
+}
+
+export function createPipelineInsets(camera: ViewportCamera) {
+  // Added to the scene only while the world inset is drawn
+  const frustum = new THREE.CameraHelper(camera);
+  const outsideCamera = new THREE.PerspectiveCamera(50, 4 / 3, 0.1, 10000);
+
+  const ndcScene = new THREE.Scene();
+  const ndcCamera = new THREE.PerspectiveCamera(40, 4 / 3, 0.1, 100);
+  // NDC z points into the screen, so the near face (z = -1) is the one towards this camera
+  ndcCamera.position.set(3.2, 2.4, -4.8);
+  ndcCamera.lookAt(0, 0, 0);
+  const cubeGeometry = new THREE.BoxGeometry(2, 2, 2);
+  const cube = new THREE.LineSegments(
+    new THREE.EdgesGeometry(cubeGeometry),
+    new THREE.LineBasicMaterial({ color: 0x888888 })
+  );
+  const axes = new THREE.AxesHelper(1.3);
+  const points = new THREE.Points(
+    new THREE.BufferGeometry(),
+    new THREE.PointsMaterial({ size: 2, sizeAttenuation: false, color: 0x4ecdc4 })
+  );
+  points.frustumCulled = false;
+  const markerGeometry = new THREE.SphereGeometry(0.05, 12, 8);
+  const markerMaterial = new THREE.MeshBasicMaterial({ color: vertexColor, depthTest: false });
+  const ndcMarker = new THREE.Mesh(markerGeometry, markerMaterial);
+  ndcMarker.renderOrder = 1;
+  ndcScene.add(cube, axes, points, ndcMarker);
+
+  const mvp = new THREE.Matrix4();
+  const v = new THREE.Vector4();
+
+  // Projects the mesh's vertices (or an even sample of them) into NDC,
+  // dropping those behind the camera, where the divide flips them
+  function updatePoints(mesh: THREE.Mesh | null) {
+    const positions = mesh?.geometry.getAttribute('position');
+    if (!mesh || !positions) {
+      points.visible = false;
+      return;
+    }
+    const stride = Math.ceil(positions.count / MAX_NDC_POINTS);
+    const capacity = Math.ceil(positions.count / stride) * 3;
+    let attribute = points.geometry.getAttribute('position') as THREE.BufferAttribute | undefined;
+    if (!attribute || attribute.array.length !== capacity) {
+      attribute = new THREE.BufferAttribute(new Float32Array(capacity), 3);
+      points.geometry.setAttribute('position', attribute);
+    }
+    const array = attribute.array as Float32Array;
+    let count = 0;
+    for (let i = 0; i < positions.count; i += stride) {
+      v.set(positions.getX(i), positions.getY(i), positions.getZ(i), 1).applyMatrix4(mvp);
+      if (v.w <= 0) continue;
+      array[count * 3] = v.x / v.w;
+      array[count * 3 + 1] = v.y / v.w;
+      array[count * 3 + 2] = v.z / v.w;
+      count++;
+    }
+    attribute.needsUpdate = true;
+    points.geometry.setDrawRange(0, count);
+    points.visible = true;
+  }
+
+  function placeNdcMarker(mesh: THREE.Mesh | null, index: number | null) {
+    const position = mesh && index !== null ? vertexPosition(mesh, index) : null;
+    if (!position) {
+      ndcMarker.visible = false;
+      return;
+    }
+    v.set(position.x, position.y, position.z, 1).applyMatrix4(mvp);
+    ndcMarker.visible = v.w > 0;
+    ndcMarker.position.set(v.x / v.w, v.y / v.w, v.z / v.w);
+  }
+
+  // Looks at the camera and its target from the side, far enough back to see both
+  function placeOutsideCamera(target: THREE.Vector3) {
+    const offset = camera.position.clone().sub(target);
+    const distance = Math.max(offset.length(), 1);
+    const up = new THREE.Vector3(0, 1, 0);
+    let side = offset.clone().cross(up);
+    if (side.lengthSq() < 1e-8) side = new THREE.Vector3(1, 0, 0);
+    side.normalize();
+    const center = target.clone().addScaledVector(offset, 0.5);
+    outsideCamera.position.copy(center)
+      .addScaledVector(side, distance * 1.6)
+      .addScaledVector(up, distance * 0.8);
+    outsideCamera.lookAt(center);
+  }
+
+  function renderInset(renderer: THREE.WebGLRenderer, rect: InsetRect, height: number, draw: () => void) {
+    const bottom = height - rect.top - rect.height;
+    renderer.setViewport(rect.left, bottom, rect.width, rect.height);
+    renderer.setScissor(rect.left, bottom, rect.width, rect.height);
+    draw();
+  }
+
+  return {
+    render({ renderer, scene, area, target, mesh, vertexIndex, background }: PipelineFrame) {
+      const size = renderer.getSize(new THREE.Vector2());
+      const rects = pipelineInsetRects(area.width, area.height);
+      if (rects.world.width < 40) return;
+      [rects.world, rects.ndc].forEach(rect => {
+        rect.left += area.left;
+        rect.top += area.top;
+      });
+
+      camera.updateMatrixWorld();
+      if (mesh) mvp.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse).multiply(mesh.matrixWorld);
+      updatePoints(mesh);
+      placeNdcMarker(mesh, vertexIndex);
+      frustum.update();
+      placeOutsideCamera(target);
+      outsideCamera.aspect = ndcCamera.aspect = rects.world.width / rects.world.height;
+      outsideCamera.updateProjectionMatrix();
+      ndcCamera.updateProjectionMatrix();
+      ndcScene.background = background;
+
+      scene.add(frustum);
+      renderer.setScissorTest(true);
+      renderInset(renderer, rects.world, size.y, () => renderer.render(scene, outsideCamera));
+      renderInset(renderer, rects.ndc, size.y, () => renderer.render(ndcScene, ndcCamera));
+      renderer.setScissorTest(false);
+      renderer.setViewport(0, 0, size.x, size.y);
+      scene.remove(frustum);
+    },
+
+    dispose() {
+      frustum.dispose();
+      cubeGeometry.dispose();
+      cube.geometry.dispose();
+      (cube.material as THREE.Material).dispose();
+      axes.dispose();
+      points.geometry.dispose();
+      (points.material as THREE.Material).dispose();
+      markerGeometry.dispose();
+      markerMaterial.dispose();
+    },
+  };
+}
+
+export type PipelineInsets = ReturnType<typeof createPipelineInsets>;
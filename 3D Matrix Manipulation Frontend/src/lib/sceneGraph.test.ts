@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { SceneObject } from '../types';
+import { createMesh } from './geometry';
+import { clearRawMatrix, isDecomposable, localMatrix, setLocalMatrix, treeOrder } from './sceneGraph';
+
+const sceneObject = (id: string, parentId: string | null = null): SceneObject => ({
+  id,
+  name: id,
+  type: 'cube',
+  parentId,
+  mesh: createMesh('cube', '#ffffff', false),
+  position: new THREE.Vector3(),
+  rotation: new THREE.Euler(),
+  scale: new THREE.Vector3(1, 1, 1),
+  matrix: new THREE.Matrix4(),
+  rawMatrix: null,
+  color: '#ffffff',
+  visible: true,
+});
+
+const trs = () =>
+  new THREE.Matrix4().compose(
+    new THREE.Vector3(1, -2, 3),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(0.3, -1.2, 2)),
+    new THREE.Vector3(2, 0.5, 3)
+  );
+
+const shear = () => new THREE.Matrix4().makeShear(0.5, 0, 0, 0, 0, 0);
+
+describe('isDecomposable', () => {
+  it('accepts T · R · S, including a reflection', () => {
+    expect(isDecomposable(trs())).toBe(true);
+    expect(isDecomposable(new THREE.Matrix4().makeScale(-1, 1, 1))).toBe(true);
+  });
+
+  it('rejects shear and projection', () => {
+    expect(isDecomposable(shear())).toBe(false);
+    const projection = new THREE.Matrix4();
+    projection.elements[3] = 0.25;
+    expect(isDecomposable(projection)).toBe(false);
+  });
+});
+
+describe('setLocalMatrix', () => {
+  it('keeps a decomposable matrix as position, rotation and scale', () => {
+    const obj = sceneObject('a');
+    setLocalMatrix(obj, trs());
+    expect(obj.rawMatrix).toBeNull();
+    expect(obj.mesh.matrixAutoUpdate).toBe(true);
+    localMatrix(obj).elements.forEach((e, i) => expect(e).toBeCloseTo(trs().elements[i]));
+  });
+
+  it('stores a shear verbatim and drops it again on clear', () => {
+    const obj = sceneObject('a');
+    setLocalMatrix(obj, shear());
+    expect(obj.rawMatrix?.equals(shear())).toBe(true);
+    expect(obj.mesh.matrixAutoUpdate).toBe(false);
+    expect(localMatrix(obj).equals(shear())).toBe(true);
+
+    clearRawMatrix(obj);
+    expect(obj.rawMatrix).toBeNull();
+    expect(obj.mesh.matrixAutoUpdate).toBe(true);
+  });
+});
+
+describe('treeOrder', () => {
+  it('lists each object before its children, depth first', () => {
+    const objects = [sceneObject('a'), sceneObject('b'), sceneObject('c', 'a'), sceneObject('d', 'c')];
+    expect(treeOrder(objects).map(obj => obj.id)).toEqual(['a', 'c', 'd', 'b']);
+  });
+});
@@ -0,0 +1,185 @@
+import * as THREE from 'three';
+import { SceneObject } from '../types';
+
+// Object transforms are local to their parent; these helpers compose them
+// along the parentId chain without relying on the viewport's Object3D tree.
+
+export function localMatrix(obj: SceneObject): THREE.Matrix4 {
+  if (obj.rawMatrix) return obj.rawMatrix.clone();
+  return new THREE.Matrix4().compose(
+    obj.position,
+    new THREE.Quaternion().setFromEuler(obj.rotation),
+    obj.scale
+  );
+}
+
+export function findParent(objects: SceneObject[], obj: SceneObject): SceneObject | undefined {
+  return obj.parentId ? objects.find(o => o.id === obj.parentId) : undefined;
+}
+
+export function parentWorldMatrix(objects: SceneObject[], obj: SceneObject): THREE.Matrix4 {
+  const parent = findParent(objects, obj);
+  return parent ? worldMatrix(objects, parent) : new THREE.Matrix4();
+}
+
+export function worldMatrix(objects: SceneObject[], obj: SceneObject): THREE.Matrix4 {
+  return parentWorldMatrix(objects, obj).multiply(localMatrix(obj));
+}
+
+// True when `ancestorId` is `id` itself or one of its ancestors
+export function isAncestor(objects: SceneObject[], ancestorId: string, id: string): boolean {
+  let current = objects.find(o => o.id === id);
+  while (current) {
+    if (current.id === ancestorId) return true;
+    current = findParent(objects, current);
+  }
+  return false;
+}
+
+export function childrenOf(objects: SceneObject[], parentId: string | null): SceneObject[] {
+  return objects.filter(obj => (obj.parentId ?? null) === parentId);
+}
+
+// Every object in the order the hierarchy lists them: each parent before its
+// children, depth first
+export function treeOrder(objects: SceneObject[], parentId: string | null = null): SceneObject[] {
+  return childrenOf(objects, parentId).flatMap(obj => [obj, ...treeOrder(objects, obj.id)]);
+}
+
+// Relative to the element size, the largest mismatch at which
+// compose(decompose(M)) still counts as reproducing M
+const TRS_TOLERANCE = 1e-6;
+
+function decomposeTRS(matrix: THREE.Matrix4) {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  matrix.decompose(position, quaternion, scale);
+
+  // A singular linear part (e.g. a projection) has no rotation to recover
+  if (![quaternion.x, quaternion.y, quaternion.z, quaternion.w].every(Number.isFinite)) {
+    quaternion.identity();
+  }
+  return { position, quaternion, scale };
+}
+
+// True when the matrix is exactly T · R · S, with no shear or projection
+export function isDecomposable(matrix: THREE.Matrix4): boolean {
+  const { position, quaternion, scale } = decomposeTRS(matrix);
+  const recomposed = new THREE.Matrix4().compose(position, quaternion, scale);
+  return recomposed.elements.every((v, i) =>
+    Math.abs(v - matrix.elements[i]) <= TRS_TOLERANCE * Math.max(1, Math.abs(matrix.elements[i]))
+  );
+}
+
+// Makes `matrix` the object's local transform. A plain T · R · S goes back to
+// position/rotation/scale; anything else is kept verbatim as rawMatrix, with
+// the TRS fields holding the closest decomposition for display.
+// Mutates the object and its mesh in place.
+export function setLocalMatrix(obj: SceneObject, matrix: THREE.Matrix4) {
+  const { mesh } = obj;
+  const { position, quaternion, scale } = decomposeTRS(matrix);
+  mesh.position.copy(position);
+  mesh.quaternion.copy(quaternion);
+  mesh.scale.copy(scale);
+
+  if (isDecomposable(matrix)) {
+    obj.rawMatrix = null;
+    mesh.matrixAutoUpdate = true;
+    mesh.updateMatrix();
+  } else {
+    obj.rawMatrix = matrix.clone();
+    mesh.matrixAutoUpdate = false;
+    mesh.matrix.copy(matrix);
+  }
+  mesh.matrixWorldNeedsUpdate = true;
+
+  obj.position.copy(mesh.position);
+  obj.rotation.copy(mesh.rotation);
+  obj.scale.copy(mesh.scale);
+  obj.matrix.copy(mesh.matrix);
+}
+
+// Drops a raw matrix so position/rotation/scale drive the mesh again
+export function clearRawMatrix(obj: SceneObject) {
+  if (!obj.rawMatrix) return;
+  obj.rawMatrix = null;
+  obj.mesh.matrixAutoUpdate = true;
+}
+
+// Returns a new objects array with `id` attached to `parentId` (null = scene root).
+// With keepWorld the local transform is rewritten as inverse(parentWorld) · world
+// so the object does not move; shear introduced by a non-uniformly scaled
+// parent makes it a raw matrix.
+export function reparent(
+  objects: SceneObject[],
+  id: string,
+  parentId: string | null,
+  keepWorld: boolean
+): SceneObject[] {
+  const obj = objects.find(o => o.id === id);
+  if (!obj || (obj.parentId ?? null) === parentId) return objects;
+  if (parentId && isAncestor(objects, id, parentId)) return objects;
+
+  if (keepWorld) {
+    const world = worldMatrix(objects, obj);
+    const parent = parentId ? objects.find(o => o.id === parentId) : undefined;
+    const parentWorld = parent ? worldMatrix(objects, parent) : new THREE.Matrix4();
+    setLocalMatrix(obj, parentWorld.invert().multiply(world));
+  }
+
+  return objects.map(o => (o.id === id ? { ...o, parentId } : o));
+}
+
+// Selected objects whose ancestors are not selected too; descendants follow
+// their parent, so transforming them as well would apply the change twice
+export function topLevelSelection(objects: SceneObject[], ids: string[]): SceneObject[] {
+  const selected = new Set(ids);
+  return objects.filter(obj => {
+    if (!selected.has(obj.id)) return false;
+    for (let p = findParent(objects, obj); p; p = findParent(objects, p)) {
+      if (selected.has(p.id)) return false;
+    }
+    return true;
+  });
+}
+
+export function selectionPivot(
+  objects: SceneObject[],
+  ids: string[],
+  activeId: string | null,
+  mode: 'centroid' | 'active' | 'origin'
+): THREE.Vector3 {
+  const worldPosition = (obj: SceneObject) => new THREE.Vector3().setFromMatrixPosition(worldMatrix(objects, obj));
+  const selected = objects.filter(obj => ids.includes(obj.id));
+
+  if (mode === 'active') {
+    const active = selected.find(obj => obj.id === activeId);
+    if (active) return worldPosition(active);
+  }
+  if (mode === 'origin' || selected.length === 0) {
+    return new THREE.Vector3();
+  }
+
+  return selected
+    .reduce((sum, obj) => sum.add(worldPosition(obj)), new THREE.Vector3())
+    .divideScalar(selected.length);
+}
+
+// Pre-multiplies the world matrix of every top-level selected object by the
+// world-space `delta`, so relative offsets inside the selection are preserved.
+// Mutates the objects' meshes and transform vectors in place.
+export function transformSelection(objects: SceneObject[], ids: string[], delta: THREE.Matrix4) {
+  topLevelSelection(objects, ids).forEach(obj => {
+    const world = delta.clone().multiply(worldMatrix(objects, obj));
+    setLocalMatrix(obj, parentWorldMatrix(objects, obj).invert().multiply(world));
+  });
+}
+
+// Matrix for a rotation/scale about `pivot`: T(p) · M · T(-p)
+export function aboutPivot(matrix: THREE.Matrix4, pivot: THREE.Vector3): THREE.Matrix4 {
+  return new THREE.Matrix4()
+    .makeTranslation(pivot.x, pivot.y, pivot.z)
+    .multiply(matrix)
+    .multiply(new THREE.Matrix4().makeTranslation(-pivot.x, -pivot.y, -pivot.z));
+}
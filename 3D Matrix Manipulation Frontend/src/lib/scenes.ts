@@ -0,0 +1,57 @@
+import * as THREE from 'three';
+import { SceneObject } from '../types';
+import { SavedObject } from './api';
+import { createMesh } from './geometry';
+import { decodeGeometry, encodeGeometry } from './meshes';
+
+// The live mesh is the source of truth for transforms; the SceneObject copies
+// are only refreshed for the selected object. Transforms are local to parentId;
+// a raw (non-TRS) matrix is saved in full alongside its approximate TRS, and an
+// imported mesh carries its triangles.
+export function toSavedObject(obj: SceneObject): SavedObject {
+  const { position, rotation, scale } = obj.mesh;
+  return {
+    id: obj.id,
+    name: obj.name,
+    type: obj.type,
+    parentId: obj.parentId,
+    position: { x: position.x, y: position.y, z: position.z },
+    rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+    scale: { x: scale.x, y: scale.y, z: scale.z },
+    ...(obj.rawMatrix ? { matrix: obj.rawMatrix.toArray() } : {}),
+    ...(obj.type === 'mesh' ? { geometry: encodeGeometry(obj.mesh.geometry) } : {}),
+    color: obj.color,
+    visible: obj.visible,
+  };
+}
+
+export function fromSavedObject(saved: SavedObject, wireframe: boolean): SceneObject {
+  const geometry = saved.type === 'mesh' && saved.geometry ? decodeGeometry(saved.geometry) : undefined;
+  const mesh = createMesh(saved.type, saved.color, wireframe, geometry);
+  mesh.position.set(saved.position.x, saved.position.y, saved.position.z);
+  mesh.rotation.set(saved.rotation.x, saved.rotation.y, saved.rotation.z);
+  mesh.scale.set(saved.scale.x, saved.scale.y, saved.scale.z);
+  mesh.visible = saved.visible;
+  mesh.updateMatrix();
+
+  const rawMatrix = saved.matrix ? new THREE.Matrix4().fromArray(saved.matrix) : null;
+  if (rawMatrix) {
+    mesh.matrixAutoUpdate = false;
+    mesh.matrix.copy(rawMatrix);
+  }
+
+  return {
+    id: saved.id,
+    name: saved.name,
+    type: saved.type,
+    parentId: saved.parentId ?? null,
+    mesh,
+    position: mesh.position.clone(),
+    rotation: mesh.rotation.clone(),
+    scale: mesh.scale.clone(),
+    matrix: mesh.matrix.clone(),
+    rawMatrix,
+    color: saved.color,
+    visible: saved.visible,
+  };
+}
@@ -0,0 +1,99 @@
+import * as THREE from 'three';
+
+// Parameterised transforms that TRS sliders cannot express. Each one is built
+// in the object's parent frame and applied on the left: M' = Op · M.
+
+export type SpecialTransformKind = 'shear' | 'reflect' | 'project' | 'axisRotation';
+
+export interface TransformField {
+  key: string;
+  label: string;
+  step: number;
+}
+
+export interface SpecialTransform {
+  kind: SpecialTransformKind;
+  title: string;
+  description: string;
+  groups: { label: string; fields: TransformField[] }[];
+  defaults: Record<string, number>;
+  // null when the parameters do not define a transform (e.g. a zero normal)
+  build: (params: Record<string, number>) => THREE.Matrix4 | null;
+}
+
+const vectorFields = (prefix: string, step = 0.1): TransformField[] =>
+  (['x', 'y', 'z'] as const).map(axis => ({ key: `${prefix}${axis.toUpperCase()}`, label: axis, step }));
+
+const vector = (p: Record<string, number>, prefix: string) =>
+  new THREE.Vector3(p[`${prefix}X`], p[`${prefix}Y`], p[`${prefix}Z`]);
+
+// L = I − k·nnᵀ about the plane through `point`: x' = L(x − p) + p.
+// k = 2 reflects, k = 1 drops the normal component (orthographic projection).
+function planeMatrix(normal: THREE.Vector3, point: THREE.Vector3, k: number): THREE.Matrix4 | null {
+  if (normal.lengthSq() === 0) return null;
+  const n = normal.clone().normalize();
+  const t = n.clone().multiplyScalar(k * n.dot(point));
+  return new THREE.Matrix4().set(
+    1 - k * n.x * n.x, -k * n.x * n.y, -k * n.x * n.z, t.x,
+    -k * n.y * n.x, 1 - k * n.y * n.y, -k * n.y * n.z, t.y,
+    -k * n.z * n.x, -k * n.z * n.y, 1 - k * n.z * n.z, t.z,
+    0, 0, 0, 1
+  );
+}
+
+export const specialTransforms: SpecialTransform[] = [
+  {
+    kind: 'shear',
+    title: 'Shear',
+    description: 'Each coordinate gains a multiple of the other two, as Matrix4.makeShear.',
+    groups: [
+      { label: "x' = x + a·y + b·z", fields: [{ key: 'yx', label: 'a', step: 0.1 }, { key: 'zx', label: 'b', step: 0.1 }] },
+      { label: "y' = y + a·x + b·z", fields: [{ key: 'xy', label: 'a', step: 0.1 }, { key: 'zy', label: 'b', step: 0.1 }] },
+      { label: "z' = z + a·x + b·y", fields: [{ key: 'xz', label: 'a', step: 0.1 }, { key: 'yz', label: 'b', step: 0.1 }] },
+    ],
+    defaults: { xy: 0, xz: 0, yx: 0.5, yz: 0, zx: 0, zy: 0 },
+    build: p => new THREE.Matrix4().makeShear(p.xy, p.xz, p.yx, p.yz, p.zx, p.zy),
+  },
+  {
+    kind: 'reflect',
+    title: 'Reflect across plane',
+    description: 'Mirrors the object through the plane with this normal passing through the point.',
+    groups: [
+      { label: 'Plane normal', fields: vectorFields('normal') },
+      { label: 'Point on plane', fields: vectorFields('point') },
+    ],
+    defaults: { normalX: 1, normalY: 0, normalZ: 0, pointX: 0, pointY: 0, pointZ: 0 },
+    build: p => planeMatrix(vector(p, 'normal'), vector(p, 'point'), 2),
+  },
+  {
+    kind: 'project',
+    title: 'Orthographic projection',
+    description: 'Flattens the object onto the plane along its normal. The result is singular and cannot be undone by inverting.',
+    groups: [
+      { label: 'Plane normal', fields: vectorFields('normal') },
+      { label: 'Point on plane', fields: vectorFields('point') },
+    ],
+    defaults: { normalX: 0, normalY: 1, normalZ: 0, pointX: 0, pointY: 0, pointZ: 0 },
+    build: p => planeMatrix(vector(p, 'normal'), vector(p, 'point'), 1),
+  },
+  {
+    kind: 'axisRotation',
+    title: 'Rotate about axis',
+    description: 'Rotates about the line through the point along the axis: T(p) · R(axis, θ) · T(−p).',
+    groups: [
+      { label: 'Axis direction', fields: vectorFields('axis') },
+      { label: 'Point on axis', fields: vectorFields('point') },
+      { label: 'Angle', fields: [{ key: 'degrees', label: 'deg', step: 5 }] },
+    ],
+    defaults: { axisX: 0, axisY: 1, axisZ: 0, pointX: 1, pointY: 0, pointZ: 0, degrees: 45 },
+    build: p => {
+      const axis = vector(p, 'axis');
+      if (axis.lengthSq() === 0) return null;
+      const point = vector(p, 'point');
+      return new THREE.Matrix4()
+        .makeTranslation(point.x, point.y, point.z)
+        .multiply(new THREE.Matrix4().makeRotationAxis(axis.normalize(), THREE.MathUtils.degToRad(p.degrees)))
+        .multiply(new THREE.Matrix4().makeTranslation(-point.x, -point.y, -point.z));
+    },
+  },
+];
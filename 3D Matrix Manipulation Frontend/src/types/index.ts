@@ -1,14 +1,23 @@
 import * as THREE from 'three';
 
+// 'mesh' objects carry geometry imported from a file (see lib/meshes.ts)
+export type ObjectType = 'cube' | 'sphere' | 'cylinder' | 'plane' | 'mesh';
+
 export interface SceneObject {
   id: string;
   name: string;
-  type: 'cube' | 'sphere' | 'cylinder' | 'plane';
+  type: ObjectType;
+  // Transforms below are local to the parent; null means attached to the scene root
+  parentId: string | null;
   mesh: THREE.Mesh;
   position: THREE.Vector3;
   rotation: THREE.Euler;
   scale: THREE.Vector3;
   matrix: THREE.Matrix4;
+  // Set when the local transform is not a plain T · R · S (shear, projection):
+  // the mesh then uses this matrix verbatim and position/rotation/scale above
+  // are only its closest decomposition
+  rawMatrix: THREE.Matrix4 | null;
   color: string;
   visible: boolean;
 }
@@ -19,17 +28,163 @@ export interface Transform {
   scale: { x: number; y: number; z: number };
 }
 
+export type PaneView = 'top' | 'front' | 'side' | 'perspective';
+
+export interface ViewportPane {
+  view: PaneView;
+  projection: 'perspective' | 'orthographic';
+}
+
 export interface ViewportSettings {
   showGrid: boolean;
   showAxes: boolean;
   wireframe: boolean;
-  projection: 'perspective' | 'orthographic';
+  // One pane per view, always in the order top, front, side, perspective;
+  // the layout shows the active pane, two panes or all four
+  panes: ViewportPane[];
+  layout: 1 | 2 | 4;
+  // The pane whose camera the camera and pipeline panels follow
+  activePane: number;
+  transformMode: 'translate' | 'rotate' | 'scale';
+  transformSpace: 'local' | 'world';
+  // Point that multi-object rotations and scales are applied about
+  pivotMode: 'centroid' | 'active' | 'origin';
+  // Animate applied matrices factor by factor instead of jumping
+  explainMode: boolean;
+  // Overlay the selected object's real eigenvectors and rotation axis
+  showEigenvectors: boolean;
+  // Camera projection: vertical field of view in degrees (perspective),
+  // visible height in world units (orthographic), and the clip planes
+  fov: number;
+  frustumSize: number;
+  near: number;
+  far: number;
+  // Clicking the selected object picks a vertex for the MVP pipeline panel
+  pipelineMode: boolean;
+  // Inset showing the camera frustum in the world and the scene in NDC
+  showPipelineView: boolean;
+}
+
+// A vertex followed through the MVP pipeline: an index into the object's
+// position attribute
+export interface PipelineVertex {
+  objectId: string;
+  index: number;
+}
+
+// Step-by-step playback of a matrix being applied to an object
+export interface ExplainState {
+  objectId: string;
+  // Column-major target local matrix
+  target: number[];
+  // 0 = identity, 1 = target
+  progress: number;
+  playing: boolean;
+}
+
+export type TrackProperty = 'position' | 'rotation' | 'scale' | 'matrix';
+
+// step holds the previous key; cubic is Catmull-Rom through neighbouring keys;
+// slerp interpolates rotation as quaternions (for a matrix track: lerp
+// translation and scale, slerp rotation after decomposing both keys)
+export type Interpolation = 'step' | 'linear' | 'cubic' | 'slerp';
+
+export interface Keyframe {
+  // Seconds from the start of the timeline
+  time: number;
+  // 3 numbers for position/rotation (radians, XYZ order)/scale;
+  // 16 column-major numbers (Matrix4.elements) for matrix
+  value: number[];
+}
+
+export interface AnimationTrack {
+  objectId: string;
+  property: TrackProperty;
+  interpolation: Interpolation;
+  // Sorted by time
+  keyframes: Keyframe[];
+}
+
+export interface TimelineState {
+  tracks: AnimationTrack[];
+  duration: number;
+  currentTime: number;
+  playing: boolean;
+  loop: boolean;
+}
+
+export type CompositionKind = 'translate' | 'rotate' | 'scale' | 'shear' | 'reflect' | 'custom';
+
+// One elementary transform in an object's composition stack; the meaning of
+// params depends on kind (see lib/composition.ts)
+export interface CompositionEntry {
+  id: string;
+  kind: CompositionKind;
+  enabled: boolean;
+  params: number[];
+}
+
+// Undo/redo: each entry holds the scene as it was *before* the labelled action
+export interface SceneSnapshot {
+  objects: SceneObject[];
+  transforms: Record<string, Transform>;
+  // Column-major raw matrices of the objects that had one
+  rawMatrices: Record<string, number[]>;
+  selectedObjectId: string | null;
+  selectedObjectIds: string[];
+  transform: Transform;
+  tracks: AnimationTrack[];
+}
+
+export interface HistoryEntry {
+  label: string;
+  timestamp: number;
+  snapshot: SceneSnapshot;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  // Consecutive actions in the same open group (e.g. one slider drag) share an entry
+  openGroup: string | null;
+}
+
+export interface CurrentScene {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
+
+// Another person editing the same scene (see lib/collab.ts)
+export interface Collaborator {
+  clientId: string;
+  name: string;
+  color: string;
+  // Selected object ids, active object last
+  selection: string[];
 }
 
 export interface AppState {
   objects: SceneObject[];
+  // selectedObjectId is the active object (driven by the single-object
+  // controls); selectedObjectIds is the whole selection including it
   selectedObjectId: string | null;
+  selectedObjectIds: string[];
   transform: Transform;
   viewportSettings: ViewportSettings;
   theme: 'light' | 'dark';
+  currentScene: CurrentScene | null;
+  history: HistoryState;
+  timeline: TimelineState;
+  // Composition stack editor contents, keyed by object id
+  compositionStacks: Record<string, CompositionEntry[]>;
+  explain: ExplainState | null;
+  // The active pane's live camera, replaced when its projection changes.
+  // Orbiting mutates it without a dispatch, so read its matrices at the time of use.
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera | null;
+  // Size of the active pane in CSS pixels, for window coordinates
+  viewportSize: { width: number; height: number };
+  pipelineVertex: PipelineVertex | null;
+  // Everyone else in the live editing session; empty when not collaborating
+  collaborators: Collaborator[];
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { app } from './app';
+import { savedObject } from './fixtures';
+import { SceneRevisionSummary } from './types';
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const request = async (method: string, path: string, body?: unknown) => {
+  const res = await fetch(`${base}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+const revisions = async (id: string) =>
+  (await request('GET', `/api/scenes/${id}/revisions`)).body as SceneRevisionSummary[];
+
+// A scene saved three times: as 'First', with 'b' added, then renamed 'Third'
+async function sceneWithHistory(id: string) {
+  await request('POST', '/api/scenes', { id, name: 'First', objects: [savedObject('a')] });
+  await request('PUT', `/api/scenes/${id}`, { objects: [savedObject('a'), savedObject('b')] });
+  return request('PUT', `/api/scenes/${id}`, { name: 'Third' });
+}
+
+describe('scene revisions', () => {
+  it('numbers each save one higher than the last', async () => {
+    const latest = await sceneWithHistory('numbered');
+    expect(latest).toMatchObject({ status: 200, body: { revision: 3, name: 'Third' } });
+
+    const list = await revisions('numbered');
+    expect(list.map(({ revision, name, objectCount }) => [revision, name, objectCount])).toEqual([
+      [3, 'Third', 2],
+      [2, 'First', 2],
+      [1, 'First', 1],
+    ]);
+  });
+
+  it('gets one revision with its objects', async () => {
+    await sceneWithHistory('single');
+    const { status, body } = await request('GET', '/api/scenes/single/revisions/1');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ sceneId: 'single', revision: 1, name: 'First', objects: [savedObject('a')] });
+  });
+
+  it('answers 404 for a missing scene or revision', async () => {
+    await sceneWithHistory('missing-revision');
+    expect(await request('GET', '/api/scenes/missing-revision/revisions/9')).toEqual({
+      status: 404,
+      body: { error: 'Revision not found' },
+    });
+    expect((await request('GET', '/api/scenes/missing-revision/revisions/first')).status).toBe(404);
+    expect((await request('GET', '/api/scenes/nowhere/revisions')).status).toBe(404);
+    expect((await request('POST', '/api/scenes/missing-revision/revisions/9/restore')).status).toBe(404);
+  });
+
+  it('restores an old revision as a new one, leaving history untouched', async () => {
+    await sceneWithHistory('restored');
+    const { status, body } = await request('POST', '/api/scenes/restored/revisions/1/restore');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ revision: 4, name: 'First', objects: [savedObject('a')] });
+
+    expect((await revisions('restored')).map(({ revision }) => revision)).toEqual([4, 3, 2, 1]);
+    expect((await request('GET', '/api/scenes/restored/revisions/3')).body).toMatchObject({
+      name: 'Third',
+      objects: [savedObject('a'), savedObject('b')],
+    });
+    expect((await request('GET', '/api/scenes/restored')).body).toMatchObject({ revision: 4, name: 'First' });
+  });
+});
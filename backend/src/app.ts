@@ -0,0 +1,261 @@
+import express from 'express';
+import cors from 'cors';
+import {
+  listScenes,
+  getScene,
+  saveScene,
+  deleteScene,
+  listRevisions,
+  getRevision,
+} from './store.js';
+import { diffRevisions } from './diff.js';
+import { MatrixError, invert4, isMat4, multiply4 } from './matrix.js';
+import { compose, decompose, parseComposeRequest } from './decompose.js';
+import { eigen, parsePart, polar, svd } from './spectral.js';
+import { ExpressionError, evaluate, parseVariables } from './expression.js';
+import { sceneSchema } from './sceneSchema.js';
+import { formatIssue, validateScene } from './validation.js';
+import { MatrixPart, Scene, ValidationIssue } from './types.js';
+
+// The HTTP API; index.ts serves it together with the collaboration WebSocket
+export const app = express();
+
+app.use(cors({ origin: 'http://localhost:3000' }));
+// Scenes with imported meshes carry their geometry inline, well past the 100kb default
+app.use(express.json({ limit: '16mb' }));
+
+// ── Scenes ────────────────────────────────────────────────────────────────────
+
+// 400 body for a scene that fails validation: the first issue as the message,
+// every issue (up to a cap) with its field path
+function invalidScene(res: express.Response, issues: ValidationIssue[]) {
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+  return res.status(400).json({ error: `Invalid scene: ${formatIssue(issues[0])}${more}`, issues });
+}
+
+// GET /api/schema/scene — JSON Schema for the body of POST and PUT /api/scenes
+app.get('/api/schema/scene', (_req, res) => {
+  res.json(sceneSchema);
+});
+
+// GET /api/scenes — list all saved scenes
+app.get('/api/scenes', (_req, res) => {
+  res.json(listScenes());
+});
+
+// GET /api/scenes/:id — get a single scene
+app.get('/api/scenes/:id', (req, res) => {
+  const scene = getScene(req.params.id);
+  if (!scene) return res.status(404).json({ error: 'Scene not found' });
+  return res.json(scene);
+});
+
+// POST /api/scenes — create or overwrite a scene
+app.post('/api/scenes', (req, res) => {
+  const issues = validateScene(req.body);
+  if (issues.length > 0) return invalidScene(res, issues);
+
+  const body = req.body as Pick<Scene, 'name' | 'objects'> & Partial<Scene>;
+  const now = new Date().toISOString();
+  const scene: Omit<Scene, 'revision'> = {
+    id: body.id ?? `scene_${Date.now()}`,
+    name: body.name,
+    createdAt: body.createdAt ?? now,
+    updatedAt: now,
+    objects: body.objects,
+    tracks: body.tracks ?? [],
+  };
+
+  return res.status(201).json(saveScene(scene));
+});
+
+// PUT /api/scenes/:id — update an existing scene (recorded as a new revision)
+app.put('/api/scenes/:id', (req, res) => {
+  const existing = getScene(req.params.id);
+  if (!existing) return res.status(404).json({ error: 'Scene not found' });
+
+  // Fields left out keep their stored values; the result is validated as a whole
+  const { name, objects, tracks } = existing;
+  const merged = { name, objects, tracks, ...(req.body as object) };
+  const issues = validateScene(merged);
+  if (issues.length > 0) return invalidScene(res, issues);
+
+  const body = merged as Pick<Scene, 'name' | 'objects' | 'tracks'>;
+  const updated: Scene = {
+    ...existing,
+    name: body.name,
+    objects: body.objects,
+    tracks: body.tracks ?? existing.tracks,
+    updatedAt: new Date().toISOString(),
+  };
+
+  return res.json(saveScene(updated));
+});
+
+// DELETE /api/scenes/:id — remove a scene
+app.delete('/api/scenes/:id', (req, res) => {
+  if (!deleteScene(req.params.id)) {
+    return res.status(404).json({ error: 'Scene not found' });
+  }
+  return res.status(204).send();
+});
+
+// ── Scene revisions ───────────────────────────────────────────────────────────
+
+// GET /api/scenes/:id/revisions — list revisions, newest first
+app.get('/api/scenes/:id/revisions', (req, res) => {
+  if (!getScene(req.params.id)) return res.status(404).json({ error: 'Scene not found' });
+  return res.json(listRevisions(req.params.id));
+});
+
+// GET /api/scenes/:id/revisions/:rev — get a single revision with its objects
+app.get('/api/scenes/:id/revisions/:rev', (req, res) => {
+  const revision = getRevision(req.params.id, Number(req.params.rev));
+  if (!revision) return res.status(404).json({ error: 'Revision not found' });
+  return res.json(revision);
+});
+
+// POST /api/scenes/:id/revisions/:rev/restore — make an old revision current again.
+// History is never rewritten: the restored content is saved as a new revision.
+app.post('/api/scenes/:id/revisions/:rev/restore', (req, res) => {
+  const existing = getScene(req.params.id);
+  if (!existing) return res.status(404).json({ error: 'Scene not found' });
+
+  const revision = getRevision(req.params.id, Number(req.params.rev));
+  if (!revision) return res.status(404).json({ error: 'Revision not found' });
+
+  return res.json(saveScene({
+    ...existing,
+    name: revision.name,
+    objects: revision.objects,
+    tracks: revision.tracks,
+    updatedAt: new Date().toISOString(),
+  }));
+});
+
+// GET /api/scenes/:id/diff?from=1&to=2 — per-object changes between two revisions
+app.get('/api/scenes/:id/diff', (req, res) => {
+  const scene = getScene(req.params.id);
+  if (!scene) return res.status(404).json({ error: 'Scene not found' });
+
+  const from = Number(req.query.from);
+  const to = req.query.to === undefined ? scene.revision : Number(req.query.to);
+  if (!Number.isInteger(from) || !Number.isInteger(to)) {
+    return res.status(400).json({ error: 'from and to must be revision numbers' });
+  }
+
+  const before = getRevision(scene.id, from);
+  const after = getRevision(scene.id, to);
+  if (!before || !after) return res.status(404).json({ error: 'Revision not found' });
+
+  return res.json(diffRevisions(before, after));
+});
+
+// ── Matrix utilities ───────────────────────────────────────────────────────────
+
+// POST /api/matrix/multiply — multiply two 4×4 matrices (row-major arrays of 16 numbers)
+app.post('/api/matrix/multiply', (req, res) => {
+  const { a, b } = req.body as { a: number[]; b: number[] };
+  if (!Array.isArray(a) || !Array.isArray(b) || a.length !== 16 || b.length !== 16) {
+    return res.status(400).json({ error: 'a and b must each be arrays of 16 numbers' });
+  }
+  return res.json({ result: multiply4(a, b) });
+});
+
+// POST /api/matrix/invert — invert a 4×4 matrix (row-major)
+app.post('/api/matrix/invert', (req, res) => {
+  const { matrix } = req.body as { matrix: number[] };
+  if (!Array.isArray(matrix) || matrix.length !== 16) {
+    return res.status(400).json({ error: 'matrix must be an array of 16 numbers' });
+  }
+
+  const result = invert4(matrix);
+  if (!result) return res.status(400).json({ error: 'Matrix is not invertible' });
+  return res.json({ result });
+});
+
+// POST /api/matrix/decompose — split a row-major 4×4 into M = P · T · R · H · S.
+// Pass requireAffine: true to reject matrices with a perspective row.
+app.post('/api/matrix/decompose', (req, res) => {
+  const { matrix, requireAffine } = req.body as { matrix: unknown; requireAffine?: boolean };
+  if (!isMat4(matrix)) {
+    return res.status(400).json({ error: 'matrix must be an array of 16 finite numbers (row-major)' });
+  }
+
+  try {
+    return res.json(decompose(matrix, { requireAffine: requireAffine === true }));
+  } catch (err) {
+    if (err instanceof MatrixError) return res.status(400).json({ error: err.message });
+    throw err;
+  }
+});
+
+// POST /api/matrix/compose — the inverse of decompose; returns a row-major 4×4
+app.post('/api/matrix/compose', (req, res) => {
+  try {
+    return res.json({ result: compose(parseComposeRequest(req.body)) });
+  } catch (err) {
+    if (err instanceof MatrixError) return res.status(400).json({ error: err.message });
+    throw err;
+  }
+});
+
+// POST /api/matrix/eigen, /svd and /polar — spectral decompositions of a
+// row-major 4×4. part: 'linear' (default) analyses the upper-left 3×3,
+// 'full' the whole matrix. Every result carries residuals and condition
+// numbers so callers can judge how far to trust it.
+function spectralHandler<T>(analyse: (matrix: number[], part: MatrixPart) => T): express.RequestHandler {
+  return (req, res) => {
+    const { matrix, part } = req.body as { matrix: unknown; part?: unknown };
+    if (!isMat4(matrix)) {
+      res.status(400).json({ error: 'matrix must be an array of 16 finite numbers (row-major)' });
+      return;
+    }
+
+    try {
+      res.json(analyse(matrix, parsePart(part)));
+    } catch (err) {
+      if (err instanceof MatrixError) {
+        res.status(400).json({ error: err.message });
+        return;
+      }
+      throw err;
+    }
+  };
+}
+
+app.post('/api/matrix/eigen', spectralHandler(eigen));
+app.post('/api/matrix/svd', spectralHandler(svd));
+app.post('/api/matrix/polar', spectralHandler(polar));
+
+// POST /api/matrix/evaluate — evaluate an expression such as
+// `T(1,0,0) * Ry(45deg) * inverse(M_parent)` against named variables (row-major
+// matrices, vectors or scalars). Syntax and type errors return 400 with the
+// character span at fault as position: { start, end }.
+app.post('/api/matrix/evaluate', (req, res) => {
+  const { expression, variables } = req.body as { expression: unknown; variables?: unknown };
+  if (typeof expression !== 'string' || expression.trim() === '') {
+    return res.status(400).json({ error: 'expression must be a non-empty string' });
+  }
+
+  try {
+    return res.json({ result: evaluate(expression, parseVariables(variables)) });
+  } catch (err) {
+    if (err instanceof ExpressionError) return res.status(400).json({ error: err.message, position: err.span });
+    if (err instanceof MatrixError) return res.status(400).json({ error: err.message });
+    throw err;
+  }
+});
+
+// ── Health check ───────────────────────────────────────────────────────────────
+
+app.get('/api/health', (_req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// Oversized bodies are rejected by express.json before any route runs
+app.use((err: { type?: string; status?: number }, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err.type === 'entity.too.large') return res.status(413).json({ error: 'Request body is too large' });
+  if (err.type === 'entity.parse.failed') return res.status(400).json({ error: 'Request body is not valid JSON' });
+  return next(err);
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocket } from 'ws';
+import { applyOperation, attachCollaboration, parseMessage } from './collab';
+import { savedObject } from './fixtures';
+import { getScene, listRevisions, saveScene } from './store';
+import { CollabOperation, CollabServerMessage } from './types';
+
+const op = (value: unknown) => JSON.stringify({ type: 'op', opId: 1, op: value });
+
+describe('parseMessage', () => {
+  it('accepts a valid operation', () => {
+    const message = { type: 'op', opId: 1, op: { kind: 'visibility', id: 'a', visible: false } };
+    expect(parseMessage(JSON.stringify(message))).toEqual(message);
+  });
+
+  // Own keys only, so Object.prototype members are unknown kinds
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty', 'teleport'])('rejects the kind %s', (kind) => {
+    expect(parseMessage(op({ kind, id: 'a' }))).toBe('op.kind must be one of add, remove, transform, visibility');
+  });
+
+  it.each([
+    ['{', 'Message is not valid JSON'],
+    ['1', 'Message must be an object'],
+    [JSON.stringify({ type: 'chat' }), 'type must be hello, op or presence'],
+    [JSON.stringify({ type: 'op', opId: 1.5, op: { kind: 'remove', id: 'a' } }), 'opId must be an integer'],
+    [op({ kind: 'remove' }), 'op.id is required'],
+    [op({ kind: 'visibility', id: 'a', visible: 'no' }), 'op.visible must be a boolean'],
+    [JSON.stringify({ type: 'hello', name: ' ' }), 'name must be 1 to 40 characters'],
+    [JSON.stringify({ type: 'presence', selection: [1] }), 'selection[0] must be a string'],
+  ])('rejects %s', (data, message) => {
+    expect(parseMessage(data)).toBe(message);
+  });
+});
+
+describe('applyOperation', () => {
+  const room = () => new Map([['a', savedObject('a')], ['b', savedObject('b', { parentId: 'a' })]]);
+
+  it('moves children up a level when their parent is removed', () => {
+    const objects = room();
+    expect(applyOperation(objects, { kind: 'remove', id: 'a' })).toBeNull();
+    expect([...objects.keys()]).toEqual(['b']);
+    expect(objects.get('b')?.parentId).toBeNull();
+  });
+
+  it('refuses to attach an object below its own descendant', () => {
+    const { id, name, type, color, visible, ...placement } = savedObject('a', { parentId: 'b' });
+    expect(applyOperation(room(), { kind: 'transform', id, ...placement, parentId: 'b' })).toBe(
+      'Object a cannot be attached to b'
+    );
+  });
+
+  it('holds added and moved objects to the scene rules', () => {
+    const objects = room();
+    const mesh = savedObject('m', { type: 'mesh' });
+    expect(applyOperation(objects, { kind: 'add', object: mesh })).toBe('op.object.geometry is required for mesh objects');
+    expect(applyOperation(objects, { kind: 'add', object: savedObject('c', { geometry: { positions: '' } }) })).toBe(
+      'op.object.geometry is only allowed on mesh objects'
+    );
+    expect(objects).toEqual(room());
+  });
+
+  it('reports an unknown kind instead of applying it', () => {
+    const objects = room();
+    const unknown = { kind: 'constructor', id: 'a' } as unknown as CollabOperation;
+    expect(applyOperation(objects, unknown)).toBe('Unknown operation kind "constructor"');
+    expect(objects).toEqual(room());
+  });
+});
+
+// A client socket whose messages are read one at a time, in order
+async function connect(url: string) {
+  const socket = new WebSocket(url);
+  const received: CollabServerMessage[] = [];
+  const waiting: ((message: CollabServerMessage) => void)[] = [];
+  socket.on('message', data => {
+    const message = JSON.parse(data.toString()) as CollabServerMessage;
+    const resolve = waiting.shift();
+    if (resolve) resolve(message);
+    else received.push(message);
+  });
+  await new Promise(resolve => socket.once('open', resolve));
+  return {
+    send: (message: unknown) => socket.send(JSON.stringify(message)),
+    next: () => new Promise<CollabServerMessage>(resolve => {
+      const message = received.shift();
+      if (message) resolve(message);
+      else waiting.push(resolve);
+    }),
+    close: () => socket.close(),
+  };
+}
+
+describe('live editing session', () => {
+  it('starts from the stored scene and saves its edits when everyone has left', async () => {
+    const stored = saveScene({
+      id: 'live',
+      name: 'Live',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      objects: [savedObject('a'), savedObject('b')],
+      tracks: [{ objectId: 'b', property: 'position', interpolation: 'linear', keyframes: [] }],
+    });
+
+    const server = createServer();
+    const wss = attachCollaboration(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const client = await connect(`ws://127.0.0.1:${port}/api/collab?scene=live`);
+      client.send({ type: 'hello', name: 'Ann' });
+      expect(await client.next()).toMatchObject({ type: 'welcome', seeded: true, objects: stored.objects });
+
+      client.send({ type: 'op', opId: 1, op: { kind: 'add', object: savedObject('m', { type: 'mesh' }) } });
+      expect(await client.next()).toEqual({
+        type: 'error',
+        message: 'op.object.geometry is required for mesh objects',
+        opId: 1,
+        object: null,
+      });
+
+      client.send({ type: 'op', opId: 2, op: { kind: 'remove', id: 'b' } });
+      expect(await client.next()).toMatchObject({ type: 'op', seq: 1, opId: 2 });
+
+      client.close();
+      await vi.waitFor(() => expect(listRevisions('live')).toHaveLength(2));
+      expect(getScene('live')).toMatchObject({ revision: 2, objects: [savedObject('a')], tracks: [] });
+    } finally {
+      wss.close();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
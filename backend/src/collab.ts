@@ -0,0 +1,348 @@
+import type { Server } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { getScene, saveScene } from './store.js';
+import { MAX_ID_LENGTH, MAX_OBJECTS, sceneSchema } from './sceneSchema.js';
+import { formatIssue, validateObjectRules, validateSchema } from './validation.js';
+import {
+  CollabClientMessage,
+  CollabOperation,
+  CollabPeer,
+  CollabServerMessage,
+  JsonSchema,
+  SavedObject,
+  ValidationIssue,
+} from './types.js';
+
+// Live editing rooms, one per saved scene, at ws://…/api/collab?scene=<id>.
+// The server is the sequencer: every accepted operation gets the room's next
+// seq and is sent to all clients, its author included, in that order. Since
+// operations carry whole values, applying them in seq order leaves every
+// client with the same scene; an author only has to ignore older edits to a
+// field it has changed itself until its own echo arrives. The room starts
+// from the stored scene and keeps the current objects so late joiners start
+// from the same state; when the last client leaves, the edits are saved as a
+// new revision.
+
+// Large enough for a scene of imported meshes, like the REST body limit
+const MAX_PAYLOAD = 16 * 1024 * 1024;
+const HEARTBEAT_MS = 30_000;
+const MAX_PEER_NAME = 40;
+
+const PEER_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+interface Client {
+  socket: WebSocket;
+  peer: CollabPeer;
+  alive: boolean;
+}
+
+interface Room {
+  seq: number;
+  objects: Map<string, SavedObject>;
+  clients: Map<string, Client>;
+  // An operation was applied since the room was opened from the store
+  changed: boolean;
+}
+
+const rooms = new Map<string, Room>();
+let nextClientId = 1;
+
+// ── Message validation ────────────────────────────────────────────────────────
+
+// Schemas share the scene schema's definitions, so an added object is held
+// to the same rules as a saved one
+const withDefs = (schema: JsonSchema): JsonSchema => ({ ...schema, $defs: sceneSchema.$defs });
+const idSchema: JsonSchema = { type: 'string', minLength: 1, maxLength: MAX_ID_LENGTH };
+const vec3Ref: JsonSchema = { $ref: '#/$defs/vec3' };
+
+const operationSchemas: Record<CollabOperation['kind'], JsonSchema> = {
+  add: withDefs({
+    type: 'object',
+    properties: { kind: {}, object: { $ref: '#/$defs/savedObject' } },
+    required: ['object'],
+    additionalProperties: false,
+  }),
+  remove: withDefs({
+    type: 'object',
+    properties: { kind: {}, id: idSchema },
+    required: ['id'],
+    additionalProperties: false,
+  }),
+  transform: withDefs({
+    type: 'object',
+    properties: {
+      kind: {},
+      id: idSchema,
+      parentId: { type: ['string', 'null'], maxLength: MAX_ID_LENGTH },
+      position: vec3Ref,
+      rotation: vec3Ref,
+      scale: vec3Ref,
+      matrix: { type: 'array', minItems: 16, maxItems: 16, items: { type: 'number' } },
+    },
+    required: ['id', 'parentId', 'position', 'rotation', 'scale'],
+    additionalProperties: false,
+  }),
+  visibility: withDefs({
+    type: 'object',
+    properties: { kind: {}, id: idSchema, visible: { type: 'boolean' } },
+    required: ['id', 'visible'],
+    additionalProperties: false,
+  }),
+};
+
+const selectionSchema: JsonSchema = { type: 'array', maxItems: MAX_OBJECTS, items: idSchema };
+
+// The first issue, with its path made relative to the whole message
+function firstIssue(issues: ValidationIssue[], prefix = ''): string | null {
+  if (issues.length === 0) return null;
+  const { path, message } = issues[0];
+  const full = !prefix ? path : !path ? prefix : path.startsWith('[') ? `${prefix}${path}` : `${prefix}.${path}`;
+  return formatIssue({ path: full, message });
+}
+
+// The message as a typed value, or a description of what is wrong with it
+export function parseMessage(data: string): CollabClientMessage | string {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return 'Message is not valid JSON';
+  }
+  if (typeof message !== 'object' || message === null) return 'Message must be an object';
+
+  const { type } = message as { type?: unknown };
+
+  if (type === 'hello') {
+    const { name } = message as { name?: unknown };
+    if (typeof name !== 'string' || name.trim() === '' || name.length > MAX_PEER_NAME) {
+      return `name must be 1 to ${MAX_PEER_NAME} characters`;
+    }
+    return message as CollabClientMessage;
+  }
+
+  if (type === 'op') {
+    const { opId, op } = message as { opId?: unknown; op?: { kind?: unknown } };
+    if (!Number.isInteger(opId)) return 'opId must be an integer';
+    // Own keys only: a kind such as "constructor" must not find Object.prototype's
+    const known = typeof op?.kind === 'string' && Object.prototype.hasOwnProperty.call(operationSchemas, op.kind);
+    const schema = known ? operationSchemas[op!.kind as CollabOperation['kind']] : undefined;
+    if (!schema) return `op.kind must be one of ${Object.keys(operationSchemas).join(', ')}`;
+    return firstIssue(validateSchema(schema, op), 'op') ?? (message as CollabClientMessage);
+  }
+
+  if (type === 'presence') {
+    const { selection } = message as { selection?: unknown };
+    return firstIssue(validateSchema(selectionSchema, selection), 'selection') ?? (message as CollabClientMessage);
+  }
+
+  return 'type must be hello, op or presence';
+}
+
+// ── Room state ────────────────────────────────────────────────────────────────
+
+function isAncestor(objects: Map<string, SavedObject>, ancestorId: string, id: string): boolean {
+  const seen = new Set<string>();
+  for (let current = objects.get(id)?.parentId; current && !seen.has(current); current = objects.get(current)?.parentId) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+  }
+  return false;
+}
+
+// Applies an operation to the room's objects; returns an error for one that
+// no longer fits (e.g. it targets an object someone else just removed)
+export function applyOperation(objects: Map<string, SavedObject>, op: CollabOperation): string | null {
+  switch (op.kind) {
+    case 'add': {
+      if (objects.has(op.object.id)) return `Object ${op.object.id} already exists`;
+      if (objects.size >= MAX_OBJECTS) return `A scene holds at most ${MAX_OBJECTS} objects`;
+      const parentId = op.object.parentId ?? null;
+      if (parentId !== null && !objects.has(parentId)) return `Parent ${parentId} does not exist`;
+      // The rules PUT /api/scenes applies across objects, such as geometry for meshes
+      const issue = firstIssue(validateObjectRules(op.object, objects), 'op.object');
+      if (issue) return issue;
+      objects.set(op.object.id, op.object);
+      return null;
+    }
+
+    case 'remove': {
+      const removed = objects.get(op.id);
+      if (!removed) return `Object ${op.id} does not exist`;
+      objects.delete(op.id);
+      // Children move up a level, as in the editor; their authors follow up
+      // with transform operations that keep them in place
+      objects.forEach(obj => {
+        if (obj.parentId === op.id) obj.parentId = removed.parentId ?? null;
+      });
+      return null;
+    }
+
+    case 'transform': {
+      const obj = objects.get(op.id);
+      if (!obj) return `Object ${op.id} does not exist`;
+      if (op.parentId !== null && (!objects.has(op.parentId) || op.parentId === op.id || isAncestor(objects, op.id, op.parentId))) {
+        return `Object ${op.id} cannot be attached to ${op.parentId}`;
+      }
+      const { id, kind, matrix, ...placement } = op;
+      const updated: SavedObject = { ...obj, ...placement };
+      if (matrix) updated.matrix = matrix;
+      else delete updated.matrix;
+      const issue = firstIssue(validateObjectRules(updated, objects), 'op');
+      if (issue) return issue;
+      objects.set(id, updated);
+      return null;
+    }
+
+    case 'visibility': {
+      const obj = objects.get(op.id);
+      if (!obj) return `Object ${op.id} does not exist`;
+      obj.visible = op.visible;
+      return null;
+    }
+
+    default: {
+      // Unreachable for a parsed message; an error here is never broadcast
+      const unknown: never = op;
+      return `Unknown operation kind ${JSON.stringify((unknown as { kind?: unknown }).kind)}`;
+    }
+  }
+}
+
+function send(client: Client, message: CollabServerMessage) {
+  if (client.socket.readyState === WebSocket.OPEN) client.socket.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: CollabServerMessage, except?: string) {
+  room.clients.forEach((client, clientId) => {
+    if (clientId !== except) send(client, message);
+  });
+}
+
+// Lowest palette entry not in use, so colors stay stable as people come and go
+function pickColor(room: Room): string {
+  const used = new Set([...room.clients.values()].map(client => client.peer.color));
+  return PEER_COLORS.find(color => !used.has(color)) ?? PEER_COLORS[room.clients.size % PEER_COLORS.length];
+}
+
+// Saves the room's objects as a new revision of the stored scene. Tracks of
+// objects removed during the session are dropped, as the editor does on join.
+function saveRoom(sceneId: string, room: Room) {
+  const stored = getScene(sceneId);
+  if (!stored || !room.changed) return;
+  const objects = [...room.objects.values()];
+  const ids = new Set(objects.map(obj => obj.id));
+  saveScene({
+    ...stored,
+    objects,
+    tracks: stored.tracks.filter(track => ids.has(track.objectId)),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// ── Connections ───────────────────────────────────────────────────────────────
+
+export function attachCollaboration(server: Server) {
+  const wss = new WebSocketServer({ server, path: '/api/collab', maxPayload: MAX_PAYLOAD });
+
+  wss.on('connection', (socket, req) => {
+    const sceneId = new URL(req.url ?? '', 'http://localhost').searchParams.get('scene');
+    if (!sceneId || !getScene(sceneId)) {
+      socket.close(4404, 'Scene not found');
+      return;
+    }
+
+    let room: Room | null = null;
+    let client: Client | null = null;
+
+    socket.on('message', (data, isBinary) => {
+      const message = isBinary ? 'Binary messages are not supported' : parseMessage(data.toString());
+      if (typeof message === 'string') {
+        socket.send(JSON.stringify({ type: 'error', message } satisfies CollabServerMessage));
+        return;
+      }
+
+      if (message.type === 'hello') {
+        if (client) return;
+        const seeded = !rooms.has(sceneId);
+        if (seeded) {
+          // Read again: the scene may have been saved or deleted since the connection opened
+          const stored = getScene(sceneId);
+          if (!stored) {
+            socket.close(4404, 'Scene not found');
+            return;
+          }
+          const objects = new Map(stored.objects.map(obj => [obj.id, obj]));
+          rooms.set(sceneId, { seq: 0, objects, clients: new Map(), changed: false });
+        }
+        room = rooms.get(sceneId)!;
+
+        const peer: CollabPeer = { clientId: `client_${nextClientId++}`, name: message.name.trim(), color: pickColor(room), selection: [] };
+        client = { socket, peer, alive: true };
+        send(client, {
+          type: 'welcome',
+          clientId: peer.clientId,
+          color: peer.color,
+          seq: room.seq,
+          seeded,
+          objects: [...room.objects.values()],
+          peers: [...room.clients.values()].map(other => other.peer),
+        });
+        room.clients.set(peer.clientId, client);
+        broadcast(room, { type: 'presence', peer }, peer.clientId);
+        return;
+      }
+
+      if (!room || !client) {
+        socket.send(JSON.stringify({ type: 'error', message: 'Send hello first' } satisfies CollabServerMessage));
+        return;
+      }
+
+      if (message.type === 'presence') {
+        client.peer.selection = message.selection;
+        broadcast(room, { type: 'presence', peer: client.peer }, client.peer.clientId);
+        return;
+      }
+
+      const error = applyOperation(room.objects, message.op);
+      if (error) {
+        const { op } = message;
+        const object = room.objects.get(op.kind === 'add' ? op.object.id : op.id) ?? null;
+        send(client, { type: 'error', message: error, opId: message.opId, object });
+        return;
+      }
+      room.changed = true;
+      broadcast(room, { type: 'op', seq: ++room.seq, clientId: client.peer.clientId, opId: message.opId, op: message.op });
+    });
+
+    socket.on('pong', () => {
+      if (client) client.alive = true;
+    });
+
+    socket.on('close', () => {
+      if (!room || !client) return;
+      room.clients.delete(client.peer.clientId);
+      if (room.clients.size === 0) {
+        rooms.delete(sceneId);
+        saveRoom(sceneId, room);
+      } else {
+        broadcast(room, { type: 'leave', clientId: client.peer.clientId });
+      }
+    });
+  });
+
+  // Drops connections that stopped answering pings (closed laptops, lost networks)
+  const heartbeat = setInterval(() => {
+    rooms.forEach(room => {
+      room.clients.forEach(client => {
+        if (!client.alive) {
+          client.socket.terminate();
+          return;
+        }
+        client.alive = false;
+        client.socket.ping();
+      });
+    });
+  }, HEARTBEAT_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+  return wss;
+}
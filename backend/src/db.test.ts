@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { openDatabase } from './db';
+
+const columns = (db: Database.Database, table: string) =>
+  (db.pragma(`table_info(${table})`) as { name: string }[]).map(column => column.name);
+
+let dir: string | null = null;
+const tempPath = () => {
+  dir ??= mkdtempSync(join(tmpdir(), 'scenes-'));
+  return join(dir, 'scenes.db');
+};
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+describe('openDatabase', () => {
+  it('migrates an empty database from version 0 to the latest schema', () => {
+    const db = openDatabase(':memory:');
+    expect(db.pragma('user_version', { simple: true })).toBe(3);
+    expect(columns(db, 'scenes')).toEqual(['id', 'name', 'created_at', 'updated_at', 'objects', 'tracks']);
+    expect(columns(db, 'scene_revisions')).toEqual(['scene_id', 'revision', 'name', 'objects', 'created_at', 'tracks']);
+    db.close();
+  });
+
+  it('keeps existing scenes when upgrading, recording each as revision 1', () => {
+    const path = tempPath();
+    const old = new Database(path);
+    old.exec(`
+      CREATE TABLE scenes (id TEXT PRIMARY KEY, name TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, objects TEXT NOT NULL);
+      INSERT INTO scenes VALUES ('s', 'Old', '2024-01-01', '2024-01-02', '[]');
+    `);
+    old.pragma('user_version = 1');
+    old.close();
+
+    const db = openDatabase(path);
+    expect(db.pragma('user_version', { simple: true })).toBe(3);
+    expect(db.prepare('SELECT name, tracks FROM scenes').get()).toEqual({ name: 'Old', tracks: '[]' });
+    expect(db.prepare('SELECT scene_id, revision, created_at, tracks FROM scene_revisions').all()).toEqual([
+      { scene_id: 's', revision: 1, created_at: '2024-01-02', tracks: '[]' },
+    ]);
+    db.close();
+  });
+
+  it('refuses a database from a newer build', () => {
+    const path = tempPath();
+    const newer = new Database(path);
+    newer.pragma('user_version = 99');
+    newer.close();
+
+    expect(() => openDatabase(path)).toThrow('Database schema version 99 is newer than this build supports (3)');
+  });
+});
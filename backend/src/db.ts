@@ -0,0 +1,69 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+
+// Ordered schema migrations. Each entry brings the database from version `index`
+// to `index + 1`; never edit an entry once shipped, append a new one instead.
+const migrations: string[] = [
+  `
+  CREATE TABLE scenes (
+    id         TEXT PRIMARY KEY,
+    name       TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    objects    TEXT NOT NULL
+  );
+  CREATE INDEX scenes_updated_at ON scenes (updated_at DESC);
+  `,
+  `
+  CREATE TABLE scene_revisions (
+    scene_id   TEXT    NOT NULL REFERENCES scenes (id) ON DELETE CASCADE,
+    revision   INTEGER NOT NULL,
+    name       TEXT    NOT NULL,
+    objects    TEXT    NOT NULL,
+    created_at TEXT    NOT NULL,
+    PRIMARY KEY (scene_id, revision)
+  );
+  INSERT INTO scene_revisions (scene_id, revision, name, objects, created_at)
+    SELECT id, 1, name, objects, updated_at FROM scenes;
+  `,
+  `
+  ALTER TABLE scenes ADD COLUMN tracks TEXT NOT NULL DEFAULT '[]';
+  ALTER TABLE scene_revisions ADD COLUMN tracks TEXT NOT NULL DEFAULT '[]';
+  `,
+];
+
+function migrate(db: Database.Database): void {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  if (current > migrations.length) {
+    throw new Error(
+      `Database schema version ${current} is newer than this build supports (${migrations.length})`
+    );
+  }
+
+  const pending = migrations.slice(current);
+  if (pending.length === 0) return;
+
+  db.transaction(() => {
+    pending.forEach((sql, i) => {
+      db.exec(sql);
+      db.pragma(`user_version = ${current + i + 1}`);
+    });
+  })();
+
+  console.log(`Migrated database schema from v${current} to v${migrations.length}`);
+}
+
+// DATABASE_PATH may point anywhere on disk, or be ':memory:' for a throwaway store
+export function openDatabase(path = process.env.DATABASE_PATH ?? 'data/scenes.db'): Database.Database {
+  if (path !== ':memory:') {
+    path = resolve(path);
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { compose, decompose, parseComposeRequest } from './decompose';
+import { MatrixError, maxAbsDifference } from './matrix';
+
+describe('decompose', () => {
+  it('recovers the factors compose was given', () => {
+    const request = {
+      translation: { x: 1, y: -2, z: 3 },
+      rotation: { axisAngle: { axis: { x: 0, y: 1, z: 0 }, angle: 0.7 } },
+      scale: { x: 2, y: 0.5, z: 1.5 },
+      shear: { xy: 0.3, xz: -0.1, yz: 0.2 },
+    };
+    const result = decompose(compose(request));
+
+    expect(result.translation).toEqual(request.translation);
+    expect(result.scale.x).toBeCloseTo(2);
+    expect(result.scale.y).toBeCloseTo(0.5);
+    expect(result.scale.z).toBeCloseTo(1.5);
+    expect(result.shear.xy).toBeCloseTo(0.3);
+    expect(result.shear.xz).toBeCloseTo(-0.1);
+    expect(result.shear.yz).toBeCloseTo(0.2);
+    expect(result.rotation.axisAngle.angle).toBeCloseTo(0.7);
+  });
+
+  it('composes back to a perspective matrix exactly', () => {
+    const m = [1, 0, 0, 2, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, -0.5, 1];
+    const { translation, rotation, scale, shear, perspective } = decompose(m);
+    const back = compose({ translation, rotation: { quaternion: rotation.quaternion }, scale, shear, perspective });
+    expect(maxAbsDifference(back, m)).toBeLessThan(1e-12);
+  });
+
+  it('folds a reflection into the scale', () => {
+    const result = decompose([-1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]);
+    expect(result.scale.x * result.scale.y * result.scale.z).toBeCloseTo(-1);
+  });
+
+  it('rejects singular and, when asked, non-affine matrices', () => {
+    expect(() => decompose([1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1])).toThrow(/degenerate/);
+    expect(() => decompose([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 1, 1], { requireAffine: true })).toThrow(/not affine/);
+  });
+});
+
+describe('parseComposeRequest', () => {
+  it('accepts any subset of shear factors', () => {
+    expect(parseComposeRequest({ shear: { xy: 0.5 } })).toEqual({ shear: { xy: 0.5 } });
+  });
+
+  it.each([
+    [{ shear: null }, /shear must be an object/],
+    [{ shear: 1 }, /shear must be an object/],
+    [{ shear: [0.5] }, /shear must be an object/],
+    [{ shear: { xy: 1, zz: 2 } }, /shear\.zz is not a shear factor/],
+    [{ shear: { constructor: 1 } }, /shear\.constructor is not a shear factor/],
+    [{ shear: { xy: 'a' } }, /shear\.xy must be a finite number/],
+    [{ translation: null }, /translation must be an object/],
+    [{ rotation: { euler: { x: 0, y: 0 } } }, /rotation\.euler\.z must be a finite number/],
+    [{ rotation: [0, 0, 0] }, /rotation must be an object/],
+    [{ rotation: null }, /rotation must be an object/],
+    [{ rotation: { eulr: { x: 1, y: 0, z: 0 } } }, /rotation\.eulr is not a rotation form/],
+    [{ rotation: { euler: { x: 1, y: 0, z: 0 }, angle: 1 } }, /rotation\.angle is not a rotation form/],
+    [null, /Request body must be a JSON object/],
+  ])('rejects %j', (body, message) => {
+    expect(() => parseComposeRequest(body)).toThrow(MatrixError);
+    expect(() => parseComposeRequest(body)).toThrow(message);
+  });
+});
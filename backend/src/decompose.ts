@@ -0,0 +1,349 @@
+import {
+  Mat3,
+  Mat4,
+  MatrixError,
+  determinant3,
+  identity4,
+  invert4,
+  linearPart,
+  multiply4,
+} from './matrix.js';
+import {
+  ComposeRequest,
+  Decomposition,
+  EulerAngles,
+  EulerOrder,
+  Quaternion,
+  Shear,
+  Vec3,
+} from './types.js';
+
+// Decomposes M = P · T · R · H · S following the classic "unmatrix" steps
+// (Graphics Gems II): split off the perspective row, read the translation
+// column, then Gram-Schmidt the linear part's columns into scale, shear and
+// a proper rotation. compose() multiplies the same factors back together.
+
+const EPSILON = 1e-12;
+const GIMBAL_LIMIT = 0.9999999;
+
+export const EULER_ORDERS: EulerOrder[] = ['XYZ', 'YXZ', 'ZXY', 'ZYX', 'YZX', 'XZY'];
+
+const clamp = (v: number) => Math.min(Math.max(v, -1), 1);
+
+type Vec = [number, number, number];
+
+const dot = (a: Vec, b: Vec) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const length = (a: Vec) => Math.sqrt(dot(a, a));
+const scaled = (a: Vec, s: number): Vec => [a[0] * s, a[1] * s, a[2] * s];
+const minus = (a: Vec, b: Vec): Vec => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const toVec3 = (a: Vec): Vec3 => ({ x: a[0], y: a[1], z: a[2] });
+
+function multiply3(a: Mat3, b: Mat3): Mat3 {
+  const result = new Array<number>(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) {
+        result[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+      }
+    }
+  }
+  return result;
+}
+
+// ── Rotation conversions ──────────────────────────────────────────────────────
+
+export function quaternionFromRotation(r: Mat3): Quaternion {
+  const [m11, m12, m13, m21, m22, m23, m31, m32, m33] = r;
+  const trace = m11 + m22 + m33;
+  let q: Quaternion;
+
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    q = { w: 0.25 / s, x: (m32 - m23) * s, y: (m13 - m31) * s, z: (m21 - m12) * s };
+  } else if (m11 > m22 && m11 > m33) {
+    const s = 2 * Math.sqrt(1 + m11 - m22 - m33);
+    q = { w: (m32 - m23) / s, x: 0.25 * s, y: (m12 + m21) / s, z: (m13 + m31) / s };
+  } else if (m22 > m33) {
+    const s = 2 * Math.sqrt(1 + m22 - m11 - m33);
+    q = { w: (m13 - m31) / s, x: (m12 + m21) / s, y: 0.25 * s, z: (m23 + m32) / s };
+  } else {
+    const s = 2 * Math.sqrt(1 + m33 - m11 - m22);
+    q = { w: (m21 - m12) / s, x: (m13 + m31) / s, y: (m23 + m32) / s, z: 0.25 * s };
+  }
+
+  // q and −q are the same rotation; report the one with w ≥ 0
+  return q.w < 0 ? { x: -q.x, y: -q.y, z: -q.z, w: -q.w } : q;
+}
+
+export function rotationFromQuaternion({ x, y, z, w }: Quaternion): Mat3 {
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y - z * w), 2 * (x * z + y * w),
+    2 * (x * y + z * w), 1 - 2 * (x * x + z * z), 2 * (y * z - x * w),
+    2 * (x * z - y * w), 2 * (y * z + x * w), 1 - 2 * (x * x + y * y),
+  ];
+}
+
+function axisAngleFromQuaternion(q: Quaternion): { axis: Vec3; angle: number } {
+  const angle = 2 * Math.acos(clamp(q.w));
+  const s = Math.sqrt(1 - q.w * q.w);
+  // No rotation: any axis will do
+  if (s < 1e-9) return { axis: { x: 1, y: 0, z: 0 }, angle: 0 };
+  return { axis: { x: q.x / s, y: q.y / s, z: q.z / s }, angle };
+}
+
+function quaternionFromAxisAngle(axis: Vec3, angle: number): Quaternion {
+  const len = Math.hypot(axis.x, axis.y, axis.z);
+  if (len < EPSILON) throw new MatrixError('rotation.axisAngle.axis must not be the zero vector');
+  const s = Math.sin(angle / 2) / len;
+  return { x: axis.x * s, y: axis.y * s, z: axis.z * s, w: Math.cos(angle / 2) };
+}
+
+function eulerFromRotation(r: Mat3, order: EulerOrder): EulerAngles {
+  const [m11, m12, m13, m21, m22, m23, m31, m32, m33] = r;
+  let x = 0, y = 0, z = 0, pivot: number;
+
+  switch (order) {
+    case 'XYZ':
+      pivot = m13;
+      y = Math.asin(clamp(m13));
+      if (Math.abs(m13) < GIMBAL_LIMIT) { x = Math.atan2(-m23, m33); z = Math.atan2(-m12, m11); }
+      else { x = Math.atan2(m32, m22); }
+      break;
+    case 'YXZ':
+      pivot = m23;
+      x = Math.asin(-clamp(m23));
+      if (Math.abs(m23) < GIMBAL_LIMIT) { y = Math.atan2(m13, m33); z = Math.atan2(m21, m22); }
+      else { y = Math.atan2(-m31, m11); }
+      break;
+    case 'ZXY':
+      pivot = m32;
+      x = Math.asin(clamp(m32));
+      if (Math.abs(m32) < GIMBAL_LIMIT) { y = Math.atan2(-m31, m33); z = Math.atan2(-m12, m22); }
+      else { z = Math.atan2(m21, m11); }
+      break;
+    case 'ZYX':
+      pivot = m31;
+      y = Math.asin(-clamp(m31));
+      if (Math.abs(m31) < GIMBAL_LIMIT) { x = Math.atan2(m32, m33); z = Math.atan2(m21, m11); }
+      else { z = Math.atan2(-m12, m22); }
+      break;
+    case 'YZX':
+      pivot = m21;
+      z = Math.asin(clamp(m21));
+      if (Math.abs(m21) < GIMBAL_LIMIT) { x = Math.atan2(-m23, m22); y = Math.atan2(-m31, m11); }
+      else { y = Math.atan2(m13, m33); }
+      break;
+    case 'XZY':
+      pivot = m12;
+      z = Math.asin(-clamp(m12));
+      if (Math.abs(m12) < GIMBAL_LIMIT) { x = Math.atan2(m32, m22); y = Math.atan2(m13, m11); }
+      else { x = Math.atan2(-m23, m33); }
+      break;
+  }
+
+  return { x, y, z, gimbalLock: Math.abs(pivot) >= GIMBAL_LIMIT };
+}
+
+function elementaryRotation(axis: string, angle: number): Mat3 {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  switch (axis) {
+    case 'X': return [1, 0, 0, 0, c, -s, 0, s, c];
+    case 'Y': return [c, 0, s, 0, 1, 0, -s, 0, c];
+    default: return [c, -s, 0, s, c, 0, 0, 0, 1];
+  }
+}
+
+// XYZ means Rx · Ry · Rz, matching eulerFromRotation
+function rotationFromEuler(angles: Vec3, order: EulerOrder): Mat3 {
+  const byAxis: Record<string, number> = { X: angles.x, Y: angles.y, Z: angles.z };
+  return order
+    .split('')
+    .map(axis => elementaryRotation(axis, byAxis[axis]))
+    .reduce(multiply3);
+}
+
+// ── Decompose / compose ───────────────────────────────────────────────────────
+
+export function decompose(input: Mat4, options: { requireAffine?: boolean } = {}): Decomposition {
+  // No division by m[15]: that would only be a projectively equivalent matrix,
+  // and compose() has to give back exactly the input
+  const m = input;
+  const bottom = [m[12], m[13], m[14], m[15]];
+  const isAffine =
+    Math.abs(bottom[0]) < EPSILON && Math.abs(bottom[1]) < EPSILON && Math.abs(bottom[2]) < EPSILON &&
+    Math.abs(bottom[3] - 1) < EPSILON;
+  if (options.requireAffine && !isAffine) {
+    throw new MatrixError(
+      `Matrix is not affine: bottom row is (${bottom.join(', ')}), expected (0, 0, 0, 1)`
+    );
+  }
+
+  const linear = linearPart(m);
+  const scaleOfM = Math.max(1, ...linear.map(Math.abs));
+  if (Math.abs(determinant3(linear)) < EPSILON * scaleOfM ** 3) {
+    throw new MatrixError(
+      'Matrix is degenerate: its 3×3 linear part is singular (determinant ≈ 0), so scale, shear and rotation are undefined'
+    );
+  }
+
+  // P = bottom · inverse(A) where A is M with its bottom row reset to (0, 0, 0, 1)
+  let perspective: Quaternion = { x: 0, y: 0, z: 0, w: 1 };
+  if (!isAffine) {
+    const affine = [...m.slice(0, 12), 0, 0, 0, 1];
+    const inv = invert4(affine)!;
+    const p = [0, 1, 2, 3].map(col => bottom.reduce((sum, b, k) => sum + b * inv[k * 4 + col], 0));
+    perspective = { x: p[0], y: p[1], z: p[2], w: p[3] };
+  }
+
+  // Columns of the linear part are the images of the basis vectors
+  let c0: Vec = [m[0], m[4], m[8]];
+  let c1: Vec = [m[1], m[5], m[9]];
+  let c2: Vec = [m[2], m[6], m[10]];
+
+  let sx = length(c0);
+  c0 = scaled(c0, 1 / sx);
+
+  let xy = dot(c0, c1);
+  c1 = minus(c1, scaled(c0, xy));
+  let sy = length(c1);
+  c1 = scaled(c1, 1 / sy);
+  xy /= sy;
+
+  let xz = dot(c0, c2);
+  c2 = minus(c2, scaled(c0, xz));
+  let yz = dot(c1, c2);
+  c2 = minus(c2, scaled(c1, yz));
+  let sz = length(c2);
+  c2 = scaled(c2, 1 / sz);
+  xz /= sz;
+  yz /= sz;
+
+  // A reflection shows up as a negative determinant; fold it into the scale
+  // so that R stays a proper rotation ((−R) · H · (−S) = R · H · S)
+  let rotation: Mat3 = [c0[0], c1[0], c2[0], c0[1], c1[1], c2[1], c0[2], c1[2], c2[2]];
+  if (determinant3(rotation) < 0) {
+    sx = -sx;
+    sy = -sy;
+    sz = -sz;
+    rotation = rotation.map(v => -v);
+  }
+
+  const quaternion = quaternionFromRotation(rotation);
+  const euler = Object.fromEntries(
+    EULER_ORDERS.map(order => [order, eulerFromRotation(rotation, order)])
+  ) as Record<EulerOrder, EulerAngles>;
+
+  return {
+    translation: { x: m[3], y: m[7], z: m[11] },
+    rotation: {
+      quaternion,
+      axisAngle: axisAngleFromQuaternion(quaternion),
+      euler,
+      matrix: rotation,
+    },
+    scale: toVec3([sx, sy, sz]),
+    shear: { xy, xz, yz },
+    perspective,
+  };
+}
+
+function rotationFromRequest(rotation: ComposeRequest['rotation']): Mat3 {
+  if (!rotation) return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+  const forms = (['quaternion', 'axisAngle', 'euler'] as const).filter(form => rotation[form] !== undefined);
+  if (forms.length > 1) {
+    throw new MatrixError(`rotation must have exactly one of quaternion, axisAngle or euler (got ${forms.join(', ')})`);
+  }
+
+  if (rotation.quaternion) {
+    const q = rotation.quaternion;
+    const len = Math.hypot(q.x, q.y, q.z, q.w);
+    if (len < EPSILON) throw new MatrixError('rotation.quaternion must not be zero');
+    return rotationFromQuaternion({ x: q.x / len, y: q.y / len, z: q.z / len, w: q.w / len });
+  }
+  if (rotation.axisAngle) {
+    return rotationFromQuaternion(quaternionFromAxisAngle(rotation.axisAngle.axis, rotation.axisAngle.angle));
+  }
+  if (rotation.euler) {
+    const order = rotation.euler.order ?? 'XYZ';
+    if (!EULER_ORDERS.includes(order)) {
+      throw new MatrixError(`rotation.euler.order must be one of ${EULER_ORDERS.join(', ')}`);
+    }
+    return rotationFromEuler(rotation.euler, order);
+  }
+  return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+}
+
+// Row-major M = P · T · R · H · S; omitted factors are the identity
+export function compose(request: ComposeRequest): Mat4 {
+  const t = request.translation ?? { x: 0, y: 0, z: 0 };
+  const s = request.scale ?? { x: 1, y: 1, z: 1 };
+  const shear: Shear = { xy: 0, xz: 0, yz: 0, ...request.shear };
+  const p = request.perspective ?? { x: 0, y: 0, z: 0, w: 1 };
+
+  const h: Mat3 = [1, shear.xy, shear.xz, 0, 1, shear.yz, 0, 0, 1];
+  const linear = multiply3(multiply3(rotationFromRequest(request.rotation), h), [s.x, 0, 0, 0, s.y, 0, 0, 0, s.z]);
+
+  const affine = [
+    linear[0], linear[1], linear[2], t.x,
+    linear[3], linear[4], linear[5], t.y,
+    linear[6], linear[7], linear[8], t.z,
+    0, 0, 0, 1,
+  ];
+  const perspective = identity4();
+  perspective.splice(12, 4, p.x, p.y, p.z, p.w);
+  return multiply4(perspective, affine);
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function requireNumbers(value: unknown, path: string, keys: string[]): void {
+  if (typeof value !== 'object' || value === null) {
+    throw new MatrixError(`${path} must be an object with ${keys.join(', ')}`);
+  }
+  keys.forEach(key => {
+    if (!isNumber((value as Record<string, unknown>)[key])) {
+      throw new MatrixError(`${path}.${key} must be a finite number`);
+    }
+  });
+}
+
+// Checks the shape of a compose body, naming the first offending field
+export function parseComposeRequest(body: unknown): ComposeRequest {
+  if (typeof body !== 'object' || body === null) throw new MatrixError('Request body must be a JSON object');
+  const request = body as ComposeRequest;
+
+  if (request.translation !== undefined) requireNumbers(request.translation, 'translation', ['x', 'y', 'z']);
+  if (request.scale !== undefined) requireNumbers(request.scale, 'scale', ['x', 'y', 'z']);
+  if (request.perspective !== undefined) requireNumbers(request.perspective, 'perspective', ['x', 'y', 'z', 'w']);
+  const shear = request.shear;
+  if (shear !== undefined) {
+    // Any subset of the factors may be given; the rest default to 0
+    if (typeof shear !== 'object' || shear === null || Array.isArray(shear)) {
+      throw new MatrixError('shear must be an object with any of xy, xz, yz');
+    }
+    const keys = Object.keys(shear);
+    const unknown = keys.find(key => !['xy', 'xz', 'yz'].includes(key));
+    if (unknown !== undefined) throw new MatrixError(`shear.${unknown} is not a shear factor; use xy, xz or yz`);
+    requireNumbers(shear, 'shear', keys);
+  }
+
+  const rotation = request.rotation;
+  if (rotation !== undefined) {
+    if (typeof rotation !== 'object' || rotation === null || Array.isArray(rotation)) {
+      throw new MatrixError('rotation must be an object with one of quaternion, axisAngle or euler');
+    }
+    const unknown = Object.keys(rotation).find(key => !['quaternion', 'axisAngle', 'euler'].includes(key));
+    if (unknown !== undefined) {
+      throw new MatrixError(`rotation.${unknown} is not a rotation form; use quaternion, axisAngle or euler`);
+    }
+    if (rotation.quaternion !== undefined) requireNumbers(rotation.quaternion, 'rotation.quaternion', ['x', 'y', 'z', 'w']);
+    if (rotation.euler !== undefined) requireNumbers(rotation.euler, 'rotation.euler', ['x', 'y', 'z']);
+    if (rotation.axisAngle !== undefined) {
+      requireNumbers(rotation.axisAngle, 'rotation.axisAngle', ['angle']);
+      requireNumbers(rotation.axisAngle.axis, 'rotation.axisAngle.axis', ['x', 'y', 'z']);
+    }
+  }
+  return request;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { diffRevisions } from './diff';
+import { savedObject } from './fixtures';
+import { SavedObject, SceneRevision } from './types';
+
+const revision = (revision: number, objects: SavedObject[]): SceneRevision => ({
+  sceneId: 's',
+  revision,
+  name: 'Scene',
+  createdAt: '',
+  objects,
+  tracks: [],
+});
+
+// Column-major shear, as stored for a raw matrix
+const shear = [1, 0, 0, 0, 0.5, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+describe('diffRevisions', () => {
+  it('sorts objects into added, removed and changed', () => {
+    const diff = diffRevisions(
+      revision(1, [savedObject('a'), savedObject('b')]),
+      revision(2, [savedObject('a', { position: { x: 1, y: 0, z: 0 }, color: '#4ECDC4' }), savedObject('c')])
+    );
+    expect(diff.added.map(obj => obj.id)).toEqual(['c']);
+    expect(diff.removed.map(obj => obj.id)).toEqual(['b']);
+    expect(diff.changed).toEqual([
+      { id: 'a', name: 'a', changes: { position: { from: { x: 0, y: 0, z: 0 }, to: { x: 1, y: 0, z: 0 } } } },
+    ]);
+  });
+
+  it('reports a raw matrix being set, changed and cleared', () => {
+    const sheared = savedObject('a', { matrix: shear });
+    const changes = (from: SavedObject, to: SavedObject) => diffRevisions(revision(1, [from]), revision(2, [to])).changed;
+
+    expect(changes(savedObject('a'), sheared)).toEqual([{ id: 'a', name: 'a', changes: { matrix: { from: null, to: shear } } }]);
+    expect(changes(sheared, savedObject('a'))).toEqual([{ id: 'a', name: 'a', changes: { matrix: { from: shear, to: null } } }]);
+    expect(changes(sheared, savedObject('a', { matrix: shear.map(v => v + 1e-12) }))).toEqual([]);
+    expect(changes(sheared, savedObject('a', { matrix: shear.map((v, i) => (i === 4 ? 2 : v)) }))[0].changes).toHaveProperty('matrix');
+  });
+});
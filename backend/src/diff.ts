@@ -0,0 +1,59 @@
+import { ObjectChanges, SavedObject, SceneDiff, SceneRevision, Vec3 } from './types.js';
+
+const EPSILON = 1e-9;
+
+function sameVec3(a: Vec3, b: Vec3): boolean {
+  return (
+    Math.abs(a.x - b.x) < EPSILON &&
+    Math.abs(a.y - b.y) < EPSILON &&
+    Math.abs(a.z - b.z) < EPSILON
+  );
+}
+
+function sameMatrix(a: number[] | null, b: number[] | null): boolean {
+  if (!a || !b) return a === b;
+  return a.length === b.length && a.every((v, i) => Math.abs(v - b[i]) < EPSILON);
+}
+
+function diffObject(before: SavedObject, after: SavedObject): ObjectChanges['changes'] {
+  const changes: ObjectChanges['changes'] = {};
+
+  if (before.name !== after.name) changes.name = { from: before.name, to: after.name };
+  if ((before.parentId ?? null) !== (after.parentId ?? null)) {
+    changes.parentId = { from: before.parentId ?? null, to: after.parentId ?? null };
+  }
+  if (!sameVec3(before.position, after.position)) changes.position = { from: before.position, to: after.position };
+  if (!sameVec3(before.rotation, after.rotation)) changes.rotation = { from: before.rotation, to: after.rotation };
+  if (!sameVec3(before.scale, after.scale)) changes.scale = { from: before.scale, to: after.scale };
+  if (!sameMatrix(before.matrix ?? null, after.matrix ?? null)) {
+    changes.matrix = { from: before.matrix ?? null, to: after.matrix ?? null };
+  }
+  if (before.color.toLowerCase() !== after.color.toLowerCase()) changes.color = { from: before.color, to: after.color };
+  if (before.visible !== after.visible) changes.visible = { from: before.visible, to: after.visible };
+
+  return changes;
+}
+
+// Objects are matched by id; anything only in `to` is added, only in `from` removed
+export function diffRevisions(from: SceneRevision, to: SceneRevision): SceneDiff {
+  const before = new Map(from.objects.map(obj => [obj.id, obj]));
+  const after = new Map(to.objects.map(obj => [obj.id, obj]));
+
+  const changed: ObjectChanges[] = [];
+  for (const [id, obj] of after) {
+    const previous = before.get(id);
+    if (!previous) continue;
+    const changes = diffObject(previous, obj);
+    if (Object.keys(changes).length > 0) {
+      changed.push({ id, name: obj.name, changes });
+    }
+  }
+
+  return {
+    from: from.revision,
+    to: to.revision,
+    added: to.objects.filter(obj => !before.has(obj.id)),
+    removed: from.objects.filter(obj => !after.has(obj.id)),
+    changed,
+  };
+}
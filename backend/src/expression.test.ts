@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ExpressionError, MAX_EXPRESSION_LENGTH, evaluate, parseVariables } from './expression';
+import { MatrixError } from './matrix';
+
+const run = (source: string, variables: Record<string, unknown> = {}) => evaluate(source, parseVariables(variables));
+
+describe('evaluate', () => {
+  it('reads angle units and constants', () => {
+    expect(run('90deg').value).toBeCloseTo(Math.PI / 2);
+    expect(run('45°').value).toBeCloseTo(Math.PI / 4);
+    expect(run('2rad').value).toBe(2);
+    expect(run('pi / 2').value).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('composes matrices and applies them to vectors', () => {
+    const result = run('T(1,2,3) * S(2) * v', { v: [1, 1, 1] });
+    expect(result).toEqual({ kind: 'vector', value: [3, 4, 5, 1] });
+  });
+
+  // Object.prototype members must not resolve as names, units or functions
+  it.each([
+    ['constructor', "Unknown name 'constructor'"],
+    ['toString', "Unknown name 'toString'"],
+    ['hasOwnProperty', "Unknown name 'hasOwnProperty'"],
+    ['__proto__', "Unknown name '__proto__'"],
+    ['2toString', "Unknown unit 'toString' (use deg, ° or rad)"],
+    ['2constructor', "Unknown unit 'constructor' (use deg, ° or rad)"],
+    ['constructor(1)', "Unknown function 'constructor'"],
+    ['valueOf(1)', "Unknown function 'valueOf'"],
+  ])('rejects %s', (source, message) => {
+    expect(() => run(source)).toThrow(ExpressionError);
+    expect(() => run(source)).toThrow(message);
+  });
+
+  it('points at the offending source', () => {
+    try {
+      run('1 + toString');
+      expect.unreachable();
+    } catch (err) {
+      expect((err as ExpressionError).span).toEqual({ start: 4, end: 12 });
+    }
+  });
+
+  it('raises matrices to integer powers', () => {
+    expect(run('T(1,2,3)^5')).toEqual(run('T(5,10,15)'));
+    expect(run('T(1,2,3)^-6')).toEqual(run('T(-6,-12,-18)'));
+    expect(run('S(2)^0')).toEqual(run('I()'));
+    expect(run('T(1,0,0)^1024').value).toEqual(run('T(1024,0,0)').value);
+  });
+
+  it('rejects a huge matrix power without computing it', () => {
+    const started = performance.now();
+    expect(() => run('I()^1e9')).toThrow('Matrix powers must be between -1024 and 1024');
+    expect(() => run('I()^-1025')).toThrow(ExpressionError);
+    expect(performance.now() - started).toBeLessThan(100);
+  });
+
+  it('rejects overlong input', () => {
+    expect(() => run('1+'.repeat(MAX_EXPRESSION_LENGTH))).toThrow(MatrixError);
+  });
+});
+
+describe('parseVariables', () => {
+  it.each([
+    [null, 'variables must be an object'],
+    [{ '1x': 1 }, "Invalid variable name '1x'"],
+    [{ v: [1, 2] }, "Variable 'v' must have 3, 4 or 16 entries"],
+    [{ v: 'a' }, "Variable 'v' must be a finite number"],
+  ])('rejects %j', (input, message) => {
+    expect(() => parseVariables(input)).toThrow(message);
+  });
+});
@@ -0,0 +1,587 @@
+import { Mat4, MatrixError, identity4, invert4, multiply4 } from './matrix.js';
+import { ExpressionValue, ExpressionVariables, SourceSpan } from './types.js';
+
+// A small expression language over scalars, homogeneous 4-vectors and
+// row-major 4×4 matrices, e.g. `T(1,0,0) * Ry(45deg) * S(2) * inverse(M_parent)`.
+//
+//   expr    := term (('+' | '-') term)*
+//   term    := unary (('*' | '/') unary)*
+//   unary   := '-' unary | power
+//   power   := postfix ('^' unary)?
+//   postfix := primary "'"*                     (transpose)
+//   primary := number unit? | name | name '(' args ')' | '(' expr ')'
+//            | '[' row (';' row)* ']'           (3×3, 4×4 or a single 3/4-vector row)
+//
+// Angles are radians unless suffixed with deg, ° or rad. Every error carries
+// the span of the offending source so callers can point at it.
+
+export const MAX_EXPRESSION_LENGTH = 4000;
+const MAX_DEPTH = 64;
+// Matrix powers beyond this only overflow or vanish, and each step is a 4×4 product
+const MAX_MATRIX_POWER = 1024;
+
+export class ExpressionError extends MatrixError {
+  readonly span: SourceSpan;
+
+  // Accepts any token or node; only its span is kept
+  constructor(message: string, at: SourceSpan) {
+    super(message);
+    this.span = { start: at.start, end: at.end };
+  }
+}
+
+// ── Tokenizer ─────────────────────────────────────────────────────────────────
+
+type TokenType = 'number' | 'name' | 'op' | 'end';
+
+interface Token extends SourceSpan {
+  type: TokenType;
+  text: string;
+  value?: number;
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_PART = /[A-Za-z0-9_.]/;
+const NUMBER = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const OPERATORS = new Set(['+', '-', '*', '/', '^', "'", '(', ')', '[', ']', ',', ';']);
+const UNITS: Record<string, number> = { deg: Math.PI / 180, '°': Math.PI / 180, rad: 1 };
+
+// Lookups in the name tables; `in` would also find Object.prototype's members
+// such as 'constructor' and 'toString'
+const hasOwn = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = NUMBER.exec(source.slice(i));
+    if (number) {
+      const start = i;
+      i += number[0].length;
+      let value = parseFloat(number[0]);
+
+      // A unit must follow the digits directly: 45deg, 90°
+      let unitEnd = i;
+      while (unitEnd < source.length && (NAME_PART.test(source[unitEnd]) || source[unitEnd] === '°')) unitEnd++;
+      if (unitEnd > i) {
+        const unit = source.slice(i, unitEnd);
+        if (!hasOwn(UNITS, unit)) {
+          throw new ExpressionError(`Unknown unit '${unit}' (use deg, ° or rad)`, { start: i, end: unitEnd });
+        }
+        value *= UNITS[unit];
+        i = unitEnd;
+      }
+      tokens.push({ type: 'number', text: source.slice(start, i), value, start, end: i });
+      continue;
+    }
+
+    if (NAME_START.test(ch)) {
+      const start = i;
+      while (i < source.length && NAME_PART.test(source[i])) i++;
+      tokens.push({ type: 'name', text: source.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (OPERATORS.has(ch)) {
+      tokens.push({ type: 'op', text: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${ch}'`, { start: i, end: i + 1 });
+  }
+
+  tokens.push({ type: 'end', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ── Parser ────────────────────────────────────────────────────────────────────
+
+type Node = SourceSpan &
+  (
+    | { type: 'number'; value: number }
+    | { type: 'name'; name: string }
+    | { type: 'call'; name: string; args: Node[] }
+    | { type: 'unary'; operand: Node }
+    | { type: 'binary'; op: string; left: Node; right: Node; opSpan: SourceSpan }
+    | { type: 'transpose'; operand: Node }
+    | { type: 'literal'; rows: Node[][] }
+  );
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new ExpressionError(`Unexpected '${next.text}'`, next);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(text: string): boolean {
+    const token = this.peek();
+    return token.type === 'op' && token.text === text;
+  }
+
+  // Consumes the operator if it is next
+  private accept(text: string): boolean {
+    if (!this.isOp(text)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(text: string): Token {
+    const token = this.next();
+    if (token.type !== 'op' || token.text !== text) {
+      const found = token.type === 'end' ? 'end of expression' : `'${token.text}'`;
+      throw new ExpressionError(`Expected '${text}' but found ${found}`, token);
+    }
+    return token;
+  }
+
+  private nested<T>(at: Token, parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) throw new ExpressionError('Expression is nested too deeply', at);
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private binary(operators: string[], operand: () => Node): Node {
+    let left = operand();
+    while (this.peek().type === 'op' && operators.includes(this.peek().text)) {
+      const op = this.next();
+      const right = operand();
+      left = { type: 'binary', op: op.text, left, right, opSpan: op, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private expression(): Node {
+    return this.binary(['+', '-'], () => this.term());
+  }
+
+  private term(): Node {
+    return this.binary(['*', '/'], () => this.unary());
+  }
+
+  private unary(): Node {
+    if (this.isOp('-')) {
+      const op = this.next();
+      const operand = this.nested(op, () => this.unary());
+      return { type: 'unary', operand, start: op.start, end: operand.end };
+    }
+    return this.power();
+  }
+
+  private power(): Node {
+    const base = this.postfix();
+    if (!this.isOp('^')) return base;
+    const op = this.next();
+    const exponent = this.nested(op, () => this.unary());
+    return { type: 'binary', op: '^', left: base, right: exponent, opSpan: op, start: base.start, end: exponent.end };
+  }
+
+  private postfix(): Node {
+    let node = this.primary();
+    while (this.isOp("'")) {
+      const op = this.next();
+      node = { type: 'transpose', operand: node, start: node.start, end: op.end };
+    }
+    return node;
+  }
+
+  private primary(): Node {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { type: 'number', value: token.value!, start: token.start, end: token.end };
+    }
+
+    if (token.type === 'name') {
+      if (!this.isOp('(')) return { type: 'name', name: token.text, start: token.start, end: token.end };
+      this.next();
+      const args: Node[] = [];
+      if (!this.isOp(')')) {
+        do {
+          args.push(this.nested(token, () => this.expression()));
+        } while (this.accept(','));
+      }
+      const close = this.expect(')');
+      return { type: 'call', name: token.text, args, start: token.start, end: close.end };
+    }
+
+    if (token.type === 'op' && token.text === '(') {
+      const inner = this.nested(token, () => this.expression());
+      const close = this.expect(')');
+      return { ...inner, start: token.start, end: close.end };
+    }
+
+    if (token.type === 'op' && token.text === '[') {
+      const rows: Node[][] = [];
+      do {
+        const row: Node[] = [];
+        do {
+          row.push(this.nested(token, () => this.expression()));
+        } while (this.accept(','));
+        rows.push(row);
+      } while (this.accept(';'));
+      const close = this.expect(']');
+      return { type: 'literal', rows, start: token.start, end: close.end };
+    }
+
+    const found = token.type === 'end' ? 'end of expression' : `'${token.text}'`;
+    throw new ExpressionError(`Expected a value but found ${found}`, token);
+  }
+}
+
+// ── Values ────────────────────────────────────────────────────────────────────
+
+const scalar = (value: number): ExpressionValue => ({ kind: 'scalar', value });
+const vector = (value: number[]): ExpressionValue => ({ kind: 'vector', value });
+const matrix = (value: Mat4): ExpressionValue => ({ kind: 'matrix', value });
+
+function describe(value: ExpressionValue): string {
+  return value.kind === 'scalar' ? 'a scalar' : `a ${value.kind}`;
+}
+
+function transpose4(m: Mat4): Mat4 {
+  return [0, 1, 2, 3].flatMap(row => [0, 1, 2, 3].map(col => m[col * 4 + row]));
+}
+
+function determinant4(m: Mat4): number {
+  const minor = (row: number, col: number) => {
+    const rest = [0, 1, 2, 3].filter(r => r !== row).flatMap(r =>
+      [0, 1, 2, 3].filter(c => c !== col).map(c => m[r * 4 + c])
+    );
+    return (
+      rest[0] * (rest[4] * rest[8] - rest[5] * rest[7]) -
+      rest[1] * (rest[3] * rest[8] - rest[5] * rest[6]) +
+      rest[2] * (rest[3] * rest[7] - rest[4] * rest[6])
+    );
+  };
+  return [0, 1, 2, 3].reduce((sum, col) => sum + (col % 2 === 0 ? 1 : -1) * m[col] * minor(0, col), 0);
+}
+
+function transformVector(m: Mat4, v: number[]): number[] {
+  return [0, 1, 2, 3].map(row => m[row * 4] * v[0] + m[row * 4 + 1] * v[1] + m[row * 4 + 2] * v[2] + m[row * 4 + 3] * v[3]);
+}
+
+function rotation(axis: [number, number, number], angle: number): Mat4 {
+  const [x, y, z] = axis;
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const t = 1 - c;
+  return [
+    t * x * x + c, t * x * y - s * z, t * x * z + s * y, 0,
+    t * x * y + s * z, t * y * y + c, t * y * z - s * x, 0,
+    t * x * z - s * y, t * y * z + s * x, t * z * z + c, 0,
+    0, 0, 0, 1,
+  ];
+}
+
+function translation(x: number, y: number, z: number): Mat4 {
+  return [1, 0, 0, x, 0, 1, 0, y, 0, 0, 1, z, 0, 0, 0, 1];
+}
+
+// ── Built-in functions ────────────────────────────────────────────────────────
+
+interface Builtin {
+  signature: string;
+  arity: number[];
+  // Arguments are already evaluated; `at` reports a problem with argument i
+  apply: (args: ExpressionValue[], at: (i: number, message: string) => never) => ExpressionValue;
+}
+
+function scalars(args: ExpressionValue[], at: (i: number, message: string) => never): number[] {
+  return args.map((arg, i) => (arg.kind === 'scalar' ? arg.value : at(i, `Expected a scalar, got ${describe(arg)}`)));
+}
+
+function matrixArg(args: ExpressionValue[], at: (i: number, message: string) => never): Mat4 {
+  return args[0].kind === 'matrix' ? args[0].value : at(0, `Expected a matrix, got ${describe(args[0])}`);
+}
+
+// T(x, y, z) and S(x, y, z) also take a single vector
+function xyz(args: ExpressionValue[], at: (i: number, message: string) => never): number[] {
+  if (args.length === 1 && args[0].kind === 'vector') return args[0].value.slice(0, 3);
+  return scalars(args, at);
+}
+
+const BUILTINS: Record<string, Builtin> = {
+  I: { signature: 'I()', arity: [0], apply: () => matrix(identity4()) },
+  T: {
+    signature: 'T(x, y, z) or T(v)',
+    arity: [1, 3],
+    apply: (args, at) => {
+      const [x, y, z] = xyz(args, at);
+      return matrix(translation(x, y, z));
+    },
+  },
+  Rx: { signature: 'Rx(angle)', arity: [1], apply: (args, at) => matrix(rotation([1, 0, 0], scalars(args, at)[0])) },
+  Ry: { signature: 'Ry(angle)', arity: [1], apply: (args, at) => matrix(rotation([0, 1, 0], scalars(args, at)[0])) },
+  Rz: { signature: 'Rz(angle)', arity: [1], apply: (args, at) => matrix(rotation([0, 0, 1], scalars(args, at)[0])) },
+  R: {
+    signature: 'R(x, y, z, angle)',
+    arity: [4],
+    apply: (args, at) => {
+      const [x, y, z, angle] = scalars(args, at);
+      const length = Math.hypot(x, y, z);
+      if (length === 0) at(0, 'Rotation axis must not be zero');
+      return matrix(rotation([x / length, y / length, z / length], angle));
+    },
+  },
+  S: {
+    signature: 'S(s) or S(x, y, z)',
+    arity: [1, 3],
+    apply: (args, at) => {
+      const [x, y = x, z = x] = xyz(args, at);
+      return matrix([x, 0, 0, 0, 0, y, 0, 0, 0, 0, z, 0, 0, 0, 0, 1]);
+    },
+  },
+  // Same argument order as three.js Matrix4.makeShear
+  H: {
+    signature: 'H(xy, xz, yx, yz, zx, zy)',
+    arity: [6],
+    apply: (args, at) => {
+      const [xy, xz, yx, yz, zx, zy] = scalars(args, at);
+      return matrix([1, yx, zx, 0, xy, 1, zy, 0, xz, yz, 1, 0, 0, 0, 0, 1]);
+    },
+  },
+  // OpenGL clip space, as three.js PerspectiveCamera; fovy is the full vertical angle
+  perspective: {
+    signature: 'perspective(fovy, aspect, near, far)',
+    arity: [4],
+    apply: (args, at) => {
+      const [fovy, aspect, near, far] = scalars(args, at);
+      if (near <= 0 || far <= near) at(2, 'Need 0 < near < far');
+      const f = 1 / Math.tan(fovy / 2);
+      return matrix([
+        f / aspect, 0, 0, 0,
+        0, f, 0, 0,
+        0, 0, -(far + near) / (far - near), (-2 * far * near) / (far - near),
+        0, 0, -1, 0,
+      ]);
+    },
+  },
+  ortho: {
+    signature: 'ortho(left, right, bottom, top, near, far)',
+    arity: [6],
+    apply: (args, at) => {
+      const [l, r, b, t, n, f] = scalars(args, at);
+      if (l === r || b === t || n === f) at(0, 'Opposite planes must differ');
+      return matrix([
+        2 / (r - l), 0, 0, -(r + l) / (r - l),
+        0, 2 / (t - b), 0, -(t + b) / (t - b),
+        0, 0, -2 / (f - n), -(f + n) / (f - n),
+        0, 0, 0, 1,
+      ]);
+    },
+  },
+  vec: {
+    signature: 'vec(x, y, z) or vec(x, y, z, w)',
+    arity: [3, 4],
+    apply: (args, at) => {
+      const [x, y, z, w = 1] = scalars(args, at);
+      return vector([x, y, z, w]);
+    },
+  },
+  transpose: { signature: 'transpose(M)', arity: [1], apply: (args, at) => matrix(transpose4(matrixArg(args, at))) },
+  inverse: {
+    signature: 'inverse(M)',
+    arity: [1],
+    apply: (args, at) => matrix(invert4(matrixArg(args, at)) ?? at(0, 'Matrix is singular and has no inverse')),
+  },
+  det: { signature: 'det(M)', arity: [1], apply: (args, at) => scalar(determinant4(matrixArg(args, at))) },
+  trace: {
+    signature: 'trace(M)',
+    arity: [1],
+    apply: (args, at) => {
+      const m = matrixArg(args, at);
+      return scalar(m[0] + m[5] + m[10] + m[15]);
+    },
+  },
+};
+BUILTINS.inv = BUILTINS.inverse;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI };
+
+// ── Evaluator ─────────────────────────────────────────────────────────────────
+
+function fail(message: string, span: SourceSpan): never {
+  throw new ExpressionError(message, span);
+}
+
+function add(op: string, a: ExpressionValue, b: ExpressionValue, span: SourceSpan): ExpressionValue {
+  if (a.kind !== b.kind) fail(`Cannot apply '${op}' to ${describe(a)} and ${describe(b)}`, span);
+  const sign = op === '+' ? 1 : -1;
+  if (a.kind === 'scalar') return scalar(a.value + sign * (b.value as number));
+  const sum = a.value.map((v, i) => v + sign * (b.value as number[])[i]);
+  return a.kind === 'matrix' ? matrix(sum) : vector(sum);
+}
+
+function scale(value: ExpressionValue, factor: number): ExpressionValue {
+  if (value.kind === 'scalar') return scalar(value.value * factor);
+  const scaled = value.value.map(v => v * factor);
+  return value.kind === 'matrix' ? matrix(scaled) : vector(scaled);
+}
+
+function multiply(a: ExpressionValue, b: ExpressionValue, span: SourceSpan): ExpressionValue {
+  if (a.kind === 'scalar') return scale(b, a.value);
+  if (b.kind === 'scalar') return scale(a, b.value);
+  if (a.kind === 'matrix' && b.kind === 'matrix') return matrix(multiply4(a.value, b.value));
+  if (a.kind === 'matrix' && b.kind === 'vector') return vector(transformVector(a.value, b.value));
+  return fail(`Cannot multiply ${describe(a)} by ${describe(b)} (vectors go on the right of a matrix)`, span);
+}
+
+function power(base: ExpressionValue, exponent: ExpressionValue, node: Node & { opSpan: SourceSpan; right: Node }): ExpressionValue {
+  if (exponent.kind !== 'scalar') fail(`Exponent must be a scalar, got ${describe(exponent)}`, node.right);
+  if (base.kind === 'scalar') return scalar(Math.pow(base.value, exponent.value));
+  if (base.kind !== 'matrix') fail(`Cannot raise ${describe(base)} to a power`, node);
+
+  const n = exponent.value;
+  if (!Number.isInteger(n)) fail('Matrix powers must be integers', node.right);
+  if (Math.abs(n) > MAX_MATRIX_POWER) {
+    fail(`Matrix powers must be between -${MAX_MATRIX_POWER} and ${MAX_MATRIX_POWER}`, node.right);
+  }
+  let factor = base.value;
+  if (n < 0) factor = invert4(base.value) ?? fail('Matrix is singular and has no inverse', node);
+
+  // Exponentiation by squaring: one product per bit of |n|
+  let result = identity4();
+  for (let bits = Math.abs(n); bits > 0; bits >>= 1) {
+    if (bits & 1) result = multiply4(result, factor);
+    if (bits > 1) factor = multiply4(factor, factor);
+  }
+  return matrix(result);
+}
+
+function literal(node: Node & { type: 'literal' }, rows: ExpressionValue[][]): ExpressionValue {
+  const values = rows.map((row, r) =>
+    row.map((value, c) =>
+      value.kind === 'scalar' ? value.value : fail(`Matrix entries must be scalars, got ${describe(value)}`, node.rows[r][c])
+    )
+  );
+  const width = values[0].length;
+  if (values.some(row => row.length !== width)) fail('All rows must have the same number of entries', node);
+
+  if (values.length === 1 && (width === 3 || width === 4)) return vector(width === 3 ? [...values[0], 1] : values[0]);
+  if (values.length === 4 && width === 4) return matrix(values.flat());
+  if (values.length === 3 && width === 3) {
+    // The linear part of an otherwise identity 4×4
+    return matrix([...values[0], 0, ...values[1], 0, ...values[2], 0, 0, 0, 0, 1]);
+  }
+  return fail(`A ${values.length}×${width} literal is neither a 3/4-vector nor a 3×3 or 4×4 matrix`, node);
+}
+
+function evaluateNode(node: Node, variables: Map<string, ExpressionValue>): ExpressionValue {
+  switch (node.type) {
+    case 'number':
+      return scalar(node.value);
+
+    case 'name': {
+      const value = variables.get(node.name);
+      if (value) return value;
+      if (hasOwn(CONSTANTS, node.name)) return scalar(CONSTANTS[node.name]);
+      if (hasOwn(BUILTINS, node.name)) return fail(`'${node.name}' is a function: ${BUILTINS[node.name].signature}`, node);
+      return fail(`Unknown name '${node.name}'`, node);
+    }
+
+    case 'call': {
+      const builtin = hasOwn(BUILTINS, node.name) ? BUILTINS[node.name] : undefined;
+      if (!builtin) fail(`Unknown function '${node.name}'`, { start: node.start, end: node.start + node.name.length });
+      if (!builtin.arity.includes(node.args.length)) {
+        fail(`${node.name} takes ${builtin.arity.join(' or ')} argument(s): ${builtin.signature}`, node);
+      }
+      const args = node.args.map(arg => evaluateNode(arg, variables));
+      return builtin.apply(args, (i, message) => fail(message, node.args[i] ?? node));
+    }
+
+    case 'unary':
+      return scale(evaluateNode(node.operand, variables), -1);
+
+    case 'transpose': {
+      const value = evaluateNode(node.operand, variables);
+      if (value.kind !== 'matrix') fail(`Cannot transpose ${describe(value)}`, node);
+      return matrix(transpose4(value.value));
+    }
+
+    case 'binary': {
+      const left = evaluateNode(node.left, variables);
+      const right = evaluateNode(node.right, variables);
+      switch (node.op) {
+        case '+':
+        case '-':
+          return add(node.op, left, right, node.opSpan);
+        case '*':
+          return multiply(left, right, node.opSpan);
+        case '/':
+          if (right.kind !== 'scalar') return fail(`Can only divide by a scalar, got ${describe(right)}`, node.right);
+          if (right.value === 0) return fail('Division by zero', node.right);
+          return scale(left, 1 / right.value);
+        default:
+          return power(left, right, node);
+      }
+    }
+
+    case 'literal':
+      return literal(node, node.rows.map(row => row.map(entry => evaluateNode(entry, variables))));
+  }
+}
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+// Validates the request's named inputs; errors name the offending variable
+export function parseVariables(input: unknown): Map<string, ExpressionValue> {
+  const variables = new Map<string, ExpressionValue>();
+  if (input === undefined) return variables;
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new MatrixError('variables must be an object of name → number or array');
+  }
+
+  Object.entries(input as ExpressionVariables).forEach(([name, value]) => {
+    if (!NAME.test(name)) throw new MatrixError(`Invalid variable name '${name}'`);
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      variables.set(name, scalar(value));
+    } else if (Array.isArray(value) && value.every(n => typeof n === 'number' && Number.isFinite(n))) {
+      if (value.length === 16) variables.set(name, matrix(value));
+      else if (value.length === 3) variables.set(name, vector([...value, 1]));
+      else if (value.length === 4) variables.set(name, vector(value));
+      else throw new MatrixError(`Variable '${name}' must have 3, 4 or 16 entries`);
+    } else {
+      throw new MatrixError(`Variable '${name}' must be a finite number or an array of finite numbers`);
+    }
+  });
+  return variables;
+}
+
+export function evaluate(source: string, variables: Map<string, ExpressionValue>): ExpressionValue {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new MatrixError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const ast = new Parser(tokenize(source)).parse();
+  const result = evaluateNode(ast, variables);
+  const numbers = result.kind === 'scalar' ? [result.value] : result.value;
+  if (!numbers.every(Number.isFinite)) fail('Result is not finite', ast);
+  return result;
+}
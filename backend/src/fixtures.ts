@@ -0,0 +1,14 @@
+import { SavedObject } from './types.js';
+
+// Test fixture: a unit cube at the scene root, with `extra` overriding any field
+export const savedObject = (id: string, extra: Partial<SavedObject> = {}): SavedObject => ({
+  id,
+  name: id,
+  type: 'cube',
+  position: { x: 0, y: 0, z: 0 },
+  rotation: { x: 0, y: 0, z: 0 },
+  scale: { x: 1, y: 1, z: 1 },
+  color: '#4ecdc4',
+  visible: true,
+  ...extra,
+});
@@ -0,0 +1,105 @@
+import { JsonSchema } from './types.js';
+
+// JSON Schema (draft 2020-12) for the body of POST and PUT /api/scenes,
+// mirroring Scene and SavedObject in types.ts. Served at GET /api/schema/scene
+// so the frontend can check a scene before sending it. Rules that span fields
+// (unique ids, parent links, keyframe sizes per property) are checked in
+// validation.ts after the schema passes.
+
+export const MAX_OBJECTS = 1000;
+export const MAX_TRACKS = 4 * MAX_OBJECTS;
+export const MAX_KEYFRAMES = 1000;
+export const MAX_NAME_LENGTH = 200;
+export const MAX_ID_LENGTH = 128;
+// Base64 of 100k triangles: 100k × 9 floats × 4 bytes × 4/3
+export const MAX_GEOMETRY_LENGTH = 4_800_000;
+
+const vec3: JsonSchema = {
+  type: 'object',
+  properties: { x: { type: 'number' }, y: { type: 'number' }, z: { type: 'number' } },
+  required: ['x', 'y', 'z'],
+  additionalProperties: false,
+};
+
+const base64: JsonSchema = {
+  type: 'string',
+  maxLength: MAX_GEOMETRY_LENGTH,
+  pattern: '^[A-Za-z0-9+/]*={0,2}$',
+  description: 'base64 text',
+};
+
+export const sceneSchema: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: '/api/schema/scene',
+  title: 'Scene',
+  type: 'object',
+  properties: {
+    id: {
+      type: 'string',
+      minLength: 1,
+      maxLength: MAX_ID_LENGTH,
+      pattern: '^[A-Za-z0-9_-]+$',
+      description: 'letters, digits, _ and - only',
+    },
+    name: { type: 'string', minLength: 1, maxLength: MAX_NAME_LENGTH },
+    createdAt: { type: 'string', maxLength: 64 },
+    // Set by the server; accepted so a fetched scene can be sent back unchanged
+    updatedAt: { type: 'string', maxLength: 64 },
+    revision: { type: 'integer' },
+    objects: { type: 'array', maxItems: MAX_OBJECTS, items: { $ref: '#/$defs/savedObject' } },
+    tracks: { type: 'array', maxItems: MAX_TRACKS, items: { $ref: '#/$defs/animationTrack' } },
+  },
+  required: ['name', 'objects'],
+  additionalProperties: false,
+  $defs: {
+    vec3,
+    savedObject: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', minLength: 1, maxLength: MAX_ID_LENGTH },
+        name: { type: 'string', maxLength: MAX_NAME_LENGTH },
+        type: { enum: ['cube', 'sphere', 'cylinder', 'plane', 'mesh'] },
+        parentId: { type: ['string', 'null'], maxLength: MAX_ID_LENGTH },
+        position: { $ref: '#/$defs/vec3' },
+        rotation: { $ref: '#/$defs/vec3' },
+        scale: { $ref: '#/$defs/vec3' },
+        matrix: { type: 'array', minItems: 16, maxItems: 16, items: { type: 'number' } },
+        geometry: {
+          type: 'object',
+          properties: { positions: base64, normals: base64 },
+          required: ['positions'],
+          additionalProperties: false,
+        },
+        color: {
+          type: 'string',
+          pattern: '^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$',
+          description: 'a hex color such as #4ecdc4',
+        },
+        visible: { type: 'boolean' },
+      },
+      required: ['id', 'name', 'type', 'position', 'rotation', 'scale', 'color', 'visible'],
+      additionalProperties: false,
+    },
+    animationTrack: {
+      type: 'object',
+      properties: {
+        objectId: { type: 'string', minLength: 1, maxLength: MAX_ID_LENGTH },
+        property: { enum: ['position', 'rotation', 'scale', 'matrix'] },
+        interpolation: { enum: ['step', 'linear', 'cubic', 'slerp'] },
+        keyframes: { type: 'array', maxItems: MAX_KEYFRAMES, items: { $ref: '#/$defs/keyframe' } },
+      },
+      required: ['objectId', 'property', 'interpolation', 'keyframes'],
+      additionalProperties: false,
+    },
+    keyframe: {
+      type: 'object',
+      properties: {
+        time: { type: 'number', minimum: 0 },
+        // 3 numbers, or 16 for a matrix track
+        value: { type: 'array', minItems: 3, maxItems: 16, items: { type: 'number' } },
+      },
+      required: ['time', 'value'],
+      additionalProperties: false,
+    },
+  },
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { eigen, parsePart, polar, svd } from './spectral';
+import { MatrixError } from './matrix';
+
+// Row-major rotation about y by `angle`, as a 4×4
+const rotationY = (angle: number) => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return [c, 0, s, 0, 0, 1, 0, 0, -s, 0, c, 0, 0, 0, 0, 1];
+};
+
+const diagonal = (a: number, b: number, c: number) => [a, 0, 0, 0, 0, b, 0, 0, 0, 0, c, 0, 0, 0, 0, 1];
+
+describe('eigen', () => {
+  it.each([0.5, 1, 2, 5, 90])('finds λ = 1 on the axis of a %s° rotation', (degrees) => {
+    const result = eigen(rotationY(degrees * Math.PI / 180), 'linear');
+    const real = result.eigenvalues.filter(pair => Math.abs(pair.value.im) < 1e-9);
+    expect(real).toHaveLength(1);
+    expect(real[0].value.re).toBeCloseTo(1);
+    expect(Math.abs(real[0].vectors[0].re[1])).toBeCloseTo(1);
+    expect(result.allReal).toBe(false);
+    expect(result.maxResidual).toBeLessThan(1e-9);
+  });
+
+  it('reports the multiplicity of a repeated eigenvalue', () => {
+    const result = eigen(diagonal(2, 2, 3), 'linear');
+    expect(result.eigenvalues.map(pair => [pair.value.re, pair.multiplicity])).toEqual([[3, 1], [2, 2]]);
+    expect(result.diagonalizable).toBe(true);
+  });
+
+  it('flags a shear as defective', () => {
+    const shear = [1, 1, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+    const result = eigen(shear, 'linear');
+    expect(result.diagonalizable).toBe(false);
+    expect(result.eigenvalues[0].defective).toBe(true);
+  });
+});
+
+describe('svd', () => {
+  it('sorts singular values and detects rank', () => {
+    const result = svd(diagonal(1, 0, 3), 'linear');
+    expect(result.singularValues[0]).toBeCloseTo(3);
+    expect(result.singularValues[1]).toBeCloseTo(1);
+    expect(result.singularValues[2]).toBeCloseTo(0);
+    expect(result.rank).toBe(2);
+    expect(result.conditionNumber).toBeNull();
+    expect(result.residual).toBeLessThan(1e-12);
+  });
+});
+
+describe('polar', () => {
+  it('splits a reflection off as det(Q) < 0', () => {
+    const result = polar(diagonal(-2, 1, 1), 'linear');
+    expect(result.reflection).toBe(true);
+    expect(result.stretch[0]).toBeCloseTo(2);
+  });
+});
+
+describe('parsePart', () => {
+  it('defaults to the linear part and rejects anything else', () => {
+    expect(parsePart(undefined)).toBe('linear');
+    expect(parsePart('full')).toBe('full');
+    expect(() => parsePart('constructor')).toThrow(MatrixError);
+  });
+});
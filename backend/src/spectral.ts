@@ -0,0 +1,461 @@
+import { Mat4, MatrixError, linearPart } from './matrix.js';
+import { quaternionFromRotation } from './decompose.js';
+import {
+  Complex,
+  ComplexVector,
+  EigenPair,
+  EigenResult,
+  MatrixPart,
+  PolarResult,
+  SvdResult,
+} from './types.js';
+
+// Eigen, singular value and polar decompositions of a 3×3 or 4×4 block.
+// Matrices are small, so everything works on square number[][] copies and
+// favours simple, well-understood iterations over speed: shifted complex QR
+// for eigenvalues, null spaces by elimination for eigenvectors and one-sided
+// Jacobi for the SVD (which the polar decomposition is built from).
+
+type Matrix = number[][];
+
+const DEFLATION_TOLERANCE = 1e-14;
+// Eigenvalues closer than this (relative to ‖A‖) are treated as one repeated
+// eigenvalue; a defective one is only accurate to about ε^(1/k) anyway
+const CLUSTER_TOLERANCE = 1e-5;
+const MAX_QR_ITERATIONS = 200;
+const MAX_JACOBI_SWEEPS = 60;
+
+// ── Small helpers ─────────────────────────────────────────────────────────────
+
+const complex = (re: number, im = 0): Complex => ({ re, im });
+const add = (a: Complex, b: Complex) => complex(a.re + b.re, a.im + b.im);
+const sub = (a: Complex, b: Complex) => complex(a.re - b.re, a.im - b.im);
+const mul = (a: Complex, b: Complex) => complex(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+const conj = (a: Complex) => complex(a.re, -a.im);
+const abs = (a: Complex) => Math.hypot(a.re, a.im);
+const scale = (a: Complex, s: number) => complex(a.re * s, a.im * s);
+
+function div(a: Complex, b: Complex): Complex {
+  const d = b.re * b.re + b.im * b.im;
+  return complex((a.re * b.re + a.im * b.im) / d, (a.im * b.re - a.re * b.im) / d);
+}
+
+// Principal square root
+function sqrt(a: Complex): Complex {
+  const r = abs(a);
+  const re = Math.sqrt((r + a.re) / 2);
+  const im = Math.sqrt(Math.max(r - a.re, 0) / 2);
+  return complex(re, a.im < 0 ? -im : im);
+}
+
+function toSquare(flat: number[], n: number): Matrix {
+  return Array.from({ length: n }, (_, row) => flat.slice(row * n, row * n + n));
+}
+
+const flatten = (a: Matrix) => a.flat();
+const identity = (n: number): Matrix =>
+  Array.from({ length: n }, (_, row) => Array.from({ length: n }, (_, col) => (row === col ? 1 : 0)));
+const transpose = (a: Matrix): Matrix => a[0].map((_, col) => a.map(row => row[col]));
+const frobenius = (a: Matrix) => Math.sqrt(a.flat().reduce((sum, v) => sum + v * v, 0));
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  return a.map(row => b[0].map((_, col) => row.reduce((sum, v, k) => sum + v * b[k][col], 0)));
+}
+
+function determinant(a: Matrix): number {
+  // Elimination with partial pivoting on a copy
+  const m = a.map(row => [...row]);
+  const n = m.length;
+  let det = 1;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (m[pivot][col] === 0) return 0;
+    if (pivot !== col) {
+      [m[pivot], m[col]] = [m[col], m[pivot]];
+      det = -det;
+    }
+    det *= m[col][col];
+    for (let row = col + 1; row < n; row++) {
+      const f = m[row][col] / m[col][col];
+      for (let k = col; k < n; k++) m[row][k] -= f * m[col][k];
+    }
+  }
+  return det;
+}
+
+// max |AᵀA − I|
+function orthogonalityError(a: Matrix): number {
+  const ata = multiply(transpose(a), a);
+  return Math.max(...ata.flatMap((row, i) => row.map((v, j) => Math.abs(v - (i === j ? 1 : 0)))));
+}
+
+export function parsePart(value: unknown): MatrixPart {
+  if (value === undefined || value === 'linear') return 'linear';
+  if (value === 'full') return 'full';
+  throw new MatrixError("part must be 'linear' (upper-left 3×3) or 'full' (the whole 4×4)");
+}
+
+function block(m: Mat4, part: MatrixPart): Matrix {
+  return part === 'linear' ? toSquare(linearPart(m), 3) : toSquare(m, 4);
+}
+
+// ── Eigenvalues ───────────────────────────────────────────────────────────────
+
+// Eigenvalue of the trailing 2×2 of the active block closest to its last
+// diagonal entry
+function wilkinsonShift(h: Complex[][], size: number): Complex {
+  const a = h[size - 2][size - 2];
+  const b = h[size - 2][size - 1];
+  const c = h[size - 1][size - 2];
+  const d = h[size - 1][size - 1];
+  const mean = scale(add(a, d), 0.5);
+  const half = scale(sub(a, d), 0.5);
+  const disc = sqrt(add(mul(half, half), mul(b, c)));
+  const first = add(mean, disc);
+  const second = sub(mean, disc);
+  return abs(sub(first, d)) < abs(sub(second, d)) ? first : second;
+}
+
+// One step of A − μI = QR, A ← RQ + μI on the leading size×size block, using
+// complex Givens rotations
+function qrStep(h: Complex[][], size: number, shift: Complex): void {
+  for (let i = 0; i < size; i++) h[i][i] = sub(h[i][i], shift);
+
+  const rotations: { row: number; c: Complex; s: Complex }[] = [];
+  for (let col = 0; col < size - 1; col++) {
+    for (let row = size - 1; row > col; row--) {
+      const x = h[row - 1][col];
+      const y = h[row][col];
+      const r = Math.hypot(abs(x), abs(y));
+      if (r === 0) continue;
+      const c = scale(x, 1 / r);
+      const s = scale(y, 1 / r);
+      for (let k = 0; k < size; k++) {
+        const upper = h[row - 1][k];
+        const lower = h[row][k];
+        h[row - 1][k] = add(mul(conj(c), upper), mul(conj(s), lower));
+        h[row][k] = sub(mul(c, lower), mul(s, upper));
+      }
+      rotations.push({ row, c, s });
+    }
+  }
+
+  for (const { row, c, s } of rotations) {
+    for (let k = 0; k < size; k++) {
+      const left = h[k][row - 1];
+      const right = h[k][row];
+      h[k][row - 1] = add(mul(left, c), mul(right, s));
+      h[k][row] = sub(mul(right, conj(c)), mul(left, conj(s)));
+    }
+  }
+
+  for (let i = 0; i < size; i++) h[i][i] = add(h[i][i], shift);
+}
+
+function eigenvalues(a: Matrix, norm: number): Complex[] {
+  const h = a.map(row => row.map(v => complex(v)));
+  const values: Complex[] = [];
+  let size = h.length;
+  let iterations = 0;
+
+  while (size > 1) {
+    const last = size - 1;
+    const offDiagonal = Math.max(...h[last].slice(0, last).map(abs));
+    if (offDiagonal <= DEFLATION_TOLERANCE * norm) {
+      values.push(h[last][last]);
+      size--;
+      iterations = 0;
+      continue;
+    }
+    if (++iterations > MAX_QR_ITERATIONS) {
+      throw new MatrixError('Eigenvalue iteration did not converge');
+    }
+    // An occasional ad hoc shift breaks the cycles a pure Wilkinson shift can fall into
+    const shift = iterations % 10 === 0
+      ? add(h[last][last], complex(0.75 * offDiagonal, 0.5 * offDiagonal))
+      : wilkinsonShift(h, size);
+    qrStep(h, size, shift);
+  }
+  values.push(h[0][0]);
+  return values;
+}
+
+// Groups nearly equal eigenvalues, averaging each group
+function cluster(values: Complex[], tolerance: number): { value: Complex; multiplicity: number }[] {
+  const groups: Complex[][] = [];
+  for (const value of values) {
+    const group = groups.find(g => abs(sub(g[0], value)) <= tolerance);
+    if (group) group.push(value);
+    else groups.push([value]);
+  }
+  return groups.map(group => {
+    const mean = scale(group.reduce(add, complex(0)), 1 / group.length);
+    // A real matrix has real or conjugate-pair eigenvalues; drop rounding noise
+    if (Math.abs(mean.im) <= tolerance) mean.im = 0;
+    return { value: mean, multiplicity: group.length };
+  });
+}
+
+// ── Eigenvectors ──────────────────────────────────────────────────────────────
+
+// Basis of the null space of a complex square matrix by Gaussian elimination
+// with complete pivoting. Pivots below the tolerance count as zero; the
+// dimension is clamped to [1, maxDimension] since the caller knows λ is an
+// eigenvalue of the given multiplicity.
+function nullSpace(m: Complex[][], tolerance: number, maxDimension: number): Complex[][] {
+  const n = m.length;
+  const a = m.map(row => [...row]);
+  const columns = Array.from({ length: n }, (_, i) => i);
+  const pivots: number[] = [];
+
+  for (let k = 0; k < n; k++) {
+    let best = -1, bestRow = k, bestCol = k;
+    for (let row = k; row < n; row++) {
+      for (let col = k; col < n; col++) {
+        const v = abs(a[row][col]);
+        if (v > best) { best = v; bestRow = row; bestCol = col; }
+      }
+    }
+    pivots.push(best);
+    [a[k], a[bestRow]] = [a[bestRow], a[k]];
+    for (const row of a) [row[k], row[bestCol]] = [row[bestCol], row[k]];
+    [columns[k], columns[bestCol]] = [columns[bestCol], columns[k]];
+    if (best === 0) continue;
+
+    for (let row = k + 1; row < n; row++) {
+      const f = div(a[row][k], a[k][k]);
+      for (let col = k; col < n; col++) a[row][col] = sub(a[row][col], mul(f, a[k][col]));
+    }
+  }
+
+  const negligible = pivots.filter(p => p <= tolerance).length;
+  const dimension = Math.min(Math.max(negligible, 1), maxDimension);
+  const rank = n - dimension;
+
+  // One vector per free (permuted) column, by back substitution through the
+  // first `rank` rows of the echelon form
+  const basis: Complex[][] = [];
+  for (let free = rank; free < n; free++) {
+    const x: Complex[] = Array.from({ length: n }, (_, i) => complex(i === free ? 1 : 0));
+    for (let row = rank - 1; row >= 0; row--) {
+      let sum = complex(0);
+      for (let col = row + 1; col < n; col++) sum = add(sum, mul(a[row][col], x[col]));
+      x[row] = div(scale(sum, -1), a[row][row]);
+    }
+    const vector: Complex[] = new Array(n);
+    columns.forEach((original, i) => { vector[original] = x[i]; });
+    basis.push(vector);
+  }
+  return basis;
+}
+
+// Unit length, with the largest component real and positive so the result
+// does not depend on the arbitrary phase elimination produced
+function normalize(v: Complex[]): Complex[] {
+  const largest = v.reduce((best, c) => (abs(c) > abs(best) ? c : best), v[0]);
+  const phase = scale(conj(largest), 1 / abs(largest));
+  const norm = Math.sqrt(v.reduce((sum, c) => sum + abs(c) ** 2, 0));
+  return v.map(c => scale(mul(c, phase), 1 / norm));
+}
+
+// A − λI, or its adjoint Aᴴ − λ̄I for left eigenvectors
+function shifted(a: Matrix, value: Complex, adjoint: boolean): Complex[][] {
+  const lambda = adjoint ? conj(value) : value;
+  return a.map((row, i) =>
+    row.map((_, j) => {
+      const entry = complex(adjoint ? a[j][i] : a[i][j]);
+      return i === j ? sub(entry, lambda) : entry;
+    })
+  );
+}
+
+function residual(a: Matrix, value: Complex, v: Complex[], norm: number): number {
+  const r = a.map((row, i) => sub(row.reduce((sum, entry, j) => add(sum, scale(v[j], entry)), complex(0)), mul(value, v[i])));
+  return Math.sqrt(r.reduce((sum, c) => sum + abs(c) ** 2, 0)) / (norm || 1);
+}
+
+const toVector = (v: Complex[]): ComplexVector => ({ re: v.map(c => c.re), im: v.map(c => c.im) });
+
+export function eigen(m: Mat4, part: MatrixPart): EigenResult {
+  const a = block(m, part);
+  const n = a.length;
+  const norm = frobenius(a);
+  const tolerance = CLUSTER_TOLERANCE * Math.max(norm, 1e-300);
+
+  const pairs: EigenPair[] = cluster(eigenvalues(a, norm), tolerance).map(({ value, multiplicity }) => {
+    const vectors = nullSpace(shifted(a, value, false), tolerance, multiplicity).map(normalize);
+
+    let conditionNumber: number | null = null;
+    if (multiplicity === 1) {
+      const [left] = nullSpace(shifted(a, value, true), tolerance, 1).map(normalize);
+      const overlap = abs(left.reduce((sum, y, i) => add(sum, mul(conj(y), vectors[0][i])), complex(0)));
+      conditionNumber = overlap > 0 ? 1 / overlap : null;
+    }
+
+    return {
+      value,
+      multiplicity,
+      vectors: vectors.map(toVector),
+      defective: vectors.length < multiplicity,
+      residual: Math.max(...vectors.map(v => residual(a, value, v, norm))),
+      conditionNumber,
+    };
+  });
+
+  // Equal moduli (rotations) are common, so compare them with a tolerance
+  // before falling back to real then imaginary part
+  pairs.sort((p, q) => {
+    const modulus = abs(q.value) - abs(p.value);
+    if (Math.abs(modulus) > tolerance) return modulus;
+    return q.value.re - p.value.re || q.value.im - p.value.im;
+  });
+
+  return {
+    part,
+    size: n,
+    eigenvalues: pairs,
+    allReal: pairs.every(p => p.value.im === 0),
+    diagonalizable: pairs.every(p => !p.defective),
+    maxResidual: Math.max(...pairs.map(p => p.residual)),
+    conditionNumber: singularValueDecomposition(a).conditionNumber,
+  };
+}
+
+// ── SVD ───────────────────────────────────────────────────────────────────────
+
+interface Svd {
+  u: Matrix;
+  sigma: number[];
+  v: Matrix;
+  rank: number;
+  conditionNumber: number | null;
+}
+
+// One-sided Jacobi: rotate column pairs of W = A·V until they are mutually
+// orthogonal; then σᵢ = ‖wᵢ‖ and uᵢ = wᵢ / σᵢ
+function singularValueDecomposition(a: Matrix): Svd {
+  const n = a.length;
+  const w = a.map(row => [...row]);
+  const v = identity(n);
+
+  for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+    let rotated = false;
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        let alpha = 0, beta = 0, gamma = 0;
+        for (let k = 0; k < n; k++) {
+          alpha += w[k][p] * w[k][p];
+          beta += w[k][q] * w[k][q];
+          gamma += w[k][p] * w[k][q];
+        }
+        if (gamma === 0 || Math.abs(gamma) <= Number.EPSILON * Math.sqrt(alpha * beta)) continue;
+        rotated = true;
+
+        const zeta = (beta - alpha) / (2 * gamma);
+        const t = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const s = c * t;
+        for (const m of [w, v]) {
+          for (let k = 0; k < n; k++) {
+            const mp = m[k][p];
+            const mq = m[k][q];
+            m[k][p] = c * mp - s * mq;
+            m[k][q] = s * mp + c * mq;
+          }
+        }
+      }
+    }
+    if (!rotated) break;
+  }
+
+  const sigma = Array.from({ length: n }, (_, col) => Math.sqrt(w.reduce((sum, row) => sum + row[col] ** 2, 0)));
+  const order = sigma.map((_, i) => i).sort((i, j) => sigma[j] - sigma[i]);
+  const sorted = order.map(i => sigma[i]);
+  const vSorted = v.map(row => order.map(i => row[i]));
+
+  const tolerance = n * Number.EPSILON * (sorted[0] || 0);
+  const rank = sorted.filter(s => s > tolerance).length;
+
+  // Columns for σ ≈ 0 have no direction of their own; complete U to an
+  // orthonormal basis with Gram-Schmidt on the standard basis
+  const uColumns: number[][] = order.slice(0, rank).map((i, k) => w.map(row => row[i] / sorted[k]));
+  for (let e = 0; uColumns.length < n && e < n; e++) {
+    const candidate = Array.from({ length: n }, (_, i) => (i === e ? 1 : 0));
+    for (const u of uColumns) {
+      const d = u.reduce((sum, ui, i) => sum + ui * candidate[i], 0);
+      u.forEach((ui, i) => { candidate[i] -= d * ui; });
+    }
+    const len = Math.hypot(...candidate);
+    if (len > 1e-6) uColumns.push(candidate.map(c => c / len));
+  }
+
+  return {
+    u: transpose(uColumns),
+    sigma: sorted,
+    v: vSorted,
+    rank,
+    conditionNumber: rank === n ? sorted[0] / sorted[n - 1] : null,
+  };
+}
+
+const diagonal = (values: number[]): Matrix => values.map((value, i) => values.map((_, j) => (i === j ? value : 0)));
+
+function relativeResidual(a: Matrix, approximation: Matrix): number {
+  const norm = frobenius(a);
+  const difference = frobenius(a.map((row, i) => row.map((v, j) => v - approximation[i][j])));
+  return norm === 0 ? difference : difference / norm;
+}
+
+export function svd(m: Mat4, part: MatrixPart): SvdResult {
+  const a = block(m, part);
+  const { u, sigma, v, rank, conditionNumber } = singularValueDecomposition(a);
+  return {
+    part,
+    size: a.length,
+    u: flatten(u),
+    singularValues: sigma,
+    v: flatten(v),
+    rank,
+    conditionNumber,
+    residual: relativeResidual(a, multiply(multiply(u, diagonal(sigma)), transpose(v))),
+    orthogonalityError: Math.max(orthogonalityError(u), orthogonalityError(v)),
+  };
+}
+
+// ── Polar ─────────────────────────────────────────────────────────────────────
+
+// From the SVD: Q = U·Vᵀ, P = V·Σ·Vᵀ and P' = U·Σ·Uᵀ
+export function polar(m: Mat4, part: MatrixPart): PolarResult {
+  const a = block(m, part);
+  const n = a.length;
+  const { u, sigma, v, rank, conditionNumber } = singularValueDecomposition(a);
+  const vt = transpose(v);
+
+  const q = multiply(u, vt);
+  const stretch = multiply(multiply(v, diagonal(sigma)), vt);
+  const leftStretch = multiply(multiply(u, diagonal(sigma)), transpose(u));
+  const reflection = determinant(q) < 0;
+
+  // Flipping the direction of the smallest singular value gives the nearest
+  // proper rotation
+  const flip = sigma.map((_, i) => (reflection && i === n - 1 ? -1 : 1));
+  const closestRotation = multiply(multiply(u, diagonal(flip)), vt);
+
+  return {
+    part,
+    size: n,
+    orthogonal: flatten(q),
+    stretch: flatten(stretch),
+    leftStretch: flatten(leftStretch),
+    reflection,
+    closestRotation: flatten(closestRotation),
+    ...(n === 3 ? { quaternion: quaternionFromRotation(flatten(closestRotation)) } : {}),
+    unique: rank === n,
+    conditionNumber,
+    residual: relativeResidual(a, multiply(q, stretch)),
+    orthogonalityError: orthogonalityError(q),
+  };
+}
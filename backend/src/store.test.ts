@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { savedObject } from './fixtures';
+import { deleteScene, getRevision, getScene, listRevisions, listScenes, saveScene } from './store';
+import { Scene } from './types';
+
+// vitest.config.ts points DATABASE_PATH at ':memory:', so each test file starts empty
+const scene = (id: string, extra: Partial<Scene> = {}): Omit<Scene, 'revision'> => ({
+  id,
+  name: `Scene ${id}`,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  objects: [savedObject('a'), savedObject('b', { parentId: 'a', matrix: Array(16).fill(1) })],
+  tracks: [{ objectId: 'a', property: 'position', interpolation: 'linear', keyframes: [{ time: 0, value: [1, 2, 3] }] }],
+  ...extra,
+});
+
+describe('scene store', () => {
+  it('saves, gets, lists and updates a scene', () => {
+    const saved = saveScene(scene('round-trip'));
+    expect(saved.revision).toBe(1);
+    expect(getScene('round-trip')).toEqual(saved);
+    expect(listScenes()).toContainEqual(saved);
+
+    const updated = saveScene({ ...saved, name: 'Renamed', objects: [], updatedAt: '2024-01-02T00:00:00.000Z' });
+    expect(updated.revision).toBe(2);
+    expect(getScene('round-trip')).toEqual(updated);
+    expect(getScene('round-trip')?.createdAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(listScenes().filter(listed => listed.id === 'round-trip')).toEqual([updated]);
+  });
+
+  it('lists the most recently updated scene first', () => {
+    saveScene(scene('older', { updatedAt: '2020-01-01T00:00:00.000Z' }));
+    saveScene(scene('newer', { updatedAt: '2030-01-01T00:00:00.000Z' }));
+    const ids = listScenes().map(listed => listed.id);
+    expect(ids[0]).toBe('newer');
+    expect(ids.indexOf('newer')).toBeLessThan(ids.indexOf('older'));
+  });
+
+  it('returns nothing for a scene that was never saved', () => {
+    expect(getScene('missing')).toBeUndefined();
+    expect(deleteScene('missing')).toBe(false);
+  });
+
+  it('deletes a scene together with its revisions', () => {
+    saveScene(scene('doomed'));
+    saveScene(scene('doomed', { name: 'Second' }));
+    expect(listRevisions('doomed')).toHaveLength(2);
+
+    expect(deleteScene('doomed')).toBe(true);
+    expect(getScene('doomed')).toBeUndefined();
+    expect(listRevisions('doomed')).toEqual([]);
+    expect(getRevision('doomed', 1)).toBeUndefined();
+  });
+});
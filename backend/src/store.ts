@@ -1,23 +1,121 @@
-import { Scene } from './types.js';
+import { openDatabase } from './db.js';
+import { AnimationTrack, Scene, SavedObject, SceneRevision, SceneRevisionSummary } from './types.js';
 
-// In-memory store — swap out for a database (SQLite, Postgres, etc.) later
-const scenes = new Map<string, Scene>();
+// SQLite-backed store; objects and animation tracks are kept as JSON columns
+// since they are always read and written together with their scene. Every save also appends an
+// immutable row to scene_revisions.
+const db = openDatabase();
+
+interface SceneRow {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  objects: string;
+  tracks: string;
+  revision: number;
+}
+
+interface RevisionRow {
+  scene_id: string;
+  revision: number;
+  name: string;
+  objects: string;
+  tracks: string;
+  created_at: string;
+}
+
+function toScene(row: SceneRow): Scene {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    objects: JSON.parse(row.objects) as SavedObject[],
+    tracks: JSON.parse(row.tracks) as AnimationTrack[],
+    revision: row.revision,
+  };
+}
+
+function toRevision(row: RevisionRow): SceneRevision {
+  return {
+    sceneId: row.scene_id,
+    revision: row.revision,
+    name: row.name,
+    createdAt: row.created_at,
+    objects: JSON.parse(row.objects) as SavedObject[],
+    tracks: JSON.parse(row.tracks) as AnimationTrack[],
+  };
+}
+
+const selectScenes = `
+  SELECT s.*, (SELECT MAX(revision) FROM scene_revisions r WHERE r.scene_id = s.id) AS revision
+  FROM scenes s
+`;
+
+const selectAll = db.prepare<[], SceneRow>(`${selectScenes} ORDER BY s.updated_at DESC`);
+const selectOne = db.prepare<[string], SceneRow>(`${selectScenes} WHERE s.id = ?`);
+const upsert = db.prepare(`
+  INSERT INTO scenes (id, name, created_at, updated_at, objects, tracks)
+  VALUES (@id, @name, @createdAt, @updatedAt, @objects, @tracks)
+  ON CONFLICT (id) DO UPDATE SET
+    name       = excluded.name,
+    created_at = excluded.created_at,
+    updated_at = excluded.updated_at,
+    objects    = excluded.objects,
+    tracks     = excluded.tracks
+`);
+const remove = db.prepare<[string]>('DELETE FROM scenes WHERE id = ?');
+
+const nextRevision = db.prepare<[string], { next: number }>(
+  'SELECT COALESCE(MAX(revision), 0) + 1 AS next FROM scene_revisions WHERE scene_id = ?'
+);
+const insertRevision = db.prepare(`
+  INSERT INTO scene_revisions (scene_id, revision, name, objects, tracks, created_at)
+  VALUES (@sceneId, @revision, @name, @objects, @tracks, @createdAt)
+`);
+const selectRevisions = db.prepare<[string], Omit<RevisionRow, 'objects' | 'tracks'> & { object_count: number }>(`
+  SELECT scene_id, revision, name, created_at, json_array_length(objects) AS object_count
+  FROM scene_revisions WHERE scene_id = ? ORDER BY revision DESC
+`);
+const selectRevision = db.prepare<[string, number], RevisionRow>(
+  'SELECT * FROM scene_revisions WHERE scene_id = ? AND revision = ?'
+);
 
 export function listScenes(): Scene[] {
-  return Array.from(scenes.values()).sort(
-    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-  );
+  return selectAll.all().map(toScene);
 }
 
 export function getScene(id: string): Scene | undefined {
-  return scenes.get(id);
+  const row = selectOne.get(id);
+  return row ? toScene(row) : undefined;
 }
 
-export function saveScene(scene: Scene): Scene {
-  scenes.set(scene.id, scene);
-  return scene;
-}
+export const saveScene = db.transaction((scene: Omit<Scene, 'revision'>): Scene => {
+  const objects = JSON.stringify(scene.objects);
+  const tracks = JSON.stringify(scene.tracks);
+  const { next: revision } = nextRevision.get(scene.id)!;
+
+  upsert.run({ ...scene, objects, tracks });
+  insertRevision.run({ sceneId: scene.id, revision, name: scene.name, objects, tracks, createdAt: scene.updatedAt });
+  return { ...scene, revision };
+});
 
 export function deleteScene(id: string): boolean {
-  return scenes.delete(id);
+  return remove.run(id).changes > 0;
+}
+
+export function listRevisions(sceneId: string): SceneRevisionSummary[] {
+  return selectRevisions.all(sceneId).map(row => ({
+    sceneId: row.scene_id,
+    revision: row.revision,
+    name: row.name,
+    createdAt: row.created_at,
+    objectCount: row.object_count,
+  }));
+}
+
+export function getRevision(sceneId: string, revision: number): SceneRevision | undefined {
+  const row = selectRevision.get(sceneId, revision);
+  return row ? toRevision(row) : undefined;
 }
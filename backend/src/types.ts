@@ -7,18 +7,320 @@ export interface Vec3 {
 export interface SavedObject {
   id: string;
   name: string;
-  type: 'cube' | 'sphere' | 'cylinder' | 'plane';
+  // 'mesh' objects were imported from OBJ/STL/glTF and carry their geometry
+  type: 'cube' | 'sphere' | 'cylinder' | 'plane' | 'mesh';
+  // Id of the parent object; position/rotation/scale are relative to it.
+  // Absent or null for objects at the scene root.
+  parentId?: string | null;
   position: Vec3;
   rotation: Vec3;
   scale: Vec3;
+  // Column-major local 4×4 (three.js element order) for objects whose
+  // transform is not a plain T · R · S (shear, projection). When present it is
+  // authoritative and position/rotation/scale only approximate it.
+  matrix?: number[];
+  // Triangles of a 'mesh' object; absent for the built-in shapes
+  geometry?: MeshGeometry;
   color: string;
   visible: boolean;
 }
 
+// Non-indexed triangle list: base64 of little-endian Float32 xyz triples,
+// three vertices per triangle. Stored as-is; the server never decodes it.
+export interface MeshGeometry {
+  positions: string;
+  normals?: string;
+}
+
+export type TrackProperty = 'position' | 'rotation' | 'scale' | 'matrix';
+
+export type Interpolation = 'step' | 'linear' | 'cubic' | 'slerp';
+
+export interface Keyframe {
+  // Seconds from the start of the timeline
+  time: number;
+  // 3 numbers for position/rotation (radians, XYZ order)/scale;
+  // 16 column-major numbers (three.js Matrix4.elements) for matrix
+  value: number[];
+}
+
+export interface AnimationTrack {
+  objectId: string;
+  property: TrackProperty;
+  interpolation: Interpolation;
+  // Sorted by time
+  keyframes: Keyframe[];
+}
+
 export interface Scene {
   id: string;
   name: string;
   createdAt: string;
   updatedAt: string;
   objects: SavedObject[];
+  tracks: AnimationTrack[];
+  revision: number;
+}
+
+// Immutable snapshot written on every save
+export interface SceneRevision {
+  sceneId: string;
+  revision: number;
+  name: string;
+  createdAt: string;
+  objects: SavedObject[];
+  tracks: AnimationTrack[];
+}
+
+export type SceneRevisionSummary = Omit<SceneRevision, 'objects' | 'tracks'> & { objectCount: number };
+
+export interface FieldChange<T> {
+  from: T;
+  to: T;
+}
+
+export interface ObjectChanges {
+  id: string;
+  name: string;
+  changes: {
+    name?: FieldChange<string>;
+    parentId?: FieldChange<string | null>;
+    position?: FieldChange<Vec3>;
+    rotation?: FieldChange<Vec3>;
+    scale?: FieldChange<Vec3>;
+    matrix?: FieldChange<number[] | null>;
+    color?: FieldChange<string>;
+    visible?: FieldChange<boolean>;
+  };
+}
+
+export interface SceneDiff {
+  from: number;
+  to: number;
+  added: SavedObject[];
+  removed: SavedObject[];
+  changed: ObjectChanges[];
+}
+
+// ── Collaboration ─────────────────────────────────────────────────────────────
+
+// Placement of an object: parent plus local transform, as in SavedObject
+export type ObjectPlacement = Pick<SavedObject, 'position' | 'rotation' | 'scale' | 'matrix'> & { parentId: string | null };
+
+// An edit broadcast to everyone in a scene's room. Transform and visibility
+// carry the full new value, so applying them in sequence order converges.
+export type CollabOperation =
+  | { kind: 'add'; object: SavedObject }
+  | { kind: 'remove'; id: string }
+  | ({ kind: 'transform'; id: string } & ObjectPlacement)
+  | { kind: 'visibility'; id: string; visible: boolean };
+
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  color: string;
+  // Selected object ids, active object last
+  selection: string[];
+}
+
+export type CollabClientMessage =
+  // First message after connecting
+  | { type: 'hello'; name: string }
+  // opId is chosen by the client and echoed back so it can recognise its own edits
+  | { type: 'op'; opId: number; op: CollabOperation }
+  | { type: 'presence'; selection: string[] };
+
+export type CollabServerMessage =
+  // seeded: this client opened the room, from the stored scene
+  | { type: 'welcome'; clientId: string; color: string; seq: number; seeded: boolean; objects: SavedObject[]; peers: CollabPeer[] }
+  // Sent to every client including the author, in seq order
+  | { type: 'op'; seq: number; clientId: string; opId: number; op: CollabOperation }
+  | { type: 'presence'; peer: CollabPeer }
+  | { type: 'leave'; clientId: string }
+  // For a rejected op, opId names it and object is the room's version of the
+  // object it targeted (null if there is none), so the author can roll back
+  | { type: 'error'; message: string; opId?: number; object?: SavedObject | null };
+
+// ── Scene validation ──────────────────────────────────────────────────────────
+
+// The subset of JSON Schema used by sceneSchema.ts and understood by validation.ts
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  // Also used as the error text when a pattern does not match
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// One problem with a request body; path is like objects[2].position.x
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// ── Matrix decomposition ──────────────────────────────────────────────────────
+
+export type EulerOrder = 'XYZ' | 'YXZ' | 'ZXY' | 'ZYX' | 'YZX' | 'XZY';
+
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+// Radians; same conventions as three.js Euler, so XYZ means R = Rx · Ry · Rz
+export interface EulerAngles extends Vec3 {
+  // Middle angle at ±90°: the first and last axes coincide and only their
+  // combination is determined (the last angle is reported as 0)
+  gimbalLock: boolean;
+}
+
+// Off-diagonal factors of the unit upper-triangular shear matrix H
+export interface Shear {
+  xy: number;
+  xz: number;
+  yz: number;
+}
+
+// M = P · T · R · H · S for a row-major M acting on column vectors
+export interface Decomposition {
+  translation: Vec3;
+  rotation: {
+    quaternion: Quaternion;
+    axisAngle: { axis: Vec3; angle: number };
+    euler: Record<EulerOrder, EulerAngles>;
+    // Row-major 3×3
+    matrix: number[];
+  };
+  scale: Vec3;
+  shear: Shear;
+  // Bottom row of P; (0, 0, 0, 1) for an affine matrix
+  perspective: Quaternion;
+}
+
+// Input to /api/matrix/compose; give at most one rotation form
+export interface ComposeRequest {
+  translation?: Vec3;
+  rotation?: {
+    quaternion?: Quaternion;
+    axisAngle?: { axis: Vec3; angle: number };
+    euler?: Vec3 & { order?: EulerOrder };
+  };
+  scale?: Vec3;
+  shear?: Partial<Shear>;
+  perspective?: Quaternion;
+}
+
+// ── Spectral decompositions ───────────────────────────────────────────────────
+
+// Which block of the 4×4 to analyse: the upper-left 3×3 or the whole matrix
+export type MatrixPart = 'linear' | 'full';
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+// Real and imaginary components side by side; im is all zeros for a real vector
+export interface ComplexVector {
+  re: number[];
+  im: number[];
+}
+
+export interface EigenPair {
+  value: Complex;
+  // Algebraic multiplicity; vectors.length is the geometric multiplicity
+  multiplicity: number;
+  // Unit-length basis of the eigenspace
+  vectors: ComplexVector[];
+  // Fewer independent eigenvectors than the multiplicity
+  defective: boolean;
+  // max ‖Av − λv‖ / (‖A‖ ‖v‖) over the vectors
+  residual: number;
+  // Sensitivity of a simple eigenvalue, 1 / |yᴴx| for unit left/right
+  // vectors y and x; null for repeated eigenvalues
+  conditionNumber: number | null;
+}
+
+export interface EigenResult {
+  part: MatrixPart;
+  size: number;
+  // Sorted by decreasing modulus
+  eigenvalues: EigenPair[];
+  allReal: boolean;
+  diagonalizable: boolean;
+  maxResidual: number;
+  // σmax / σmin of the analysed matrix; null when singular
+  conditionNumber: number | null;
+}
+
+// A = U · diag(σ) · Vᵀ; matrices are row-major, singular values descending
+export interface SvdResult {
+  part: MatrixPart;
+  size: number;
+  u: number[];
+  singularValues: number[];
+  v: number[];
+  rank: number;
+  conditionNumber: number | null;
+  // ‖A − UΣVᵀ‖ / ‖A‖ (Frobenius)
+  residual: number;
+  // max |UᵀU − I| and |VᵀV − I|
+  orthogonalityError: number;
+}
+
+// A = Q · P = P' · Q with Q orthogonal and P, P' symmetric positive semi-definite
+export interface PolarResult {
+  part: MatrixPart;
+  size: number;
+  orthogonal: number[];
+  stretch: number[];
+  leftStretch: number[];
+  // det(Q) < 0: Q includes a reflection
+  reflection: boolean;
+  // Rotation nearest to A; equals Q unless Q is a reflection
+  closestRotation: number[];
+  // Present for the 3×3 linear part
+  quaternion?: Quaternion;
+  // Q is only unique when A is invertible
+  unique: boolean;
+  conditionNumber: number | null;
+  // ‖A − QP‖ / ‖A‖ (Frobenius)
+  residual: number;
+  orthogonalityError: number;
+}
+
+// ── Matrix expressions ────────────────────────────────────────────────────────
+
+// Matrices are row-major 4×4; vectors are homogeneous (x, y, z, w)
+export type ExpressionValue =
+  | { kind: 'scalar'; value: number }
+  | { kind: 'vector'; value: number[] }
+  | { kind: 'matrix'; value: number[] };
+
+// Named inputs: 16 numbers are a row-major matrix, 3 or 4 a vector, a number a scalar
+export type ExpressionVariables = Record<string, number | number[]>;
+
+// Character offsets into the expression, end exclusive
+export interface SourceSpan {
+  start: number;
+  end: number;
 }
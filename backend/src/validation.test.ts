@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { savedObject } from './fixtures';
+import { formatIssue, validateScene } from './validation';
+
+const messages = (body: unknown) => validateScene(body).map(formatIssue);
+
+describe('validateScene', () => {
+  it('accepts a scene with a hierarchy, a raw matrix and a track', () => {
+    const body = {
+      name: 'Scene',
+      objects: [savedObject('a'), savedObject('b', { parentId: 'a', matrix: Array(16).fill(0) })],
+      tracks: [
+        { objectId: 'b', property: 'position', interpolation: 'linear', keyframes: [{ time: 0, value: [0, 0, 0] }] },
+      ],
+    };
+    expect(validateScene(body)).toEqual([]);
+  });
+
+  it.each([
+    [null, 'Body must be an object'],
+    [{ objects: [] }, 'name is required'],
+    [{ name: '', objects: [] }, 'name must not be empty'],
+    [{ name: 'S', objects: [], extra: 1 }, 'extra is not a known field'],
+    [{ name: 'S', objects: [{ ...savedObject('a'), type: 'torus' }] }, 'objects[0].type must be one of'],
+    [{ name: 'S', objects: [{ ...savedObject('a'), color: 'red' }] }, 'objects[0].color must be a hex color such as #4ecdc4'],
+    [{ name: 'S', objects: [{ ...savedObject('a'), position: { x: 0, y: 0 } }] }, 'objects[0].position.z is required'],
+  ])('rejects %j', (body, message) => {
+    expect(messages(body).join('\n')).toContain(message);
+  });
+
+  // Keys are looked up as own properties, so these are neither known fields nor present
+  it.each(['constructor', 'toString', '__proto__'])('rejects a field named %s', (key) => {
+    const body = JSON.parse(`{"name": "S", "objects": [], "${key}": 1}`);
+    expect(messages(body)).toEqual([`${key} is not a known field`]);
+  });
+
+  it('does not treat an inherited member as a required field', () => {
+    const body = Object.create({ name: 'S' });
+    body.objects = [];
+    expect(messages(body)).toEqual(['name is required']);
+  });
+
+  it('checks references between objects and tracks', () => {
+    const body = {
+      name: 'S',
+      objects: [
+        savedObject('a', { parentId: 'b' }),
+        savedObject('b', { parentId: 'a' }),
+        savedObject('a'),
+        savedObject('c', { parentId: 'x' }),
+      ],
+      tracks: [{ objectId: 'z', property: 'matrix', interpolation: 'step', keyframes: [{ time: 0, value: [0, 0, 0] }] }],
+    };
+    expect(messages(body)).toEqual([
+      'objects[2].id duplicates objects[0].id',
+      'objects[0].parentId makes the object its own ancestor',
+      'objects[1].parentId makes the object its own ancestor',
+      'objects[3].parentId refers to no object in the scene',
+      'tracks[0].objectId refers to no object in the scene',
+      'tracks[0].keyframes[0].value must have 16 numbers for a matrix track',
+    ]);
+  });
+});
@@ -0,0 +1,235 @@
+import { sceneSchema } from './sceneSchema.js';
+import { JsonSchema, JsonType, SavedObject, ValidationIssue } from './types.js';
+
+// Interpreter for the JSON Schema subset declared in types.ts, plus the scene
+// rules a schema cannot express. Issues are collected down to the leaves but
+// capped, so a large malformed array stays cheap to reject.
+
+const MAX_ISSUES = 20;
+
+const TYPE_NAMES: Record<JsonType, string> = {
+  object: 'an object',
+  array: 'an array',
+  string: 'a string',
+  number: 'a finite number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  null: 'null',
+};
+
+// JSON.parse turns 1e400 into Infinity, so non-finite numbers match no type
+function typeOf(value: unknown): JsonType | null {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') {
+    return typeof value as JsonType;
+  }
+  return null;
+}
+
+const hasOwn = (record: object, key: string) => Object.prototype.hasOwnProperty.call(record, key);
+
+function matchesType(actual: JsonType | null, expected: JsonType): boolean {
+  return actual === expected || (expected === 'number' && actual === 'integer');
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// Only local references into $defs are supported
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const name = ref.startsWith('#/$defs/') ? ref.slice('#/$defs/'.length) : null;
+  const target = name !== null ? root.$defs?.[name] : undefined;
+  if (!target) throw new Error(`Unresolvable schema reference ${ref}`);
+  return target;
+}
+
+export function validateSchema(schema: JsonSchema, value: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) => {
+    if (issues.length < MAX_ISSUES) issues.push({ path, message });
+  };
+
+  const check = (node: JsonSchema, value: unknown, path: string) => {
+    if (issues.length >= MAX_ISSUES) return;
+    if (node.$ref) {
+      check(resolveRef(schema, node.$ref), value, path);
+      return;
+    }
+
+    if (node.enum && !node.enum.includes(value)) {
+      report(path, `must be one of ${node.enum.map(option => JSON.stringify(option)).join(', ')}`);
+      return;
+    }
+
+    const actual = typeOf(value);
+    if (node.type) {
+      const expected = Array.isArray(node.type) ? node.type : [node.type];
+      if (!expected.some(type => matchesType(actual, type))) {
+        report(path, `must be ${expected.map(type => TYPE_NAMES[type]).join(' or ')}`);
+        return;
+      }
+    }
+
+    if (typeof value === 'string') {
+      if (node.minLength !== undefined && value.length < node.minLength) {
+        report(path, node.minLength === 1 ? 'must not be empty' : `must be at least ${node.minLength} characters`);
+      } else if (node.maxLength !== undefined && value.length > node.maxLength) {
+        report(path, `must be at most ${node.maxLength} characters`);
+      } else if (node.pattern && !new RegExp(node.pattern).test(value)) {
+        report(path, `must be ${node.description ?? `text matching ${node.pattern}`}`);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (node.minimum !== undefined && value < node.minimum) report(path, `must be at least ${node.minimum}`);
+      if (node.maximum !== undefined && value > node.maximum) report(path, `must be at most ${node.maximum}`);
+    }
+
+    if (Array.isArray(value)) {
+      if (node.minItems !== undefined && value.length < node.minItems) {
+        report(path, `must have at least ${node.minItems} items`);
+      } else if (node.maxItems !== undefined && value.length > node.maxItems) {
+        report(path, `must have at most ${node.maxItems} items`);
+        return;
+      }
+      if (node.items) value.forEach((item, i) => check(node.items!, item, childPath(path, i)));
+    }
+
+    if (actual === 'object') {
+      const record = value as Record<string, unknown>;
+      node.required?.forEach(key => {
+        if (!hasOwn(record, key)) report(childPath(path, key), 'is required');
+      });
+      Object.entries(record).forEach(([key, child]) => {
+        // Own keys only: a body key such as 'constructor' must not find Object.prototype's
+        const property = node.properties && hasOwn(node.properties, key) ? node.properties[key] : undefined;
+        if (property) check(property, child, childPath(path, key));
+        else if (node.additionalProperties === false) report(childPath(path, key), 'is not a known field');
+      });
+    }
+  };
+
+  check(schema, value, '');
+  return issues;
+}
+
+export function formatIssue({ path, message }: ValidationIssue): string {
+  return path ? `${path} ${message}` : `Body ${message}`;
+}
+
+interface ObjectBody {
+  id: string;
+  type: string;
+  parentId?: string | null;
+  geometry?: { positions: string; normals?: string };
+}
+
+interface SceneBody {
+  objects: ObjectBody[];
+  tracks?: { objectId: string; property: string; keyframes: { time: number; value: number[] }[] }[];
+}
+
+// The objects an object is checked against: which ids exist, and their parents
+interface ObjectIndex {
+  has(id: string): boolean;
+  parentOf(id: string): string | null | undefined;
+}
+
+function base64Bytes(text: string): number {
+  return (text.length / 4) * 3 - (text.endsWith('==') ? 2 : text.endsWith('=') ? 1 : 0);
+}
+
+const TRIANGLE_BYTES = 3 * 3 * 4;
+
+function checkObjectRules(obj: ObjectBody, path: string, index: ObjectIndex, report: (path: string, message: string) => void) {
+  if (obj.parentId != null) {
+    if (!index.has(obj.parentId)) {
+      report(childPath(path, 'parentId'), 'refers to no object in the scene');
+    } else {
+      // Stop at the first repeat so a cycle further up cannot loop forever
+      const seen = new Set<string>();
+      for (let id: string | null | undefined = obj.parentId; id != null && !seen.has(id); id = index.parentOf(id)) {
+        if (id === obj.id) {
+          report(childPath(path, 'parentId'), 'makes the object its own ancestor');
+          break;
+        }
+        seen.add(id);
+      }
+    }
+  }
+
+  if (obj.type === 'mesh' && !obj.geometry) report(childPath(path, 'geometry'), 'is required for mesh objects');
+  if (obj.type !== 'mesh' && obj.geometry) report(childPath(path, 'geometry'), 'is only allowed on mesh objects');
+  if (obj.geometry) {
+    const bytes = base64Bytes(obj.geometry.positions);
+    if (obj.geometry.positions.length % 4 !== 0 || bytes % TRIANGLE_BYTES !== 0) {
+      report(childPath(path, 'geometry.positions'), `must hold whole triangles (a multiple of ${TRIANGLE_BYTES} bytes)`);
+    }
+    if (obj.geometry.normals !== undefined && obj.geometry.normals.length !== obj.geometry.positions.length) {
+      report(childPath(path, 'geometry.normals'), 'must be the same length as positions');
+    }
+  }
+}
+
+// Cross-field rules; assumes the body already matches sceneSchema
+function checkSceneRules(body: SceneBody): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) => {
+    if (issues.length < MAX_ISSUES) issues.push({ path, message });
+  };
+
+  const indexById = new Map<string, number>();
+  body.objects.forEach((obj, i) => {
+    const first = indexById.get(obj.id);
+    if (first !== undefined) report(`objects[${i}].id`, `duplicates objects[${first}].id`);
+    else indexById.set(obj.id, i);
+  });
+
+  const index: ObjectIndex = {
+    has: id => indexById.has(id),
+    parentOf: id => {
+      const i = indexById.get(id);
+      return i !== undefined ? body.objects[i].parentId : null;
+    },
+  };
+  body.objects.forEach((obj, i) => checkObjectRules(obj, `objects[${i}]`, index, report));
+
+  body.tracks?.forEach((track, i) => {
+    const path = `tracks[${i}]`;
+    if (!indexById.has(track.objectId)) report(`${path}.objectId`, 'refers to no object in the scene');
+
+    const size = track.property === 'matrix' ? 16 : 3;
+    track.keyframes.forEach((key, k) => {
+      if (key.value.length !== size) {
+        report(`${path}.keyframes[${k}].value`, `must have ${size} numbers for a ${track.property} track`);
+      }
+      if (k > 0 && key.time < track.keyframes[k - 1].time) {
+        report(`${path}.keyframes[${k}].time`, 'must not be earlier than the previous keyframe');
+      }
+    });
+  });
+
+  return issues;
+}
+
+// The same cross-field rules for one object joining or changing within
+// `objects`, e.g. through a live editing operation; paths are relative to it
+export function validateObjectRules(obj: SavedObject, objects: Map<string, SavedObject>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const index: ObjectIndex = { has: id => objects.has(id), parentOf: id => objects.get(id)?.parentId };
+  checkObjectRules(obj, '', index, (path, message) => issues.push({ path, message }));
+  return issues;
+}
+
+// Everything wrong with a POST/PUT /api/scenes body; empty when it can be stored
+export function validateScene(body: unknown): ValidationIssue[] {
+  const issues = validateSchema(sceneSchema, body);
+  return issues.length > 0 ? issues : checkSceneRules(body as SceneBody);
+}
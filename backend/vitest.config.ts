@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// The store opens its database on import; tests get a throwaway one in memory
+export default defineConfig({
+  test: {
+    env: { DATABASE_PATH: ':memory:' },
+  },
+});